@@ -32,6 +32,9 @@ export default [
         RequestInit: 'readonly',
         Response: 'readonly',
         Headers: 'readonly',
+        FormData: 'readonly',
+        Blob: 'readonly',
+        URLSearchParams: 'readonly',
       },
     },
     plugins: {
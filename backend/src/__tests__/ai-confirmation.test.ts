@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { isConfirmation } from '../modules/ai/ai.confirmation.js';
+
+describe('isConfirmation', () => {
+  it('should accept the answers the bot asks for', () => {
+    for (const message of ['sí', 'Sí', 'si', 'sí, confirmo', 'Sí, confirmar', '¡Sí!', 'ok', 'Dale.', 'de acuerdo']) {
+      expect(isConfirmation(message), message).toBe(true);
+    }
+  });
+
+  it('should reject negations anywhere in the message', () => {
+    for (const message of ['no', 'claro que no', 'ok no', 'sí, mejor cancela', 'nah', 'sí pero espera']) {
+      expect(isConfirmation(message), message).toBe(false);
+    }
+  });
+
+  it('should only match whole words', () => {
+    for (const message of ['sino', 'okey dokey... quizás', 'claridad', 'quiero otra hora']) {
+      expect(isConfirmation(message), message).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { extractMentionHandles, findMentionedUsers } from '../modules/conversations/conversations.mentions.js';
+
+const users = [
+  { id: 'u1', email: 'ana.lopez@example.com', name: 'Ana Lopez' },
+  { id: 'u2', email: 'carlos@example.com', name: 'Carlos Ruiz' },
+];
+
+describe('extractMentionHandles', () => {
+  it('should find each handle once', () => {
+    expect(extractMentionHandles('@Ana.Lopez can you check? cc @carlos, @ana.lopez')).toEqual(['ana.lopez', 'carlos']);
+  });
+
+  it('should ignore email addresses and trailing punctuation', () => {
+    expect(extractMentionHandles('Customer wrote from ana@example.com.')).toEqual([]);
+    expect(extractMentionHandles('Ask @carlos.')).toEqual(['carlos']);
+  });
+});
+
+describe('findMentionedUsers', () => {
+  it('should match the email handle or the name without spaces', () => {
+    expect(findMentionedUsers('@ana.lopez and @CarlosRuiz', users)).toEqual(['u1', 'u2']);
+  });
+
+  it('should ignore handles of people outside the team', () => {
+    expect(findMentionedUsers('@maria please', users)).toEqual([]);
+  });
+});
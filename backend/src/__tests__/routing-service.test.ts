@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { routingService } from '../modules/routing/routing.service.js';
+
+const { db, emitToTenant } = vi.hoisted(() => {
+  const db = {
+    tenant: { findUnique: vi.fn() },
+    conversation: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    conversationAssignment: { findFirst: vi.fn(), count: vi.fn(), upsert: vi.fn() },
+    routingRule: { findMany: vi.fn() },
+    user: { findMany: vi.fn(), update: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  };
+  // Interactive transactions run on the same mocks
+  db.$transaction.mockImplementation(async (work: (tx: typeof db) => unknown) => work(db));
+
+  return { db, emitToTenant: vi.fn() };
+});
+
+vi.mock('../config/database.js', () => ({ prisma: db }));
+vi.mock('../modules/realtime/socket.handler.js', () => ({ emitToTenant }));
+vi.mock('../modules/webhooks/webhooks.service.js', () => ({
+  webhooksService: { dispatchEvent: vi.fn(async () => undefined) },
+}));
+vi.mock('../shared/utils/logger.js', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { logger, createModuleLogger: () => logger };
+});
+
+const user = (id: string, overrides: { open?: number; lastAssignedAt?: Date | null; skills?: string[] } = {}) => ({
+  id,
+  skills: overrides.skills ?? [],
+  maxConcurrent: 2,
+  isAvailable: true,
+  lastAssignedAt: overrides.lastAssignedAt ?? null,
+  _count: { assignedConversations: overrides.open ?? 0 },
+});
+
+const conversation = (overrides: { routingQueuedAt?: Date | null; assignee?: string } = {}) => ({
+  id: 'conv-1',
+  status: 'OPEN',
+  currentIntent: null,
+  routingQueuedAt: overrides.routingQueuedAt ?? null,
+  contact: { tags: [] },
+  assignments: overrides.assignee ? [{ userId: overrides.assignee }] : [],
+});
+
+describe('RoutingService.route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.tenant.findUnique.mockResolvedValue({ routingStrategy: 'ROUND_ROBIN' });
+    db.conversation.findFirst.mockResolvedValue(conversation());
+    db.routingRule.findMany.mockResolvedValue([]);
+    db.conversationAssignment.findFirst.mockResolvedValue(null);
+    db.conversationAssignment.count.mockResolvedValue(0);
+  });
+
+  it('should leave conversations alone when the tenant routes by hand', async () => {
+    db.tenant.findUnique.mockResolvedValue({ routingStrategy: 'MANUAL' });
+
+    expect(await routingService.route('t1', 'conv-1', 'handoff')).toBeNull();
+    expect(db.user.findMany).not.toHaveBeenCalled();
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should assign the agent the strategy picks', async () => {
+    db.user.findMany.mockResolvedValue([
+      user('ana', { lastAssignedAt: new Date('2025-03-10T16:05:00Z') }),
+      user('luis', { lastAssignedAt: new Date('2025-03-10T16:00:00Z') }),
+    ]);
+
+    expect(await routingService.route('t1', 'conv-1', 'handoff')).toBe('luis');
+    expect(db.conversationAssignment.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { conversationId_userId: { conversationId: 'conv-1', userId: 'luis' } },
+    }));
+    expect(emitToTenant).toHaveBeenCalledWith('t1', 'conversation:update', expect.objectContaining({ assigneeId: 'luis' }));
+  });
+
+  it('should try the next agent when the picked one filled up meanwhile', async () => {
+    db.tenant.findUnique.mockResolvedValue({ routingStrategy: 'LEAST_BUSY' });
+    db.user.findMany.mockResolvedValue([user('ana', { open: 0 }), user('luis', { open: 1 })]);
+    // Under the lock, ana turns out to be at capacity
+    db.conversationAssignment.count.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+
+    expect(await routingService.route('t1', 'conv-1', 'handoff')).toBe('luis');
+    expect(db.conversationAssignment.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the assignee of a conversation taken while it was being routed', async () => {
+    db.user.findMany.mockResolvedValue([user('ana')]);
+    db.conversationAssignment.findFirst.mockResolvedValue({ userId: 'eva' });
+
+    expect(await routingService.route('t1', 'conv-1', 'handoff')).toBe('eva');
+    expect(db.conversationAssignment.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should queue the conversation when nobody has room', async () => {
+    db.user.findMany.mockResolvedValue([user('ana', { open: 2 })]);
+
+    expect(await routingService.route('t1', 'conv-1', 'handoff')).toBeNull();
+    expect(db.conversation.update).toHaveBeenCalledWith({
+      where: { id: 'conv-1' },
+      data: { routingQueuedAt: expect.any(Date) },
+    });
+    expect(emitToTenant).toHaveBeenCalledWith('t1', 'routing:queued', { conversationId: 'conv-1', skills: [] });
+  });
+});
+
+describe('RoutingService.drainQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should empty the queue when the tenant switched to manual routing', async () => {
+    db.tenant.findUnique.mockResolvedValue({ routingStrategy: 'MANUAL' });
+
+    expect(await routingService.drainQueue('t1')).toBe(0);
+    expect(db.conversation.updateMany).toHaveBeenCalledWith({
+      where: { tenantId: 't1', routingQueuedAt: { not: null } },
+      data: { routingQueuedAt: null },
+    });
+  });
+
+  it('should route the waiting conversations oldest first', async () => {
+    db.tenant.findUnique.mockResolvedValue({ routingStrategy: 'ROUND_ROBIN' });
+    db.conversation.findMany.mockResolvedValue([{ id: 'conv-1' }, { id: 'conv-2' }]);
+    const route = vi.spyOn(routingService, 'route').mockResolvedValueOnce('ana').mockResolvedValueOnce(null);
+
+    expect(await routingService.drainQueue('t1')).toBe(1);
+    expect(db.conversation.findMany).toHaveBeenCalledWith(expect.objectContaining({ orderBy: { routingQueuedAt: 'asc' } }));
+    expect(route.mock.calls.map(call => call[1])).toEqual(['conv-1', 'conv-2']);
+
+    route.mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { pickAgent, requiredSkills, type RoutingAgent } from '../modules/routing/routing.strategy.js';
+
+const agent = (id: string, overrides: Partial<RoutingAgent> = {}): RoutingAgent => ({
+  id,
+  skills: [],
+  maxConcurrent: 5,
+  openConversations: 0,
+  isAvailable: true,
+  lastAssignedAt: null,
+  ...overrides,
+});
+
+describe('pickAgent', () => {
+  it('should rotate to the agent assigned longest ago', () => {
+    const team = [
+      agent('ana', { lastAssignedAt: new Date('2025-03-10T16:05:00Z') }),
+      agent('luis', { lastAssignedAt: new Date('2025-03-10T16:00:00Z'), openConversations: 4 }),
+    ];
+
+    expect(pickAgent('ROUND_ROBIN', team)?.id).toBe('luis');
+    expect(pickAgent('ROUND_ROBIN', [...team, agent('eva')])?.id).toBe('eva');
+  });
+
+  it('should prefer the agent with the fewest open conversations', () => {
+    const team = [agent('ana', { openConversations: 3 }), agent('luis', { openConversations: 1 })];
+    expect(pickAgent('LEAST_BUSY', team)?.id).toBe('luis');
+  });
+
+  it('should skip unavailable agents and agents at capacity', () => {
+    const team = [
+      agent('ana', { isAvailable: false }),
+      agent('luis', { openConversations: 5 }),
+    ];
+
+    expect(pickAgent('LEAST_BUSY', team)).toBeNull();
+    expect(pickAgent('ROUND_ROBIN', [...team, agent('eva', { openConversations: 4 })])?.id).toBe('eva');
+  });
+
+  it('should only hand skilled work to agents with every skill', () => {
+    const team = [
+      agent('ana'),
+      agent('luis', { skills: ['Ventas', 'ingles'], openConversations: 2 }),
+    ];
+
+    expect(pickAgent('SKILLS_MATCH', team, ['ventas', 'ingles'])?.id).toBe('luis');
+    expect(pickAgent('LEAST_BUSY', team, ['ventas'])?.id).toBe('ana');
+  });
+
+  it('should wait for a skilled agent who is busy, but not for a skill nobody has', () => {
+    const team = [agent('ana'), agent('luis', { skills: ['ventas'], isAvailable: false })];
+
+    expect(pickAgent('SKILLS_MATCH', team, ['ventas'])).toBeNull();
+    expect(pickAgent('SKILLS_MATCH', team, ['soporte'])?.id).toBe('ana');
+  });
+});
+
+describe('requiredSkills', () => {
+  const rules = [
+    { intent: 'appointment_booking', tagId: null, skills: ['agenda'], priority: 0 },
+    { intent: null, tagId: 'vip', skills: ['vip'], priority: 10 },
+  ];
+
+  it('should use the highest-priority matching rule', () => {
+    expect(requiredSkills(rules, { intent: 'appointment_booking', tagIds: ['vip'] })).toEqual(['vip']);
+    expect(requiredSkills(rules, { intent: 'appointment_booking', tagIds: [] })).toEqual(['agenda']);
+  });
+
+  it('should need no skills when no rule matches', () => {
+    expect(requiredSkills(rules, { intent: null, tagIds: [] })).toEqual([]);
+  });
+});
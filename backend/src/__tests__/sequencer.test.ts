@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DelayedError, UnrecoverableError, type Job } from 'bullmq';
+import { ConversationSequencer } from '../jobs/sequencer.js';
+
+// In-memory stand-in for the few Redis calls the sequencer makes
+const store = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../config/redis.js', () => ({
+  redis: {
+    incr: async (key: string) => {
+      const value = parseInt(store.get(key) ?? '0', 10) + 1;
+      store.set(key, String(value));
+      return value;
+    },
+    expire: async () => 1,
+    get: async (key: string) => store.get(key) ?? null,
+    // COMPLETE_SCRIPT: raise the "done" mark, never lower it
+    eval: async (_script: string, _keys: number, key: string, seq: number) => {
+      if (seq > parseInt(store.get(key) ?? '0', 10)) store.set(key, String(seq));
+      return 1;
+    },
+  },
+}));
+
+vi.mock('../shared/utils/logger.js', () => ({
+  createModuleLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+const job = (overrides: { timestamp?: number; attemptsMade?: number; attempts?: number } = {}) => ({
+  timestamp: overrides.timestamp ?? Date.now(),
+  attemptsMade: overrides.attemptsMade ?? 0,
+  opts: { attempts: overrides.attempts ?? 3 },
+  moveToDelayed: vi.fn(async () => undefined),
+}) as unknown as Job & { moveToDelayed: ReturnType<typeof vi.fn> };
+
+describe('ConversationSequencer', () => {
+  let sequencer: ConversationSequencer;
+
+  beforeEach(() => {
+    store.clear();
+    sequencer = new ConversationSequencer('test', 60_000);
+  });
+
+  it('should hand out positions per conversation', async () => {
+    expect(await sequencer.reserve('c1')).toBe(1);
+    expect(await sequencer.reserve('c1')).toBe(2);
+    expect(await sequencer.reserve('c2')).toBe(1);
+  });
+
+  it('should delay a job until the ones before it complete', async () => {
+    const first = await sequencer.reserve('c1');
+    const second = await sequencer.reserve('c1');
+    const work = vi.fn(async () => 'sent');
+
+    const waiting = job();
+    await expect(sequencer.run(waiting, 'token', 'c1', second, work)).rejects.toBeInstanceOf(DelayedError);
+    expect(waiting.moveToDelayed).toHaveBeenCalledOnce();
+    expect(work).not.toHaveBeenCalled();
+
+    await expect(sequencer.run(job(), 'token', 'c1', first, work)).resolves.toBe('sent');
+    await expect(sequencer.run(job(), 'token', 'c1', second, work)).resolves.toBe('sent');
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep later jobs waiting while a failed job still has attempts left', async () => {
+    const first = await sequencer.reserve('c1');
+    const second = await sequencer.reserve('c1');
+    const failing = vi.fn(async () => {
+      throw new Error('timeout');
+    });
+
+    await expect(sequencer.run(job({ attemptsMade: 0 }), 'token', 'c1', first, failing)).rejects.toThrow('timeout');
+    expect(await sequencer.isTurn('c1', second, Date.now())).toBe(false);
+
+    await expect(sequencer.run(job({ attemptsMade: 2 }), 'token', 'c1', first, failing)).rejects.toThrow('timeout');
+    expect(await sequencer.isTurn('c1', second, Date.now())).toBe(true);
+  });
+
+  it('should release later jobs right away after an unrecoverable error', async () => {
+    const first = await sequencer.reserve('c1');
+    const second = await sequencer.reserve('c1');
+
+    await expect(sequencer.run(job(), 'token', 'c1', first, async () => {
+      throw new UnrecoverableError('window closed');
+    })).rejects.toBeInstanceOf(UnrecoverableError);
+
+    expect(await sequencer.isTurn('c1', second, Date.now())).toBe(true);
+  });
+
+  it('should never move the done mark backwards', async () => {
+    await sequencer.complete('c1', 3);
+    await sequencer.complete('c1', 1);
+
+    expect(await sequencer.isTurn('c1', 4, Date.now())).toBe(true);
+    expect(await sequencer.isTurn('c1', 5, Date.now())).toBe(false);
+  });
+
+  it('should stop waiting for a predecessor that never completes', async () => {
+    await sequencer.reserve('c1');
+    const second = await sequencer.reserve('c1');
+
+    expect(await sequencer.isTurn('c1', second, Date.now() - 61_000)).toBe(true);
+  });
+});
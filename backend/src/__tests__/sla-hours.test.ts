@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { addBusinessMinutes, businessMinutesBetween } from '../modules/sla/sla.hours.js';
+
+// Mexico City is UTC-6 all year
+const hours = {
+  timezone: 'America/Mexico_City',
+  workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  workingHoursStart: '09:00',
+  workingHoursEnd: '18:00',
+};
+
+describe('addBusinessMinutes', () => {
+  it('should count within the same working day', () => {
+    // Monday 10:00 local
+    expect(addBusinessMinutes(new Date('2025-03-10T16:00:00Z'), 30, hours))
+      .toEqual(new Date('2025-03-10T16:30:00Z'));
+  });
+
+  it('should wait for the business to open', () => {
+    // Monday 07:00 local -> due Monday 09:15
+    expect(addBusinessMinutes(new Date('2025-03-10T13:00:00Z'), 15, hours))
+      .toEqual(new Date('2025-03-10T15:15:00Z'));
+  });
+
+  it('should carry over the weekend', () => {
+    // Friday 17:30 local + 60 min -> Monday 09:30
+    expect(addBusinessMinutes(new Date('2025-03-14T23:30:00Z'), 60, hours))
+      .toEqual(new Date('2025-03-17T15:30:00Z'));
+  });
+
+  it('should run around the clock without working days', () => {
+    expect(addBusinessMinutes(new Date('2025-03-15T12:00:00Z'), 90, { ...hours, workingDays: [] }))
+      .toEqual(new Date('2025-03-15T13:30:00Z'));
+  });
+});
+
+describe('businessMinutesBetween', () => {
+  it('should only count open hours', () => {
+    // Friday 17:00 local -> Monday 10:00 local
+    expect(businessMinutesBetween(new Date('2025-03-14T23:00:00Z'), new Date('2025-03-17T16:00:00Z'), hours)).toBe(120);
+  });
+
+  it('should be zero outside opening hours', () => {
+    // Saturday morning -> Saturday night
+    expect(businessMinutesBetween(new Date('2025-03-15T15:00:00Z'), new Date('2025-03-16T03:00:00Z'), hours)).toBe(0);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { extractVariables, renderTemplate } from '../shared/utils/template.js';
+
+describe('renderTemplate', () => {
+  it('should replace every occurrence of a variable', () => {
+    expect(renderTemplate('{{name}} y {{ name }}', { name: 'Ana' })).toBe('Ana y Ana');
+  });
+
+  it('should leave unknown variables untouched', () => {
+    expect(renderTemplate('Hola {{name}}', {})).toBe('Hola {{name}}');
+  });
+});
+
+describe('extractVariables', () => {
+  it('should list each variable once in order of appearance', () => {
+    expect(extractVariables('{{ name }}, tu cita es el {{date}}. Gracias {{name}}')).toEqual(['name', 'date']);
+  });
+});
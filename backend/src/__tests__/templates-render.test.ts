@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAppointment,
+  formatPriceList,
+  formatSchedule,
+  renderResponse,
+  sourcesFor,
+} from '../modules/templates/templates.render.js';
+
+describe('renderResponse', () => {
+  it('should fill known variables and report the missing ones', () => {
+    const rendered = renderResponse('Hola {{name}}! Precios:\n{{price_list}}', { name: 'Ana', price_list: '  ' });
+
+    expect(rendered.content).toBe('Hola Ana! Precios:\n{{price_list}}');
+    expect(rendered.variables).toEqual(['name', 'price_list']);
+    expect(rendered.missingVariables).toEqual(['price_list']);
+  });
+
+  it('should only load the sources a template uses', () => {
+    expect([...sourcesFor(['name', 'date', 'custom'])]).toEqual(['contact', 'appointment']);
+  });
+});
+
+describe('formatters', () => {
+  it('should list services before products', () => {
+    expect(formatPriceList(
+      [{ name: 'Corte', price: 150, duration: 30 }],
+      [{ name: 'Shampoo', price: '89.50' }]
+    )).toBe('- Corte: $150 (30 min)\n- Shampoo: $89.50');
+    expect(formatPriceList([], [])).toBe('');
+  });
+
+  it('should collapse consecutive working days into a range', () => {
+    expect(formatSchedule(['mon', 'tue', 'wed', 'thu', 'fri'], '09:00', '18:00')).toBe('Lunes a Viernes, 09:00 - 18:00');
+    expect(formatSchedule(['mon', 'wed', 'sat'], '10:00', '14:00')).toBe('Lunes, Miercoles, Sabado, 10:00 - 14:00');
+  });
+
+  it('should show appointments in the business timezone', () => {
+    const { time } = formatAppointment(new Date('2025-03-10T16:30:00Z'), 'America/Mexico_City');
+    expect(time).toBe('10:30');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseMessageContent } from '../modules/whatsapp/whatsapp.parser.js';
+import type { WhatsAppMessage } from '../shared/types/index.js';
+
+const base = { id: 'wamid.1', from: '5215512345678', timestamp: '1700000000' };
+
+describe('parseMessageContent', () => {
+  it('should keep the id and title of a tapped button', () => {
+    const parsed = parseMessageContent({
+      ...base,
+      type: 'interactive',
+      interactive: { type: 'button_reply', button_reply: { id: 'confirm_yes', title: 'Sí, confirmar' } },
+    } as WhatsAppMessage);
+
+    expect(parsed.reply).toEqual({ type: 'button_reply', id: 'confirm_yes', title: 'Sí, confirmar' });
+    expect(parsed.content).toBe('Sí, confirmar');
+  });
+
+  it('should parse list replies and template quick replies', () => {
+    const list = parseMessageContent({
+      ...base,
+      type: 'interactive',
+      interactive: { type: 'list_reply', list_reply: { id: 'svc_cut', title: 'Corte', description: '30 min' } },
+    } as WhatsAppMessage);
+    const quickReply = parseMessageContent({
+      ...base,
+      type: 'button',
+      button: { payload: 'STOP', text: 'No recibir más' },
+    } as WhatsAppMessage);
+
+    expect(list.reply).toEqual({ type: 'list_reply', id: 'svc_cut', title: 'Corte' });
+    expect(quickReply.reply).toEqual({ type: 'button', id: 'STOP', title: 'No recibir más' });
+  });
+
+  it('should parse locations and contact cards', () => {
+    const location = parseMessageContent({
+      ...base,
+      type: 'location',
+      location: { latitude: 19.43, longitude: -99.13, name: 'Zócalo', address: 'Centro, CDMX' },
+    } as WhatsAppMessage);
+    const contacts = parseMessageContent({
+      ...base,
+      type: 'contacts',
+      contacts: [{ name: { formatted_name: 'Ana López' }, phones: [{ phone: '+52 55 1234 5678', wa_id: '5215512345678' }] }],
+    } as WhatsAppMessage);
+
+    expect(location.location).toEqual({ latitude: 19.43, longitude: -99.13, name: 'Zócalo', address: 'Centro, CDMX' });
+    expect(location.content).toBe('📍 Zócalo, Centro, CDMX (19.43, -99.13)');
+    expect(contacts.contacts).toEqual([{ name: 'Ana López', phones: ['+5215512345678'], emails: [], organization: null }]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { inboundMessagePipeline } from '../modules/whatsapp/whatsapp.pipeline.js';
+import type { ProcessedInboundMessage } from '../modules/whatsapp/whatsapp.webhook.js';
+
+const { db, aiService, autoReplyService, addWhatsAppSendJob } = vi.hoisted(() => {
+  const db = {
+    conversation: { findUnique: vi.fn(), update: vi.fn() },
+    message: { findUnique: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(async (operations: Array<Promise<unknown>>) => Promise.all(operations)),
+  };
+
+  return {
+    db,
+    aiService: { processMessage: vi.fn() },
+    autoReplyService: { findMatch: vi.fn() },
+    addWhatsAppSendJob: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock('../config/database.js', () => ({ prisma: db }));
+vi.mock('../modules/ai/ai.service.js', () => ({ aiService }));
+vi.mock('../modules/autoreply/autoreply.service.js', () => ({ autoReplyService }));
+vi.mock('../jobs/queue.js', () => ({ addWhatsAppSendJob }));
+vi.mock('../modules/realtime/socket.handler.js', () => ({ emitToTenant: vi.fn() }));
+vi.mock('../modules/sla/sla.service.js', () => ({ slaService: { start: vi.fn() } }));
+vi.mock('../modules/routing/routing.service.js', () => ({ routingService: { route: vi.fn() } }));
+vi.mock('../shared/utils/logger.js', () => ({
+  createModuleLogger: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+const inbound: ProcessedInboundMessage = {
+  tenantId: 't1',
+  contactId: 'contact-1',
+  conversationId: 'conv-1',
+  channelId: null,
+  messageId: 'in-1',
+  from: '5215512345678',
+  type: 'text',
+  content: 'Hola, ¿tienen citas?',
+  waMediaId: null,
+  mediaType: null,
+  replyId: null,
+  contactName: 'Ana',
+};
+
+const aiReply = {
+  message: 'Claro, ¿qué día te acomoda?',
+  intent: { type: 'appointment_booking' },
+  citedChunkIds: [],
+  shouldHandoff: false,
+  toolCalls: [],
+};
+
+describe('InboundMessagePipeline.process', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.conversation.findUnique.mockResolvedValue({ isAiEnabled: true, aiTakenOver: false });
+    db.message.findUnique.mockResolvedValue(null);
+    db.message.create.mockResolvedValue({ id: 'out-1' });
+    autoReplyService.findMatch.mockResolvedValue({ matched: false });
+    aiService.processMessage.mockResolvedValue(aiReply);
+  });
+
+  it('should answer with a matching rule without calling the AI', async () => {
+    autoReplyService.findMatch.mockResolvedValue({ matched: true, reply: '¡Hola!', ruleId: 'rule-1' });
+
+    expect(await inboundMessagePipeline.process(inbound)).toEqual({ stage: 'autoreply', outboundMessageId: 'out-1' });
+    expect(aiService.processMessage).not.toHaveBeenCalled();
+    expect(db.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ content: '¡Hola!', autoReplyId: 'rule-1', inReplyToId: 'in-1' }),
+    });
+    expect(addWhatsAppSendJob).toHaveBeenCalledWith(
+      expect.objectContaining({ message: '¡Hola!', messageId: 'out-1' }),
+      { jobId: 'reply-in-1' }
+    );
+  });
+
+  it('should ask the AI only when no rule matches', async () => {
+    expect(await inboundMessagePipeline.process(inbound)).toEqual({ stage: 'ai', outboundMessageId: 'out-1' });
+    expect(autoReplyService.findMatch.mock.invocationCallOrder[0])
+      .toBeLessThan(aiService.processMessage.mock.invocationCallOrder[0]!);
+    expect(addWhatsAppSendJob).toHaveBeenCalledWith(
+      expect.objectContaining({ message: aiReply.message }),
+      { jobId: 'reply-in-1' }
+    );
+  });
+
+  it('should fall through to the AI when the rule lookup fails', async () => {
+    autoReplyService.findMatch.mockRejectedValue(new Error('redis down'));
+
+    expect((await inboundMessagePipeline.process(inbound)).stage).toBe('ai');
+  });
+
+  it('should not answer when a human took the conversation over', async () => {
+    db.conversation.findUnique.mockResolvedValue({ isAiEnabled: true, aiTakenOver: true });
+
+    expect(await inboundMessagePipeline.process(inbound)).toEqual({ stage: 'skipped', reason: 'automation_disabled' });
+    expect(autoReplyService.findMatch).not.toHaveBeenCalled();
+    expect(aiService.processMessage).not.toHaveBeenCalled();
+  });
+
+  it('should resend the saved reply on a retry instead of answering again', async () => {
+    db.message.findUnique.mockResolvedValue({ id: 'out-1', content: aiReply.message, waStatus: 'PENDING', isAiGenerated: true });
+
+    expect(await inboundMessagePipeline.process(inbound)).toEqual({ stage: 'ai', outboundMessageId: 'out-1' });
+    expect(aiService.processMessage).not.toHaveBeenCalled();
+    expect(db.message.create).not.toHaveBeenCalled();
+    expect(addWhatsAppSendJob).toHaveBeenCalledWith(
+      expect.objectContaining({ messageId: 'out-1' }),
+      { jobId: 'reply-in-1' }
+    );
+  });
+});
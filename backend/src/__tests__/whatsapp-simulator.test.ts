@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WhatsAppCloudSimulator } from '../modules/whatsapp-simulator/whatsapp-simulator.js';
+import { signPayload } from '../modules/whatsapp-simulator/whatsapp-simulator.payloads.js';
+import { parseMessageContent } from '../modules/whatsapp/whatsapp.parser.js';
+import type { WhatsAppWebhookPayload } from '../shared/types/index.js';
+
+const APP_SECRET = 'test-secret';
+const TOKEN = 'test-token';
+const PHONE = '5215512345678';
+
+// Stands in for the app's /api/whatsapp/webhook
+const received: Array<{ payload: WhatsAppWebhookPayload; signature: string | undefined; raw: string }> = [];
+let webhookServer: Server;
+let simulator: WhatsAppCloudSimulator;
+let apiUrl: string;
+
+function graph(path: string, body?: unknown) {
+  return fetch(`${apiUrl}/${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Authorization': `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  });
+}
+
+function sendText(to: string, text: string) {
+  return graph(`${simulator.numbers[0]!.id}/messages`, {
+    messaging_product: 'whatsapp',
+    to,
+    type: 'text',
+    text: { body: text },
+  });
+}
+
+beforeAll(async () => {
+  webhookServer = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      received.push({ payload: JSON.parse(raw), signature: req.headers['x-hub-signature-256'] as string | undefined, raw });
+      res.end('EVENT_RECEIVED');
+    });
+  });
+  await new Promise<void>(resolve => webhookServer.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = webhookServer.address() as AddressInfo;
+
+  simulator = new WhatsAppCloudSimulator({
+    webhookUrl: `http://127.0.0.1:${port}/api/whatsapp/webhook`,
+    appSecret: APP_SECRET,
+    accessTokens: [TOKEN],
+  });
+  apiUrl = await simulator.start();
+});
+
+afterAll(async () => {
+  await simulator.stop();
+  await new Promise(resolve => webhookServer.close(resolve));
+});
+
+beforeEach(() => {
+  simulator.reset();
+  received.length = 0;
+});
+
+describe('WhatsAppCloudSimulator', () => {
+  it('should post signed inbound webhooks the parser understands', async () => {
+    const id = await simulator.sendFromPhone(PHONE, 'Hola, quiero una cita', { name: 'Ana' });
+
+    expect(received).toHaveLength(1);
+    const { payload, signature, raw } = received[0]!;
+    expect(signature).toBe(signPayload(raw, APP_SECRET));
+
+    const value = payload.entry[0]!.changes[0]!.value;
+    expect(value.metadata.phone_number_id).toBe(simulator.numbers[0]!.id);
+    expect(value.contacts?.[0]).toEqual({ profile: { name: 'Ana' }, wa_id: PHONE });
+    expect(value.messages?.[0]?.id).toBe(id);
+    expect(parseMessageContent(value.messages![0]!).content).toBe('Hola, quiero una cita');
+  });
+
+  it('should deliver replies to the phone inbox and report sent/delivered statuses', async () => {
+    await simulator.sendFromPhone(PHONE, 'Hola');
+    received.length = 0;
+
+    const response = await sendText(`+${PHONE}`, '¡Hola! ¿En qué te ayudo?');
+    const body = await response.json() as { messages: Array<{ id: string }> };
+    await simulator.flush();
+
+    expect(response.status).toBe(200);
+    expect(simulator.inbox(PHONE).map(m => m.body.text)).toEqual([{ body: '¡Hola! ¿En qué te ayudo?' }]);
+    expect(received.map(r => r.payload.entry[0]!.changes[0]!.value.statuses?.[0]))
+      .toMatchObject([
+        { id: body.messages[0]!.id, status: 'sent', recipient_id: PHONE },
+        { id: body.messages[0]!.id, status: 'delivered', recipient_id: PHONE },
+      ]);
+  });
+
+  it('should fail free-form messages outside the 24h window', async () => {
+    await sendText(PHONE, 'Recordatorio');
+    await simulator.flush();
+
+    const status = received[0]!.payload.entry[0]!.changes[0]!.value.statuses?.[0];
+    expect(status?.status).toBe('failed');
+    expect(status?.errors?.[0]?.code).toBe(131047);
+  });
+
+  it('should record read receipts and serve media', async () => {
+    const mediaId = simulator.addMedia(Buffer.from('fake-ogg'), 'audio/ogg');
+    const id = await simulator.sendFromPhone(PHONE, { type: 'audio', audio: { id: mediaId, mime_type: 'audio/ogg', voice: true } });
+
+    const read = await graph(`${simulator.numbers[0]!.id}/messages`, { messaging_product: 'whatsapp', status: 'read', message_id: id });
+    expect(read.status).toBe(200);
+    expect(simulator.sentMessage(id)?.readAt).toBeInstanceOf(Date);
+
+    const info = await (await graph(mediaId)).json() as { url: string; mime_type: string };
+    expect(info.mime_type).toBe('audio/ogg');
+
+    const file = await fetch(info.url, { headers: { 'Authorization': `Bearer ${TOKEN}` } });
+    expect(Buffer.from(await file.arrayBuffer()).toString()).toBe('fake-ogg');
+  });
+
+  it('should return injected failures once, then recover', async () => {
+    simulator.injectFailure('expired_token');
+    simulator.injectFailure('rate_limit');
+
+    const expired = await sendText(PHONE, 'Hola');
+    const limited = await sendText(PHONE, 'Hola');
+    const ok = await sendText(PHONE, 'Hola');
+
+    expect(expired.status).toBe(401);
+    expect((await expired.json() as { error: { code: number } }).error.code).toBe(190);
+    expect(limited.status).toBe(429);
+    expect(ok.status).toBe(200);
+    expect(simulator.inbox(PHONE)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { canTransition, parseStatusUpdate, statusesAdvancingTo } from '../modules/whatsapp/whatsapp.status.js';
+
+describe('canTransition', () => {
+  it('should only move statuses forward', () => {
+    expect(canTransition('SENT', 'DELIVERED')).toBe(true);
+    expect(canTransition('SENT', 'READ')).toBe(true);
+    expect(canTransition('READ', 'DELIVERED')).toBe(false);
+    expect(canTransition('DELIVERED', 'SENT')).toBe(false);
+    expect(canTransition('DELIVERED', 'DELIVERED')).toBe(false);
+  });
+
+  it('should keep failures final without undoing a delivery', () => {
+    expect(canTransition('SENT', 'FAILED')).toBe(true);
+    expect(canTransition('FAILED', 'DELIVERED')).toBe(false);
+    expect(canTransition('READ', 'FAILED')).toBe(false);
+    expect(statusesAdvancingTo('FAILED')).toEqual(['PENDING', 'SENT']);
+    expect(statusesAdvancingTo('READ')).toEqual(['PENDING', 'SENT', 'DELIVERED']);
+  });
+});
+
+describe('parseStatusUpdate', () => {
+  it('should keep the timestamp, pricing and conversation of a status', () => {
+    const parsed = parseStatusUpdate({
+      id: 'wamid.1',
+      status: 'delivered',
+      timestamp: '1700000000',
+      recipient_id: '5215512345678',
+      conversation: { id: 'conv-1', expiration_timestamp: '1700086400', origin: { type: 'service' } },
+      pricing: { billable: false, pricing_model: 'CBP', category: 'service' },
+    });
+
+    expect(parsed).toMatchObject({
+      status: 'DELIVERED',
+      occurredAt: new Date(1700000000 * 1000),
+      pricingCategory: 'service',
+      pricingModel: 'CBP',
+      billable: false,
+      waConversationId: 'conv-1',
+      conversationExpiresAt: new Date(1700086400 * 1000),
+      errorCode: null,
+    });
+  });
+
+  it('should keep the first error of a failure', () => {
+    const parsed = parseStatusUpdate({
+      id: 'wamid.1',
+      status: 'failed',
+      timestamp: '1700000000',
+      recipient_id: '5215512345678',
+      errors: [{ code: 131047, title: 'Re-engagement message', error_data: { details: 'More than 24 hours have passed' } }],
+    });
+
+    expect(parsed).toMatchObject({
+      status: 'FAILED',
+      errorCode: 131047,
+      errorTitle: 'Re-engagement message',
+      errorDetails: 'More than 24 hours have passed',
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkTemplateParameters,
+  countPlaceholders,
+  type TemplateComponentDefinition,
+} from '../modules/whatsapp-templates/whatsapp-templates.validation.js';
+
+const reminder: TemplateComponentDefinition[] = [
+  { type: 'HEADER', format: 'TEXT', text: 'Recordatorio' },
+  { type: 'BODY', text: 'Hola {{1}}, tu cita es el {{2}}. ¡Te esperamos, {{1}}!' },
+  { type: 'BUTTONS', buttons: [{ type: 'URL', text: 'Ver cita', url: 'https://example.com/citas/{{1}}' }] },
+];
+
+describe('countPlaceholders', () => {
+  it('should count each placeholder once', () => {
+    expect(countPlaceholders('Hola {{1}}, tu cita es el {{2}}. ¡Te esperamos, {{1}}!')).toBe(2);
+    expect(countPlaceholders(undefined)).toBe(0);
+  });
+});
+
+describe('checkTemplateParameters', () => {
+  it('should accept a send with every parameter', () => {
+    expect(checkTemplateParameters(reminder, [
+      { type: 'body', parameters: [{ type: 'text', text: 'Ana' }, { type: 'text', text: 'lunes 10:00' }] },
+      { type: 'button', sub_type: 'url', index: 0, parameters: [{ type: 'text', text: 'abc123' }] },
+    ])).toEqual([]);
+  });
+
+  it('should report missing and empty parameters', () => {
+    expect(checkTemplateParameters(reminder, [
+      { type: 'body', parameters: [{ type: 'text', text: ' ' }, { type: 'text', text: 'lunes' }] },
+    ])).toEqual([
+      'body: parameter 1 is empty',
+      'button 0: expected 1 parameter(s), got 0',
+    ]);
+  });
+});
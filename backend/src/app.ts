@@ -28,9 +28,15 @@ import { publicApiRoutes } from './modules/public-api/public-api.routes.js';
 import { docsRoutes } from './modules/docs/docs.routes.js';
 import { webhooksRoutes } from './modules/webhooks/webhooks.routes.js';
 import { teamRoutes } from './modules/team/team.routes.js';
+import { mediaRoutes } from './modules/media/media.routes.js';
+import { whatsappTemplatesRoutes } from './modules/whatsapp-templates/whatsapp-templates.routes.js';
+import { channelsRoutes } from './modules/channels/channels.routes.js';
+import { conversationsRoutes } from './modules/conversations/conversations.routes.js';
+import { slaRoutes } from './modules/sla/sla.routes.js';
+import { routingRoutes } from './modules/routing/routing.routes.js';
 
 // Import Socket.io handler
-import { setupSocketHandlers } from './modules/realtime/socket.handler.js';
+import { initSocketEmitter, setupSocketHandlers } from './modules/realtime/socket.handler.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -46,7 +52,13 @@ const io = new SocketIOServer(httpServer, {
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the exact bytes for webhook signature checks
+  verify: (req, _res, buf) => {
+    (req as express.Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging
@@ -103,6 +115,12 @@ app.use('/api/templates', rateLimiters.api, templatesRoutes);
 app.use('/api/api-keys', rateLimiters.api, apiKeysRoutes);
 app.use('/api/webhooks', rateLimiters.api, webhooksRoutes);
 app.use('/api/team', rateLimiters.api, teamRoutes);
+app.use('/api/media', rateLimiters.api, mediaRoutes);
+app.use('/api/whatsapp-templates', rateLimiters.api, whatsappTemplatesRoutes);
+app.use('/api/channels', rateLimiters.api, channelsRoutes);
+app.use('/api/conversations', rateLimiters.api, conversationsRoutes);
+app.use('/api/sla', rateLimiters.api, slaRoutes);
+app.use('/api/routing', rateLimiters.api, routingRoutes);
 app.use('/api/v1', rateLimiters.publicApi, publicApiRoutes);
 app.use('/api/docs', docsRoutes);
 
@@ -122,6 +140,7 @@ app.use(errorHandler);
 
 // Setup Socket.io handlers
 setupSocketHandlers(io);
+initSocketEmitter(io);
 
 // Graceful shutdown
 async function shutdown(signal: string) {
@@ -25,9 +25,40 @@ const envSchema = z.object({
   WHATSAPP_PHONE_NUMBER_ID: z.string().min(1),
   WHATSAPP_BUSINESS_ACCOUNT_ID: z.string().min(1),
   WHATSAPP_WEBHOOK_VERIFY_TOKEN: z.string().min(1),
+  WHATSAPP_APP_SECRET: z.string().min(1).optional(), // Meta app secret, signs webhook payloads (required in production)
+  WHATSAPP_API_URL: z.string().url().default('https://graph.facebook.com/v18.0'), // Point at the local simulator in dev/tests
 
   // Groq AI
-  GROQ_API_KEY: z.string().startsWith('gsk_'),
+  GROQ_API_KEY: z.string().startsWith('gsk_').optional(),
+
+  // LLM routing: comma-separated "provider:model" list, tried in order (providers: groq, http, and scripted outside production)
+  LLM_REPLY_ROUTE: z.string().default('groq:llama-3.3-70b-versatile'),
+  LLM_INTENT_ROUTE: z.string().default('groq:llama-3.3-70b-versatile'),
+  LLM_HTTP_URL: z.string().url().optional(), // OpenAI-compatible base URL, e.g. http://localhost:11434/v1
+  LLM_HTTP_API_KEY: z.string().optional(),
+  LLM_HTTP_MODEL: z.string().default('llama3.1'),
+
+  // Embeddings (RAG)
+  EMBEDDING_PROVIDER: z.enum(['local', 'http']).default('local'),
+  EMBEDDING_MODEL: z.string().default('Xenova/paraphrase-multilingual-MiniLM-L12-v2'),
+  EMBEDDING_DIMENSIONS: z.string().default('384').transform(Number),
+  EMBEDDING_API_URL: z.string().url().optional(), // OpenAI-compatible /embeddings endpoint
+  EMBEDDING_API_KEY: z.string().optional(),
+
+  // Media storage for WhatsApp attachments ("local" writes to MEDIA_LOCAL_DIR, for dev/tests)
+  MEDIA_STORAGE_DRIVER: z.enum(['supabase', 'local']).default('supabase'),
+  MEDIA_BUCKET: z.string().default('media'),
+  MEDIA_LOCAL_DIR: z.string().default('./storage/media'),
+
+  // Voice-note transcription ("local" runs whisper.cpp on the CPU and needs its binaries, "none" turns it off)
+  STT_PROVIDER: z.enum(['local', 'http', 'none']).default('none'),
+  STT_LANGUAGE: z.string().default('es'),
+  WHISPER_CPP_BIN: z.string().default('whisper-cli'),
+  WHISPER_CPP_MODEL: z.string().default('./models/ggml-base.bin'),
+  FFMPEG_BIN: z.string().default('ffmpeg'),
+  STT_API_URL: z.string().url().optional(), // OpenAI-compatible /audio/transcriptions endpoint
+  STT_API_KEY: z.string().optional(),
+  STT_MODEL: z.string().default('whisper-1'),
 
   // Google OAuth (for login, Calendar, Sheets)
   GOOGLE_CLIENT_ID: z.string().optional(),
@@ -1,6 +1,9 @@
 import { Queue, Job } from 'bullmq';
 
 import { createModuleLogger } from '../shared/utils/logger.js';
+import { aiSequencer, whatsappSequencer } from './sequencer.js';
+import type { ProcessedInboundMessage } from '../modules/whatsapp/whatsapp.webhook.js';
+import type { WindowFallback } from '../modules/whatsapp/whatsapp.window.js';
 
 const logger = createModuleLogger('queue');
 
@@ -10,6 +13,7 @@ export const QUEUE_NAMES = {
   RAG_INDEXING: 'rag-indexing',
   REMINDERS: 'reminders',
   WHATSAPP_SEND: 'whatsapp-send',
+  MEDIA_DOWNLOAD: 'media-download',
 } as const;
 
 // Connection config for BullMQ
@@ -23,13 +27,12 @@ export const aiQueue = new Queue(QUEUE_NAMES.AI_PROCESSING, { connection });
 export const ragQueue = new Queue(QUEUE_NAMES.RAG_INDEXING, { connection });
 export const reminderQueue = new Queue(QUEUE_NAMES.REMINDERS, { connection });
 export const whatsappQueue = new Queue(QUEUE_NAMES.WHATSAPP_SEND, { connection });
+export const mediaQueue = new Queue(QUEUE_NAMES.MEDIA_DOWNLOAD, { connection });
 
 // Job data types
-export interface AIProcessingJob {
-  tenantId: string;
-  conversationId: string;
-  messageId: string;
-  userMessage: string;
+export interface AIProcessingJob extends ProcessedInboundMessage {
+  seq: number; // Position in the conversation (see ConversationSequencer)
+  batched?: boolean; // Part of an inbound batch, answered only if it is the latest message
 }
 
 export interface RAGIndexingJob {
@@ -49,11 +52,22 @@ export interface WhatsAppSendJob {
   to: string;
   message: string;
   conversationId?: string;
+  messageId?: string; // Outbound Message row to update with the send result
+  seq?: number; // Position in the conversation, set when conversationId is given
+  fallback?: WindowFallback; // Template to send instead if the 24h window is closed
+  channelId?: string | null; // Number to send from (null: the tenant's own number, omitted: the default number)
+}
+
+export interface MediaDownloadJob {
+  tenantId: string;
+  messageId: string;
 }
 
 // Add jobs to queues
-export async function addAIProcessingJob(data: AIProcessingJob): Promise<Job> {
-  return aiQueue.add('process-message', data, {
+export async function addAIProcessingJob(data: Omit<AIProcessingJob, 'seq'>, delay = 0): Promise<Job> {
+  const seq = await aiSequencer.reserve(data.conversationId);
+  return aiQueue.add('process-message', { ...data, seq }, {
+    delay,
     attempts: 3,
     backoff: { type: 'exponential', delay: 1000 },
   });
@@ -74,20 +88,42 @@ export async function addReminderJob(data: ReminderJob, delay: number): Promise<
   });
 }
 
-export async function addWhatsAppSendJob(data: WhatsAppSendJob): Promise<Job> {
-  return whatsappQueue.add('send-message', data, {
+/**
+ * Queue a send. With a `jobId` it is queued once: adding it again returns the
+ * existing job without reserving another place in the conversation.
+ */
+export async function addWhatsAppSendJob(
+  data: Omit<WhatsAppSendJob, 'seq'>,
+  options: { jobId?: string } = {}
+): Promise<Job> {
+  if (options.jobId) {
+    const existing = await whatsappQueue.getJob(options.jobId);
+    if (existing) return existing;
+  }
+
+  const seq = data.conversationId ? await whatsappSequencer.reserve(data.conversationId) : undefined;
+  return whatsappQueue.add('send-message', { ...data, ...(seq ? { seq } : {}) }, {
     attempts: 3,
     backoff: { type: 'exponential', delay: 1000 },
+    ...(options.jobId ? { jobId: options.jobId } : {}),
+  });
+}
+
+export async function addMediaDownloadJob(data: MediaDownloadJob): Promise<Job> {
+  return mediaQueue.add('download-media', data, {
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 2000 },
   });
 }
 
 // Get queue stats
 export async function getQueueStats() {
-  const [aiStats, ragStats, reminderStats, whatsappStats] = await Promise.all([
+  const [aiStats, ragStats, reminderStats, whatsappStats, mediaStats] = await Promise.all([
     getQueueInfo(aiQueue),
     getQueueInfo(ragQueue),
     getQueueInfo(reminderQueue),
     getQueueInfo(whatsappQueue),
+    getQueueInfo(mediaQueue),
   ]);
 
   return {
@@ -95,6 +131,7 @@ export async function getQueueStats() {
     rag: ragStats,
     reminders: reminderStats,
     whatsapp: whatsappStats,
+    media: mediaStats,
   };
 }
 
@@ -116,6 +153,7 @@ export async function closeQueues(): Promise<void> {
     ragQueue.close(),
     reminderQueue.close(),
     whatsappQueue.close(),
+    mediaQueue.close(),
   ]);
   logger.info('All queues closed');
 }
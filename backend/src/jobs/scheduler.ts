@@ -1,5 +1,8 @@
 import { CronJob } from 'cron';
 import { calendarService } from '../modules/calendar/calendar.service.js';
+import { conversationLifecycleService } from '../modules/conversations/conversations.lifecycle.js';
+import { slaService } from '../modules/sla/sla.service.js';
+import { routingService } from '../modules/routing/routing.service.js';
 import { addReminderJob } from './queue.js';
 import { createModuleLogger } from '../shared/utils/logger.js';
 
@@ -28,6 +31,49 @@ async function scheduleReminders(): Promise<void> {
   }
 }
 
+/**
+ * Bring back expired snoozes and close conversations inactive for too long
+ */
+async function maintainConversations(): Promise<void> {
+  try {
+    const woken = await conversationLifecycleService.wakeSnoozed();
+    const closed = await conversationLifecycleService.closeInactive();
+    if (woken || closed) {
+      logger.info({ woken, closed }, 'Conversations maintained');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to maintain conversations');
+  }
+}
+
+/**
+ * Warn about SLA targets about to be missed and flag the missed ones
+ */
+async function checkSlaTimers(): Promise<void> {
+  try {
+    const { warnings, breaches } = await slaService.checkTimers();
+    if (warnings || breaches) {
+      logger.info({ warnings, breaches }, 'SLA timers checked');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to check SLA timers');
+  }
+}
+
+/**
+ * Assign queued conversations to agents who got room outside the routing hooks
+ */
+async function drainRoutingQueues(): Promise<void> {
+  try {
+    const assigned = await routingService.drainAll();
+    if (assigned) {
+      logger.info({ assigned }, 'Routing queues drained');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to drain routing queues');
+  }
+}
+
 export function startScheduler(): CronJob[] {
   const jobs: CronJob[] = [];
 
@@ -35,6 +81,18 @@ export function startScheduler(): CronJob[] {
   const reminderJob = new CronJob('*/15 * * * *', scheduleReminders, null, true);
   jobs.push(reminderJob);
 
+  // Snoozes and auto-close every 5 minutes
+  const conversationsJob = new CronJob('*/5 * * * *', maintainConversations, null, true);
+  jobs.push(conversationsJob);
+
+  // SLA warnings and breaches every minute
+  const slaJob = new CronJob('* * * * *', checkSlaTimers, null, true);
+  jobs.push(slaJob);
+
+  // Routing queues every minute
+  const routingJob = new CronJob('* * * * *', drainRoutingQueues, null, true);
+  jobs.push(routingJob);
+
   logger.info('Scheduler started');
 
   return jobs;
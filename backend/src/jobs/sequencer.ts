@@ -0,0 +1,101 @@
+import { DelayedError, UnrecoverableError, type Job } from 'bullmq';
+import { redis } from '../config/redis.js';
+import { createModuleLogger } from '../shared/utils/logger.js';
+
+const logger = createModuleLogger('sequencer');
+
+// Counters are dropped after a day without traffic on the conversation
+const KEY_TTL_SECONDS = 24 * 60 * 60;
+
+// How long a job waits before checking its turn again
+const RECHECK_DELAY_MS = 500;
+
+// Raise the "done" mark without ever moving it backwards
+const COMPLETE_SCRIPT = `
+local done = tonumber(redis.call('GET', KEYS[1]) or '0')
+if tonumber(ARGV[1]) > done then
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+end
+return 1
+`;
+
+/**
+ * Per-conversation ordering for queue jobs.
+ * Each job reserves a sequence number when it is enqueued and may only run once
+ * every earlier job of the same conversation has completed (or finally failed).
+ */
+export class ConversationSequencer {
+  constructor(
+    private name: string,
+    private maxWaitMs = 2 * 60 * 1000 // Stop waiting for a predecessor that never completes
+  ) {}
+
+  /**
+   * Reserve the next position in the conversation
+   */
+  async reserve(conversationId: string): Promise<number> {
+    const seq = await redis.incr(this.key(conversationId, 'seq'));
+    await redis.expire(this.key(conversationId, 'seq'), KEY_TTL_SECONDS);
+    await redis.expire(this.key(conversationId, 'done'), KEY_TTL_SECONDS);
+    return seq;
+  }
+
+  /**
+   * Whether every earlier job has finished
+   */
+  async isTurn(conversationId: string, seq: number, enqueuedAt: number): Promise<boolean> {
+    const done = parseInt((await redis.get(this.key(conversationId, 'done'))) ?? '0', 10);
+    if (seq <= done + 1) return true;
+
+    if (Date.now() - enqueuedAt > this.maxWaitMs) {
+      logger.warn({ sequencer: this.name, conversationId, seq, done }, 'Predecessor job timed out, running out of order');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Run a job's work in order: jobs whose turn has not come are delayed and checked again.
+   * Later jobs keep waiting while this one is retried, and are released after its last attempt
+   * (or right away when it fails with an UnrecoverableError).
+   */
+  async run<T>(
+    job: Job,
+    token: string | undefined,
+    conversationId: string,
+    seq: number,
+    work: () => Promise<T>
+  ): Promise<T> {
+    if (!(await this.isTurn(conversationId, seq, job.timestamp))) {
+      await job.moveToDelayed(Date.now() + RECHECK_DELAY_MS, token);
+      throw new DelayedError();
+    }
+
+    try {
+      const result = await work();
+      await this.complete(conversationId, seq);
+      return result;
+    } catch (error) {
+      // No retry follows an unrecoverable error either
+      if (error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.complete(conversationId, seq);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a job as finished so the next one can run
+   */
+  async complete(conversationId: string, seq: number): Promise<void> {
+    await redis.eval(COMPLETE_SCRIPT, 1, this.key(conversationId, 'done'), seq, KEY_TTL_SECONDS);
+  }
+
+  private key(conversationId: string, suffix: 'seq' | 'done'): string {
+    return `sequence:${this.name}:${conversationId}:${suffix}`;
+  }
+}
+
+export const aiSequencer = new ConversationSequencer('ai');
+export const whatsappSequencer = new ConversationSequencer('whatsapp');
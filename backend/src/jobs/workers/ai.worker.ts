@@ -1,9 +1,10 @@
 import { Worker, Job } from 'bullmq';
-import { QUEUE_NAMES, type AIProcessingJob, addWhatsAppSendJob } from '../queue.js';
-import { aiService } from '../../modules/ai/ai.service.js';
-import { prisma } from '../../config/database.js';
+import { QUEUE_NAMES, type AIProcessingJob } from '../queue.js';
+import { aiSequencer } from '../sequencer.js';
+import { inboundMessagePipeline, type PipelineResult } from '../../modules/whatsapp/whatsapp.pipeline.js';
+import { inboundMessageBatcher } from '../../modules/whatsapp/whatsapp.batcher.js';
+import { transcriptionService } from '../../modules/transcription/transcription.service.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import { getSocketEmitter } from '../../modules/realtime/socket.handler.js';
 
 const logger = createModuleLogger('ai-worker');
 
@@ -15,61 +16,52 @@ const connection = {
 export function startAIWorker(): Worker {
   const worker = new Worker<AIProcessingJob>(
     QUEUE_NAMES.AI_PROCESSING,
-    async (job: Job<AIProcessingJob>) => {
-      const { tenantId, conversationId, userMessage } = job.data;
+    async (job: Job<AIProcessingJob>, token?: string) => {
+      const { seq, batched, ...message } = job.data;
 
-      logger.info({ jobId: job.id, tenantId, conversationId }, 'Processing AI job');
+      // Messages of the same conversation are answered one at a time, in arrival order
+      return aiSequencer.run(job, token, message.conversationId, seq, async (): Promise<PipelineResult> => {
+        // Voice notes are answered like text, through their transcript
+        if (message.type === 'audio' && !message.content) {
+          try {
+            message.content = await transcriptionService.transcribeMessage(message.tenantId, message.messageId);
+          } catch (error) {
+            // Retrying would fail the same way (e.g. whisper.cpp missing); agents still get the voice note
+            logger.error({ error, jobId: job.id, messageId: message.messageId }, 'Voice note transcription failed');
+          }
+        }
 
-      try {
-        // Get conversation with contact info
-        const conversation = await prisma.conversation.findUnique({
-          where: { id: conversationId },
-          include: {
-            contact: { select: { name: true, phone: true } },
-          },
-        });
+        if (batched) {
+          const batch = await inboundMessageBatcher.take(message.tenantId, message.conversationId, message.messageId);
+          if (!batch) {
+            // A later message of the same batch will answer for this one
+            return { stage: 'skipped', reason: 'batched' };
+          }
 
-        if (!conversation) {
-          throw new Error('Conversation not found');
+          // Keep the combined text on the job, so a retry does not need the (now taken) batch
+          message.content = batch.content;
+          await job.updateData({ ...job.data, batched: false, content: batch.content });
         }
 
-        // Use the AI service to process the message
-        const response = await aiService.processMessage(tenantId, conversationId, userMessage);
+        logger.info({
+          jobId: job.id,
+          tenantId: message.tenantId,
+          conversationId: message.conversationId,
+          seq,
+        }, 'Processing AI job');
 
-        // Save AI response as message
-        const aiMessage = await prisma.message.create({
-          data: {
-            tenantId,
-            conversationId,
-            direction: 'OUTBOUND',
-            content: response.message,
-            waStatus: 'PENDING',
-            isAiGenerated: true,
-            aiIntent: String(response.intent),
-          },
-        });
+        try {
+          // Auto-reply rules first, AI only for unmatched messages
+          const result = await inboundMessagePipeline.process(message);
 
-        // Queue WhatsApp send
-        await addWhatsAppSendJob({
-          tenantId,
-          to: conversation.contact.phone,
-          message: response.message,
-          conversationId,
-        });
+          logger.info({ jobId: job.id, stage: result.stage }, 'Inbound message processed');
 
-        // Emit real-time update
-        const emitter = getSocketEmitter();
-        if (emitter) {
-          emitter.emitNewMessage(tenantId, conversationId, aiMessage);
+          return result;
+        } catch (error) {
+          logger.error({ error, jobId: job.id }, 'AI processing failed');
+          throw error;
         }
-
-        logger.info({ jobId: job.id, messageId: aiMessage.id }, 'AI response generated');
-
-        return { messageId: aiMessage.id, intent: response.intent };
-      } catch (error) {
-        logger.error({ error, jobId: job.id }, 'AI processing failed');
-        throw error;
-      }
+      });
     },
     {
       connection,
@@ -2,6 +2,7 @@ import { startAIWorker } from './ai.worker.js';
 import { startRAGWorker } from './rag.worker.js';
 import { startReminderWorker } from './reminder.worker.js';
 import { startWhatsAppWorker } from './whatsapp.worker.js';
+import { startMediaWorker } from './media.worker.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
 
 const logger = createModuleLogger('workers');
@@ -14,6 +15,7 @@ export function startAllWorkers() {
     rag: startRAGWorker(),
     reminder: startReminderWorker(),
     whatsapp: startWhatsAppWorker(),
+    media: startMediaWorker(),
   };
 
   logger.info('All workers started');
@@ -21,4 +23,4 @@ export function startAllWorkers() {
   return workers;
 }
 
-export { startAIWorker, startRAGWorker, startReminderWorker, startWhatsAppWorker };
+export { startAIWorker, startRAGWorker, startReminderWorker, startWhatsAppWorker, startMediaWorker };
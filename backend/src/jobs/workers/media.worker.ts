@@ -0,0 +1,43 @@
+import { Worker, Job } from 'bullmq';
+import { QUEUE_NAMES, type MediaDownloadJob } from '../queue.js';
+import { mediaService } from '../../modules/media/media.service.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+
+const logger = createModuleLogger('media-worker');
+
+const connection = {
+  host: new URL(process.env.REDIS_URL ?? 'redis://localhost:6379').hostname,
+  port: parseInt(new URL(process.env.REDIS_URL ?? 'redis://localhost:6379').port || '6379'),
+};
+
+export function startMediaWorker(): Worker {
+  const worker = new Worker<MediaDownloadJob>(
+    QUEUE_NAMES.MEDIA_DOWNLOAD,
+    async (job: Job<MediaDownloadJob>) => {
+      const { tenantId, messageId } = job.data;
+
+      logger.info({ jobId: job.id, tenantId, messageId }, 'Processing media download job');
+
+      try {
+        return await mediaService.storeInboundMedia(tenantId, messageId);
+      } catch (error) {
+        logger.error({ error, jobId: job.id, messageId }, 'Media download failed');
+        throw error;
+      }
+    },
+    {
+      connection,
+      concurrency: 3,
+    }
+  );
+
+  worker.on('completed', (_job) => {
+    logger.debug({ jobId: _job.id }, 'Media job completed');
+  });
+
+  worker.on('failed', (_job, _error) => {
+    logger.error({ jobId: _job?.id, error: _error.message }, 'Media job failed');
+  });
+
+  return worker;
+}
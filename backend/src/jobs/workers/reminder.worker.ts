@@ -26,7 +26,18 @@ export function startReminderWorker(): Worker {
         const appointment = await prisma.appointment.findUnique({
           where: { id: appointmentId },
           include: {
-            contact: { select: { phone: true, name: true } },
+            contact: {
+              select: {
+                phone: true,
+                name: true,
+                // Remind from the number the customer last talked to
+                conversations: {
+                  orderBy: { lastMessageAt: 'desc' },
+                  take: 1,
+                  select: { channelId: true },
+                },
+              },
+            },
             service: { select: { name: true } },
             tenant: { select: { businessName: true } },
           },
@@ -58,10 +69,24 @@ ${appointment.service ? `💼 Servicio: ${appointment.service.name}` : ''}
 ¿Confirmas tu asistencia? Responde "Sí" para confirmar o "No" para cancelar.`;
 
         // Queue WhatsApp message
+        // Outside the 24h window this goes out as the tenant's reminder template
         await addWhatsAppSendJob({
           tenantId: appointment.tenantId,
           to: appointment.contact.phone,
           message,
+          // Without any conversation the reminder goes out from the default number
+          ...(appointment.contact.conversations[0]
+            ? { channelId: appointment.contact.conversations[0].channelId }
+            : {}),
+          fallback: {
+            purpose: 'appointment_reminder',
+            variables: {
+              name: appointment.contact.name ?? '',
+              date: dateStr,
+              service: appointment.service?.name ?? '',
+              business: appointment.tenant.businessName ?? '',
+            },
+          },
         });
 
         // Mark reminder as sent
@@ -1,9 +1,11 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { QUEUE_NAMES, type WhatsAppSendJob } from '../queue.js';
+import { whatsappSequencer } from '../sequencer.js';
 import { whatsappService } from '../../modules/whatsapp/whatsapp.service.js';
 import { prisma } from '../../config/database.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import { getSocketEmitter } from '../../modules/realtime/socket.handler.js';
+import { ServiceWindowClosedError } from '../../shared/middleware/error.handler.js';
+import { emitMessageStatus } from '../../modules/realtime/socket.handler.js';
 
 const logger = createModuleLogger('whatsapp-worker');
 
@@ -15,66 +17,15 @@ const connection = {
 export function startWhatsAppWorker(): Worker {
   const worker = new Worker<WhatsAppSendJob>(
     QUEUE_NAMES.WHATSAPP_SEND,
-    async (job: Job<WhatsAppSendJob>) => {
-      const { tenantId, to, message, conversationId } = job.data;
-
-      logger.info({ jobId: job.id, tenantId, to }, 'Processing WhatsApp send job');
-
-      try {
-        // Send message via WhatsApp API
-        const result = await whatsappService.sendTextMessage(tenantId, { to, message });
-
-        // Update message status if we have a conversation
-        if (conversationId) {
-          // Find the pending message
-          const pendingMessage = await prisma.message.findFirst({
-            where: {
-              conversationId,
-              direction: 'OUTBOUND',
-              waStatus: 'PENDING',
-              content: message,
-            },
-            orderBy: { createdAt: 'desc' },
-          });
-
-          if (pendingMessage) {
-            await prisma.message.update({
-              where: { id: pendingMessage.id },
-              data: {
-                waStatus: 'SENT',
-                waMessageId: result.messageId,
-              },
-            });
-
-            // Emit status update
-            const emitter = getSocketEmitter();
-            if (emitter) {
-              emitter.emitMessageStatus(tenantId, conversationId, pendingMessage.id, 'SENT');
-            }
-          }
-        }
-
-        logger.info({ jobId: job.id, messageId: result.messageId }, 'WhatsApp message sent');
-
-        return { messageId: result.messageId };
-      } catch (error) {
-        logger.error({ error, jobId: job.id }, 'WhatsApp send failed');
-
-        // Update message status to failed
-        if (conversationId) {
-          await prisma.message.updateMany({
-            where: {
-              conversationId,
-              direction: 'OUTBOUND',
-              waStatus: 'PENDING',
-              content: message,
-            },
-            data: { waStatus: 'FAILED' },
-          });
-        }
-
-        throw error;
+    async (job: Job<WhatsAppSendJob>, token?: string) => {
+      const { conversationId, seq } = job.data;
+
+      // Replies in the same conversation go out in the order they were queued
+      if (conversationId && seq) {
+        return whatsappSequencer.run(job, token, conversationId, seq, () => sendMessage(job));
       }
+
+      return sendMessage(job);
     },
     {
       connection,
@@ -96,3 +47,85 @@ export function startWhatsAppWorker(): Worker {
 
   return worker;
 }
+
+/**
+ * Send the text and record the result on the outbound message
+ */
+async function sendMessage(job: Job<WhatsAppSendJob>) {
+  const { tenantId, to, message, conversationId, messageId, fallback, channelId } = job.data;
+
+  logger.info({ jobId: job.id, tenantId, to }, 'Processing WhatsApp send job');
+
+  try {
+    // Send message via WhatsApp API
+    const result = await whatsappService.sendTextMessage(
+      tenantId,
+      { to, message, ...(channelId !== undefined ? { channelId } : {}) },
+      fallback ? { fallback } : {}
+    );
+
+    // Update message status if we have a conversation
+    if (conversationId) {
+      // Find the pending message
+      const pendingMessage = await prisma.message.findFirst({
+        where: messageId
+          ? { id: messageId }
+          : {
+            conversationId,
+            direction: 'OUTBOUND',
+            waStatus: 'PENDING',
+            content: message,
+          },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (pendingMessage) {
+        const sentAt = new Date();
+        await prisma.message.update({
+          where: { id: pendingMessage.id },
+          data: {
+            waStatus: 'SENT',
+            waMessageId: result.messageId,
+            // Sent as the fallback template because the service window was closed
+            ...(result.templateName ? { type: 'TEMPLATE' as const } : {}),
+          },
+        });
+
+        // The status history starts when the Cloud API accepts the message
+        await prisma.messageStatusEvent.create({
+          data: { tenantId, messageId: pendingMessage.id, status: 'SENT', occurredAt: sentAt, applied: true },
+        });
+
+        emitMessageStatus(conversationId, pendingMessage.id, 'SENT', { at: sentAt.toISOString(), error: null });
+      }
+    }
+
+    logger.info({ jobId: job.id, messageId: result.messageId }, 'WhatsApp message sent');
+
+    return { messageId: result.messageId };
+  } catch (error) {
+    logger.error({ error, jobId: job.id }, 'WhatsApp send failed');
+
+    // Update message status to failed
+    if (conversationId) {
+      await prisma.message.updateMany({
+        where: messageId
+          ? { id: messageId }
+          : {
+            conversationId,
+            direction: 'OUTBOUND',
+            waStatus: 'PENDING',
+            content: message,
+          },
+        data: { waStatus: 'FAILED' },
+      });
+    }
+
+    // Retrying will not reopen the window
+    if (error instanceof ServiceWindowClosedError) {
+      throw new UnrecoverableError(error.message);
+    }
+
+    throw error;
+  }
+}
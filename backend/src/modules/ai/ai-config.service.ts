@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError } from '../../shared/middleware/error.handler.js';
+import { renderTemplate } from '../../shared/utils/template.js';
+
+const logger = createModuleLogger('ai-config');
+
+export const DEFAULT_PERSONALITY = `Eres un asistente virtual amable y profesional para {{businessName}}.
+{{businessDescription}}
+
+REGLAS IMPORTANTES:
+1. Responde SIEMPRE en español
+2. Sé conciso pero amable (máximo 2-3 oraciones)
+3. Si no sabes algo, ofrece conectar con un humano
+4. Nunca inventes información sobre precios o disponibilidad
+5. Usa emojis con moderación (máximo 1-2 por mensaje)
+6. Mantén un tono {{tone}} en todas las respuestas
+
+Saludo: "{{greeting}}"
+Si no entiendes el mensaje: "{{fallbackMessage}}"`;
+
+const DEFAULT_GREETING = '¡Hola! Bienvenido a nuestro negocio. ¿En qué puedo ayudarte hoy?';
+const DEFAULT_FALLBACK = 'Lo siento, no pude procesar tu mensaje. ¿Podrías repetirlo?';
+
+export const aiConfigSchema = z.object({
+  personality: z.string().min(1).max(10000),
+  tone: z.enum(['formal', 'friendly', 'professional']),
+  greeting: z.string().min(1).max(1000),
+  fallbackMessage: z.string().min(1).max(1000),
+  businessName: z.string().max(200).optional(),
+  businessDescription: z.string().max(2000).optional(),
+});
+
+export type AIConfigInput = z.infer<typeof aiConfigSchema>;
+
+export interface AIConfig {
+  version: number; // 0 = built-in defaults, never saved
+  personality: string;
+  tone: string;
+  greeting: string;
+  fallbackMessage: string;
+  businessName: string;
+  businessDescription: string;
+  systemPrompt: string; // personality with the variables filled in
+  updatedAt: Date | null;
+}
+
+export class AIConfigService {
+  /**
+   * Get the active (latest) AI configuration, or the defaults if none was saved
+   */
+  async getConfig(tenantId: string, version?: number | null): Promise<AIConfig> {
+    const [tenant, pinned, latest] = await Promise.all([
+      prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { name: true, businessName: true, businessDescription: true },
+      }),
+      version
+        ? prisma.aIConfig.findUnique({ where: { tenantId_version: { tenantId, version } } })
+        : null,
+      prisma.aIConfig.findFirst({
+        where: { tenantId },
+        orderBy: { version: 'desc' },
+      }),
+    ]);
+
+    if (!tenant) throw new NotFoundError('Tenant');
+
+    return this.toConfig(
+      pinned ?? latest ?? {
+        version: 0,
+        personality: DEFAULT_PERSONALITY,
+        tone: 'friendly',
+        greeting: DEFAULT_GREETING,
+        fallbackMessage: DEFAULT_FALLBACK,
+        createdAt: null,
+      },
+      tenant.businessName ?? tenant.name,
+      tenant.businessDescription ?? ''
+    );
+  }
+
+  /**
+   * Save the configuration as a new version (previous versions are kept)
+   */
+  async saveConfig(tenantId: string, input: AIConfigInput, userId?: string): Promise<AIConfig> {
+    await prisma.$transaction(async (tx) => {
+      const latest = await tx.aIConfig.findFirst({
+        where: { tenantId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      await tx.aIConfig.create({
+        data: {
+          tenantId,
+          version: (latest?.version ?? 0) + 1,
+          personality: input.personality,
+          tone: input.tone,
+          greeting: input.greeting,
+          fallbackMessage: input.fallbackMessage,
+          createdById: userId ?? null,
+        },
+      });
+
+      // Business info lives on the tenant, where the rest of the app reads it
+      if (input.businessName !== undefined || input.businessDescription !== undefined) {
+        await tx.tenant.update({
+          where: { id: tenantId },
+          data: {
+            ...(input.businessName !== undefined ? { businessName: input.businessName } : {}),
+            ...(input.businessDescription !== undefined ? { businessDescription: input.businessDescription } : {}),
+          },
+        });
+      }
+    });
+
+    logger.info({ tenantId, userId }, 'AI config saved');
+
+    return this.getConfig(tenantId);
+  }
+
+  /**
+   * List saved versions, newest first
+   */
+  async listVersions(tenantId: string) {
+    return prisma.aIConfig.findMany({
+      where: { tenantId },
+      orderBy: { version: 'desc' },
+      select: {
+        version: true,
+        tone: true,
+        createdById: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Make an older version active again by saving a copy of it as the newest version
+   */
+  async restoreVersion(tenantId: string, version: number, userId?: string): Promise<AIConfig> {
+    const previous = await prisma.aIConfig.findUnique({
+      where: { tenantId_version: { tenantId, version } },
+    });
+
+    if (!previous) throw new NotFoundError('AI config version');
+
+    return this.saveConfig(tenantId, {
+      personality: previous.personality,
+      tone: previous.tone as AIConfigInput['tone'],
+      greeting: previous.greeting,
+      fallbackMessage: previous.fallbackMessage,
+    }, userId);
+  }
+
+  /**
+   * Fill the personality template with the config and business variables
+   */
+  renderSystemPrompt(
+    config: Pick<AIConfig, 'personality' | 'tone' | 'greeting' | 'fallbackMessage' | 'businessName' | 'businessDescription'>
+  ): string {
+    return renderTemplate(config.personality, {
+      businessName: config.businessName,
+      businessDescription: config.businessDescription,
+      tone: config.tone,
+      greeting: config.greeting,
+      fallbackMessage: config.fallbackMessage,
+    }).trim();
+  }
+
+  private toConfig(
+    row: {
+      version: number;
+      personality: string;
+      tone: string;
+      greeting: string;
+      fallbackMessage: string;
+      createdAt: Date | null;
+    },
+    businessName: string,
+    businessDescription: string
+  ): AIConfig {
+    const config = {
+      version: row.version,
+      personality: row.personality,
+      tone: row.tone,
+      greeting: row.greeting,
+      fallbackMessage: row.fallbackMessage,
+      businessName,
+      businessDescription,
+      updatedAt: row.createdAt,
+    };
+
+    return { ...config, systemPrompt: this.renderSystemPrompt(config) };
+  }
+}
+
+export const aiConfigService = new AIConfigService();
@@ -0,0 +1,20 @@
+const TERMINATOR = '(?=$|[\\s,.;:!¡?¿])';
+
+// Explicit "yes" opening the message, e.g. "sí", "Sí, confirmar", "ok", "dale"
+const CONFIRMATION_PATTERN = new RegExp(
+  `^\\s*[¡!]?\\s*(s[ií]+|ok(ay)?|vale|confirm(o|ado|a|ar)|de acuerdo|correcto|perfecto|claro|dale|adelante|hazlo)${TERMINATOR}`,
+  'iu'
+);
+
+// A "no" anywhere takes it back, e.g. "claro que no", "ok no", "sí, mejor cancela"
+const NEGATION_PATTERN = new RegExp(
+  `(^|[\\s,.;:!¡?¿])(no|nah|nel|nop|cancel(a|ar|o)|espera)${TERMINATOR}`,
+  'iu'
+);
+
+/**
+ * Whether the customer's message explicitly confirms a proposed action
+ */
+export function isConfirmation(message: string): boolean {
+  return CONFIRMATION_PATTERN.test(message) && !NEGATION_PATTERN.test(message);
+}
@@ -1,6 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { aiService } from './ai.service.js';
+import { aiConfigService, aiConfigSchema } from './ai-config.service.js';
+import { inboundMessagePipeline } from '../whatsapp/whatsapp.pipeline.js';
 import type { ApiResponse } from '../../shared/types/index.js';
 
 const processMessageSchema = z.object({
@@ -12,6 +14,11 @@ const quickResponseSchema = z.object({
   prompt: z.string().min(1),
 });
 
+const previewSchema = z.object({
+  message: z.string().min(1).max(4096),
+  systemPrompt: z.string().min(1).max(10000).optional(),
+});
+
 export class AIController {
   /**
    * POST /api/ai/process
@@ -66,7 +73,7 @@ export class AIController {
       }
 
       const input = quickResponseSchema.parse(req.body);
-      const response = await aiService.generateQuickResponse(input.prompt);
+      const response = await aiService.generateQuickResponse(input.prompt, req.context.tenantId);
 
       res.json({
         success: true,
@@ -122,6 +129,158 @@ export class AIController {
       next(error);
     }
   }
+
+  /**
+   * GET /api/ai/config
+   * Get the active AI personality
+   */
+  async getConfig(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const config = await aiConfigService.getConfig(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/ai/config
+   * Save the AI personality as a new version
+   */
+  async saveConfig(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = aiConfigSchema.parse(req.body);
+      const config = await aiConfigService.saveConfig(req.context.tenantId, input, req.context.userId);
+
+      res.json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/ai/config/versions
+   * List saved AI personality versions
+   */
+  async listConfigVersions(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const versions = await aiConfigService.listVersions(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: versions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/ai/config/versions/:version/restore
+   * Make an older AI personality version active again
+   */
+  async restoreConfigVersion(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const version = z.coerce.number().int().min(1).parse(req.params.version);
+      const config = await aiConfigService.restoreVersion(req.context.tenantId, version, req.context.userId);
+
+      res.json({
+        success: true,
+        data: config,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/ai/preview
+   * Run a message through auto-replies and the AI without sending anything
+   */
+  async preview(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = previewSchema.parse(req.body);
+      const result = await inboundMessagePipeline.preview(
+        req.context.tenantId,
+        input.message,
+        input.systemPrompt ? { systemPrompt: input.systemPrompt } : {}
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const aiController = new AIController();
@@ -11,6 +11,13 @@ aiRoutes.use(authMiddleware);
 aiRoutes.post('/process', (req, res, next) => aiController.processMessage(req, res, next));
 aiRoutes.post('/quick', (req, res, next) => aiController.quickResponse(req, res, next));
 aiRoutes.post('/detect-intent', (req, res, next) => aiController.detectIntent(req, res, next));
+aiRoutes.post('/preview', (req, res, next) => aiController.preview(req, res, next));
+
+// Personality config (versioned)
+aiRoutes.get('/config', (req, res, next) => aiController.getConfig(req, res, next));
+aiRoutes.post('/config', (req, res, next) => aiController.saveConfig(req, res, next));
+aiRoutes.get('/config/versions', (req, res, next) => aiController.listConfigVersions(req, res, next));
+aiRoutes.post('/config/versions/:version/restore', (req, res, next) => aiController.restoreConfigVersion(req, res, next));
 
 // Health check
 aiRoutes.get('/health', (_req, res) => {
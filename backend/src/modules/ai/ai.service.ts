@@ -1,25 +1,43 @@
-import Groq from 'groq-sdk';
+import { format } from 'date-fns';
 import { prisma } from '../../config/database.js';
-import { env } from '../../config/env.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import { groqCircuitBreaker } from '../gatekeeper/circuit-breaker.js';
 import { AppError } from '../../shared/middleware/error.handler.js';
+import { ragService, type RAGContext } from '../rag/rag.service.js';
+import { appointmentTools, type PendingAction } from './ai.tools.js';
+import { aiConfigService } from './ai-config.service.js';
+import { llmRouter } from './llm.router.js';
+import type { LLMMessage } from './llm.provider.js';
 import type { AIIntent, ConversationContext } from '../../shared/types/index.js';
 
 const logger = createModuleLogger('ai');
 
-const groq = new Groq({
-  apiKey: env.GROQ_API_KEY,
-});
-
-const MODEL = 'llama-3.3-70b-versatile';
 const MAX_CONTEXT_MESSAGES = 10;
 
+// Intents that get more document chunks; greetings skip retrieval entirely
+const KNOWLEDGE_INTENTS: AIIntent['type'][] = ['query_info', 'query_price'];
+const KNOWLEDGE_CHUNKS = 5;
+const DEFAULT_CHUNKS = 3;
+
+// Intents that get the appointment tools; a pending confirmation also enables them
+const APPOINTMENT_INTENTS: AIIntent['type'][] = ['schedule', 'reschedule', 'cancel', 'query_availability'];
+const MAX_TOOL_ROUNDS = 4;
+
 export interface AIResponse {
   message: string;
   intent: AIIntent;
   shouldHandoff: boolean;
   suggestedActions?: string[];
+  citedChunkIds: string[];
+  toolCalls: string[];
+}
+
+interface ResponseOptions {
+  systemPrompt: string; // Tenant personality, already rendered
+  fallbackMessage: string;
+  pendingAction: PendingAction | null;
+  allowTools: boolean; // Off for previews, which must not touch real appointments
+  replyId: string | null; // Id of the button/list row the customer tapped
+  receivedAt: Date; // When the message being answered arrived
 }
 
 export class AIService {
@@ -29,43 +47,94 @@ export class AIService {
   async processMessage(
     tenantId: string,
     conversationId: string,
-    userMessage: string
+    userMessage: string,
+    replyId: string | null = null,
+    receivedAt: Date = new Date()
   ): Promise<AIResponse> {
-    // Check circuit breaker
-    const canExecute = await groqCircuitBreaker.canExecute('groq');
-    if (!canExecute) {
-      logger.warn({ tenantId }, 'Groq circuit breaker is open');
-      throw new AppError(503, 'SERVICE_UNAVAILABLE', 'AI service temporarily unavailable');
-    }
-
     try {
-      // Get conversation context
+      // Get conversation context and the AI personality (the channel may pin a version)
       const context = await this.buildConversationContext(tenantId, conversationId);
-
-      // Detect intent first
-      const intent = await this.detectIntent(userMessage, context);
-
-      // Generate response based on intent and context
-      const response = await this.generateResponse(userMessage, intent, context);
-
-      // Record success
-      await groqCircuitBreaker.recordSuccess('groq');
+      const config = await aiConfigService.getConfig(tenantId, context.aiConfigVersion);
+
+      // A write proposed earlier may be waiting for this message to confirm it
+      const pendingAction = await appointmentTools.getPendingAction(conversationId, receivedAt);
+
+      const response = await this.respond(userMessage, context, {
+        systemPrompt: config.systemPrompt,
+        fallbackMessage: config.fallbackMessage,
+        pendingAction,
+        allowTools: true,
+        replyId,
+        receivedAt,
+      });
 
       // Track usage
       await this.trackUsage(tenantId);
 
       return response;
     } catch (error) {
-      await groqCircuitBreaker.recordFailure('groq');
       logger.error({ error, tenantId, conversationId }, 'AI processing error');
       throw error;
     }
   }
 
+  /**
+   * Generate a reply as the tenant's AI would, without a conversation or side effects.
+   * `systemPrompt` overrides the saved personality so unsaved changes can be tried out.
+   */
+  async previewMessage(
+    tenantId: string,
+    userMessage: string,
+    options: { systemPrompt?: string } = {}
+  ): Promise<AIResponse> {
+    try {
+      const [context, config] = await Promise.all([
+        this.buildPreviewContext(tenantId),
+        aiConfigService.getConfig(tenantId),
+      ]);
+
+      const systemPrompt = options.systemPrompt
+        ? aiConfigService.renderSystemPrompt({ ...config, personality: options.systemPrompt })
+        : config.systemPrompt;
+
+      const response = await this.respond(userMessage, context, {
+        systemPrompt,
+        fallbackMessage: config.fallbackMessage,
+        pendingAction: null,
+        allowTools: false,
+        replyId: null,
+        receivedAt: new Date(),
+      });
+
+      return response;
+    } catch (error) {
+      logger.error({ error, tenantId }, 'AI preview error');
+      throw error;
+    }
+  }
+
+  /**
+   * Intent detection, document retrieval and response generation
+   */
+  private async respond(
+    userMessage: string,
+    context: ConversationContext,
+    options: ResponseOptions
+  ): Promise<AIResponse> {
+    // Detect intent first
+    const intent = await this.detectIntent(userMessage, context);
+
+    // Retrieve relevant document chunks to ground the reply
+    const knowledge = await this.retrieveKnowledge(context.tenantId, userMessage, intent);
+
+    // Generate response based on intent and context
+    return this.generateResponse(userMessage, intent, context, knowledge, options);
+  }
+
   /**
    * Detect user intent from message
    */
-  async detectIntent(message: string, _context: ConversationContext): Promise<AIIntent> {
+  async detectIntent(message: string, context: ConversationContext): Promise<AIIntent> {
     const systemPrompt = `Eres un analizador de intenciones. Analiza el mensaje del usuario y determina su intención.
 
 Intenciones posibles:
@@ -91,18 +160,16 @@ Responde SOLO con un JSON válido con este formato:
 }`;
 
     try {
-      const completion = await groq.chat.completions.create({
-        model: MODEL,
+      const { content } = await llmRouter.complete(context.tenantId || null, 'intent', {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: message },
         ],
         temperature: 0.1,
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
+        maxTokens: 200,
+        jsonMode: true,
       });
 
-      const content = completion.choices[0]?.message?.content;
       if (!content) {
         return this.defaultIntent();
       }
@@ -125,11 +192,20 @@ Responde SOLO con un JSON válido con este formato:
   private async generateResponse(
     userMessage: string,
     intent: AIIntent,
-    context: ConversationContext
+    context: ConversationContext,
+    knowledge: RAGContext,
+    options: ResponseOptions
   ): Promise<AIResponse> {
-    const systemPrompt = this.buildSystemPrompt(context, intent);
+    const { pendingAction } = options;
+    const useTools = options.allowTools
+      && (APPOINTMENT_INTENTS.includes(intent.type) || pendingAction !== null);
+    const systemPrompt = this.buildSystemPrompt(options.systemPrompt, context, intent, knowledge, {
+      useTools,
+      pendingAction,
+      replyId: options.replyId,
+    });
 
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
     ];
 
@@ -144,18 +220,42 @@ Responde SOLO con un JSON válido con este formato:
     // Add current message
     messages.push({ role: 'user', content: userMessage });
 
-    const completion = await groq.chat.completions.create({
-      model: MODEL,
-      messages,
-      temperature: 0.7,
-      max_tokens: 500,
-    });
+    // Let the model call appointment tools until it answers with text
+    const toolCalls: string[] = [];
+    let responseMessage = '';
 
-    const responseMessage = completion.choices[0]?.message?.content || 
-      'Lo siento, no pude procesar tu mensaje. ¿Podrías repetirlo?';
+    for (let round = 0; ; round++) {
+      const reply = await llmRouter.complete(context.tenantId, 'reply', {
+        messages,
+        temperature: 0.7,
+        maxTokens: 500,
+        ...(useTools && round < MAX_TOOL_ROUNDS ? { tools: appointmentTools.definitions } : {}),
+      });
+
+      if (reply.toolCalls.length === 0) {
+        responseMessage = reply.content ?? '';
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: reply.content, tool_calls: reply.toolCalls });
+
+      for (const call of reply.toolCalls) {
+        const result = await appointmentTools.execute(call, {
+          tenantId: context.tenantId,
+          conversationId: context.conversationId,
+          contactId: context.contactId,
+          userMessage,
+          receivedAt: options.receivedAt,
+        });
+        messages.push({ role: 'tool', tool_call_id: call.id, content: result });
+        toolCalls.push(call.function.name);
+      }
+    }
+
+    responseMessage ||= options.fallbackMessage;
 
-    // Determine if we should handoff to human
-    const shouldHandoff = this.shouldHandoffToHuman(intent, responseMessage);
+    // Determine if we should handoff to human (not when the AI is handling an appointment)
+    const shouldHandoff = toolCalls.length === 0 && this.shouldHandoffToHuman(intent, responseMessage);
 
     // Suggest actions based on intent
     const suggestedActions = this.getSuggestedActions(intent);
@@ -165,27 +265,67 @@ Responde SOLO con un JSON válido con este formato:
       intent,
       shouldHandoff,
       suggestedActions,
+      citedChunkIds: knowledge.sources.map(s => s.chunkId),
+      toolCalls,
     };
   }
 
+  /**
+   * Retrieve document chunks relevant to the message, dropping weak matches
+   */
+  private async retrieveKnowledge(
+    tenantId: string,
+    userMessage: string,
+    intent: AIIntent
+  ): Promise<RAGContext> {
+    if (intent.type === 'greeting') {
+      return { context: '', sources: [] };
+    }
+
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { ragMinSimilarity: true },
+      });
+
+      const knowledge = await ragService.getContextForQuery(tenantId, userMessage, {
+        limit: KNOWLEDGE_INTENTS.includes(intent.type) ? KNOWLEDGE_CHUNKS : DEFAULT_CHUNKS,
+        minScore: tenant?.ragMinSimilarity ?? 0,
+      });
+
+      logger.debug({
+        tenantId,
+        intent: intent.type,
+        chunks: knowledge.sources.length,
+      }, 'Document context retrieved');
+
+      return knowledge;
+    } catch (error) {
+      // Answer without documents rather than failing the reply
+      logger.error({ error, tenantId }, 'Document retrieval failed');
+      return { context: '', sources: [] };
+    }
+  }
+
   /**
    * Build system prompt based on context
    */
-  private buildSystemPrompt(context: ConversationContext, intent: AIIntent): string {
+  private buildSystemPrompt(
+    personality: string,
+    context: ConversationContext,
+    intent: AIIntent,
+    knowledge: RAGContext,
+    state: { useTools: boolean; pendingAction: PendingAction | null; replyId: string | null }
+  ): string {
     const { businessContext, contactInfo } = context;
+    const { useTools, pendingAction, replyId } = state;
 
-    let prompt = `Eres un asistente virtual amable y profesional para "${businessContext.services.join(', ') || 'un negocio'}".
-
-REGLAS IMPORTANTES:
-1. Responde SIEMPRE en español
-2. Sé conciso pero amable (máximo 2-3 oraciones)
-3. Si no sabes algo, ofrece conectar con un humano
-4. Nunca inventes información sobre precios o disponibilidad
-5. Usa emojis con moderación (máximo 1-2 por mensaje)
+    let prompt = `${personality}
 
 INFORMACIÓN DEL NEGOCIO:
 - Horario: ${businessContext.workingHours}
 - Zona horaria: ${businessContext.timezone}
+- Fecha actual: ${format(new Date(), "yyyy-MM-dd HH:mm (EEEE)")}
 - Servicios: ${businessContext.services.join(', ') || 'No especificados'}
 
 INFORMACIÓN DEL CLIENTE:
@@ -193,6 +333,24 @@ INFORMACIÓN DEL CLIENTE:
 - Teléfono: ${contactInfo.phone}
 `;
 
+    if (knowledge.context) {
+      prompt += `\n${knowledge.context}\n\nUsa esta información de los documentos para responder. Si la respuesta no aparece en ella, no la inventes.\n`;
+    }
+
+    if (useTools) {
+      prompt += `\nCITAS: Usa las herramientas para consultar horarios y citas; nunca inventes disponibilidad.
+Agendar, cambiar o cancelar solo deja la acción pendiente: explícasela al cliente y pide que responda "sí".
+Llama a confirm_pending_action únicamente cuando el último mensaje del cliente confirme la acción.\n`;
+    }
+
+    if (pendingAction) {
+      prompt += `\nACCIÓN PENDIENTE DE CONFIRMACIÓN: ${pendingAction.summary}\n`;
+    }
+
+    if (replyId) {
+      prompt += `\nEl cliente respondió tocando una opción del menú (id: "${replyId}"); su mensaje es el texto de esa opción.\n`;
+    }
+
     // Add intent-specific instructions
     switch (intent.type) {
       case 'schedule':
@@ -202,7 +360,7 @@ INFORMACIÓN DEL CLIENTE:
         prompt += `\nEl cliente quiere CAMBIAR una cita. Confirma la cita actual y pregunta por la nueva fecha/hora deseada.`;
         break;
       case 'cancel':
-        prompt += `\nEl cliente quiere CANCELAR una cita. Confirma cuál cita desea cancelar y procesa la cancelación.`;
+        prompt += `\nEl cliente quiere CANCELAR una cita. Confirma cuál cita desea cancelar antes de cancelarla.`;
         break;
       case 'query_price':
         prompt += `\nEl cliente pregunta por PRECIOS. Si tienes la información, proporciónala. Si no, indica que un agente le dará los detalles.`;
@@ -236,12 +394,16 @@ INFORMACIÓN DEL CLIENTE:
               },
             },
           },
+          channel: {
+            select: { aiConfigVersion: true, workingHoursStart: true, workingHoursEnd: true },
+          },
           messages: {
             orderBy: { createdAt: 'desc' },
             take: MAX_CONTEXT_MESSAGES,
             select: {
               direction: true,
               content: true,
+              transcript: true,
             },
           },
         },
@@ -264,12 +426,17 @@ INFORMACIÓN DEL CLIENTE:
     // Build recent messages (reverse to chronological order)
     const recentMessages = conversation.messages
       .reverse()
-      .filter(m => m.content)
+      .filter(m => m.content || m.transcript)
       .map(m => ({
         role: m.direction === 'INBOUND' ? 'user' as const : 'assistant' as const,
-        content: m.content!,
+        content: (m.content || m.transcript)!,
       }));
 
+    // A channel can keep its own hours, otherwise the tenant's apply
+    const channel = conversation.channel;
+    const workingHoursStart = channel?.workingHoursStart ?? tenant.workingHoursStart;
+    const workingHoursEnd = channel?.workingHoursEnd ?? tenant.workingHoursEnd;
+
     return {
       tenantId,
       contactId: conversation.contactId,
@@ -280,6 +447,39 @@ INFORMACIÓN DEL CLIENTE:
         phone: conversation.contact.phone,
         tags: conversation.contact.tags.map(t => t.tag.name),
       },
+      businessContext: {
+        services: tenant.services.map(s => s.name),
+        workingHours: `${workingHoursStart} - ${workingHoursEnd}`,
+        timezone: tenant.timezone,
+      },
+      ...(channel?.aiConfigVersion ? { aiConfigVersion: channel.aiConfigVersion } : {}),
+    };
+  }
+
+  /**
+   * Context for previews: the tenant's business info and a placeholder customer
+   */
+  private async buildPreviewContext(tenantId: string): Promise<ConversationContext> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      include: {
+        services: {
+          where: { isActive: true },
+          select: { name: true },
+        },
+      },
+    });
+
+    if (!tenant) {
+      throw new AppError(404, 'NOT_FOUND', 'Tenant not found');
+    }
+
+    return {
+      tenantId,
+      contactId: '',
+      conversationId: '',
+      recentMessages: [],
+      contactInfo: { name: 'Cliente de prueba', phone: '', tags: [] },
       businessContext: {
         services: tenant.services.map(s => s.name),
         workingHours: `${tenant.workingHoursStart} - ${tenant.workingHoursEnd}`,
@@ -369,15 +569,9 @@ INFORMACIÓN DEL CLIENTE:
   /**
    * Generate a simple response without full context (for quick replies)
    */
-  async generateQuickResponse(prompt: string): Promise<string> {
-    const canExecute = await groqCircuitBreaker.canExecute('groq');
-    if (!canExecute) {
-      return 'Lo siento, el servicio no está disponible en este momento.';
-    }
-
+  async generateQuickResponse(prompt: string, tenantId: string | null = null): Promise<string> {
     try {
-      const completion = await groq.chat.completions.create({
-        model: MODEL,
+      const { content } = await llmRouter.complete(tenantId, 'reply', {
         messages: [
           {
             role: 'system',
@@ -386,13 +580,14 @@ INFORMACIÓN DEL CLIENTE:
           { role: 'user', content: prompt },
         ],
         temperature: 0.7,
-        max_tokens: 150,
+        maxTokens: 150,
       });
 
-      await groqCircuitBreaker.recordSuccess('groq');
-      return completion.choices[0]?.message?.content || 'No pude generar una respuesta.';
+      return content || 'No pude generar una respuesta.';
     } catch (error) {
-      await groqCircuitBreaker.recordFailure('groq');
+      if (error instanceof AppError && error.code === 'SERVICE_UNAVAILABLE') {
+        return 'Lo siento, el servicio no está disponible en este momento.';
+      }
       logger.error({ error }, 'Quick response generation failed');
       return 'Lo siento, hubo un error al procesar tu solicitud.';
     }
@@ -0,0 +1,508 @@
+import { z } from 'zod';
+import { format, parseISO, isValid } from 'date-fns';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import type { LLMTool, LLMToolCall } from './llm.provider.js';
+import { isConfirmation } from './ai.confirmation.js';
+
+const logger = createModuleLogger('ai-tools');
+
+// A proposed write must be confirmed by the customer within this window
+const CONFIRMATION_TTL_MINUTES = 30;
+const MAX_SLOTS_RETURNED = 16;
+
+/**
+ * Scope of a tool call: always the conversation's own tenant and contact, never model input
+ */
+export interface ToolContext {
+  tenantId: string;
+  conversationId: string;
+  contactId: string;
+  userMessage: string;
+  receivedAt: Date; // When the message being answered arrived
+}
+
+export interface PendingAction {
+  id: string;
+  tool: string;
+  summary: string;
+}
+
+type ToolResult = Record<string, unknown>;
+
+const dateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+const bookSchema = z.object({
+  datetime: z.string(),
+  service: z.string().optional(),
+  notes: z.string().max(500).optional(),
+});
+
+const rescheduleSchema = z.object({
+  appointmentId: z.string(),
+  newDatetime: z.string(),
+});
+
+const cancelSchema = z.object({
+  appointmentId: z.string(),
+});
+
+// Arguments stored on a pending write, replayed once the customer confirms
+type PendingArgs =
+  | { scheduledAt: string; serviceId?: string; title: string; description?: string }
+  | { appointmentId: string; scheduledAt: string }
+  | { appointmentId: string };
+
+const TOOL_DEFINITIONS: LLMTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_available_slots',
+      description: 'Consulta los horarios libres para una fecha.',
+      parameters: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'Fecha en formato YYYY-MM-DD' },
+        },
+        required: ['date'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_my_appointments',
+      description: 'Lista las próximas citas del cliente de esta conversación.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'book_appointment',
+      description: 'Propone agendar una cita. No la crea: queda pendiente hasta que el cliente confirme.',
+      parameters: {
+        type: 'object',
+        properties: {
+          datetime: { type: 'string', description: 'Fecha y hora local en formato YYYY-MM-DDTHH:mm' },
+          service: { type: 'string', description: 'Nombre del servicio, si el cliente lo indicó' },
+          notes: { type: 'string', description: 'Notas adicionales del cliente' },
+        },
+        required: ['datetime'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'reschedule_appointment',
+      description: 'Propone cambiar la fecha de una cita del cliente. Queda pendiente hasta que el cliente confirme.',
+      parameters: {
+        type: 'object',
+        properties: {
+          appointmentId: { type: 'string', description: 'ID obtenido con list_my_appointments' },
+          newDatetime: { type: 'string', description: 'Nueva fecha y hora local en formato YYYY-MM-DDTHH:mm' },
+        },
+        required: ['appointmentId', 'newDatetime'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'cancel_appointment',
+      description: 'Propone cancelar una cita del cliente. Queda pendiente hasta que el cliente confirme.',
+      parameters: {
+        type: 'object',
+        properties: {
+          appointmentId: { type: 'string', description: 'ID obtenido con list_my_appointments' },
+        },
+        required: ['appointmentId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'confirm_pending_action',
+      description: 'Ejecuta la acción pendiente. Úsala solo cuando el cliente acaba de responder que sí la confirma.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+];
+
+/**
+ * Appointment tools exposed to the LLM.
+ * Reads run immediately; writes are stored as pending and only executed after the
+ * customer's own message confirms them. Every call is recorded as an AIToolCall.
+ */
+export class AppointmentTools {
+  get definitions(): LLMTool[] {
+    return TOOL_DEFINITIONS;
+  }
+
+  /**
+   * Run a tool call from the model and return the JSON result to feed back to it
+   */
+  async execute(call: LLMToolCall, ctx: ToolContext): Promise<string> {
+    const { name } = call.function;
+
+    let args: unknown;
+    try {
+      args = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      return this.fail(ctx, name, {}, 'invalid_arguments');
+    }
+
+    try {
+      let result: ToolResult;
+      switch (name) {
+        case 'get_available_slots':
+          result = await this.getAvailableSlots(ctx, args);
+          break;
+        case 'list_my_appointments':
+          result = await this.listAppointments(ctx, args);
+          break;
+        case 'book_appointment':
+          result = await this.proposeBooking(ctx, args);
+          break;
+        case 'reschedule_appointment':
+          result = await this.proposeReschedule(ctx, args);
+          break;
+        case 'cancel_appointment':
+          result = await this.proposeCancel(ctx, args);
+          break;
+        case 'confirm_pending_action':
+          result = await this.confirmPending(ctx);
+          break;
+        default:
+          return this.fail(ctx, name, args, 'unknown_tool');
+      }
+      return JSON.stringify(result);
+    } catch (error) {
+      logger.error({ error, tool: name, conversationId: ctx.conversationId }, 'Tool call failed');
+      return this.fail(ctx, name, args, error instanceof Error ? error.message : 'tool_error');
+    }
+  }
+
+  /**
+   * Latest write waiting for the customer's confirmation, if still valid. Only
+   * writes proposed before `before` count, so a reply can't confirm what it proposes.
+   */
+  async getPendingAction(conversationId: string, before: Date): Promise<PendingAction | null> {
+    const pending = await prisma.aIToolCall.findFirst({
+      where: {
+        conversationId,
+        status: 'PENDING_CONFIRMATION',
+        createdAt: { gte: new Date(Date.now() - CONFIRMATION_TTL_MINUTES * 60 * 1000), lt: before },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!pending) return null;
+
+    const result = pending.result as { summary?: string } | null;
+    return { id: pending.id, tool: pending.tool, summary: result?.summary ?? pending.tool };
+  }
+
+  private async getAvailableSlots(ctx: ToolContext, rawArgs: unknown): Promise<ToolResult> {
+    const args = dateSchema.safeParse(rawArgs);
+    if (!args.success) return this.invalid(ctx, 'get_available_slots', rawArgs);
+
+    const slots = await calendarService.getAvailableSlots(ctx.tenantId, parseISO(args.data.date));
+    const available = slots
+      .filter(s => s.available && s.start > new Date())
+      .slice(0, MAX_SLOTS_RETURNED)
+      .map(s => format(s.start, 'HH:mm'));
+
+    const result = { date: args.data.date, available };
+    await this.record(ctx, 'get_available_slots', 'EXECUTED', args.data, result);
+    return result;
+  }
+
+  private async listAppointments(ctx: ToolContext, rawArgs: unknown): Promise<ToolResult> {
+    const appointments = await calendarService.getContactAppointments(ctx.tenantId, ctx.contactId);
+
+    const result = {
+      appointments: appointments.map(a => ({
+        id: a.id,
+        title: a.title,
+        datetime: format(a.scheduledAt, "yyyy-MM-dd'T'HH:mm"),
+        service: a.service?.name ?? null,
+        status: a.status,
+      })),
+    };
+    await this.record(ctx, 'list_my_appointments', 'EXECUTED', rawArgs, result);
+    return result;
+  }
+
+  private async proposeBooking(ctx: ToolContext, rawArgs: unknown): Promise<ToolResult> {
+    const args = bookSchema.safeParse(rawArgs);
+    if (!args.success) return this.invalid(ctx, 'book_appointment', rawArgs);
+
+    const scheduledAt = this.parseFutureDate(args.data.datetime);
+    if (!scheduledAt) return this.reject(ctx, 'book_appointment', args.data, 'datetime_invalid_or_past');
+
+    if (!(await this.isSlotAvailable(ctx.tenantId, scheduledAt))) {
+      return this.reject(ctx, 'book_appointment', args.data, 'slot_not_available');
+    }
+
+    const service = args.data.service
+      ? await prisma.service.findFirst({
+        where: {
+          tenantId: ctx.tenantId,
+          isActive: true,
+          name: { contains: args.data.service, mode: 'insensitive' },
+        },
+        select: { id: true, name: true },
+      })
+      : null;
+
+    const title = service?.name ?? 'Cita';
+    const pending: PendingArgs = {
+      scheduledAt: scheduledAt.toISOString(),
+      title,
+      ...(service ? { serviceId: service.id } : {}),
+      ...(args.data.notes ? { description: args.data.notes } : {}),
+    };
+
+    return this.propose(ctx, 'book_appointment', pending, `Agendar "${title}" el ${this.formatDate(scheduledAt)}`);
+  }
+
+  private async proposeReschedule(ctx: ToolContext, rawArgs: unknown): Promise<ToolResult> {
+    const args = rescheduleSchema.safeParse(rawArgs);
+    if (!args.success) return this.invalid(ctx, 'reschedule_appointment', rawArgs);
+
+    const appointment = await this.findContactAppointment(ctx, args.data.appointmentId);
+    if (!appointment) return this.reject(ctx, 'reschedule_appointment', args.data, 'appointment_not_found');
+
+    const scheduledAt = this.parseFutureDate(args.data.newDatetime);
+    if (!scheduledAt) return this.reject(ctx, 'reschedule_appointment', args.data, 'datetime_invalid_or_past');
+
+    if (!(await this.isSlotAvailable(ctx.tenantId, scheduledAt))) {
+      return this.reject(ctx, 'reschedule_appointment', args.data, 'slot_not_available');
+    }
+
+    const pending: PendingArgs = { appointmentId: appointment.id, scheduledAt: scheduledAt.toISOString() };
+    return this.propose(
+      ctx,
+      'reschedule_appointment',
+      pending,
+      `Mover "${appointment.title}" del ${this.formatDate(appointment.scheduledAt)} al ${this.formatDate(scheduledAt)}`
+    );
+  }
+
+  private async proposeCancel(ctx: ToolContext, rawArgs: unknown): Promise<ToolResult> {
+    const args = cancelSchema.safeParse(rawArgs);
+    if (!args.success) return this.invalid(ctx, 'cancel_appointment', rawArgs);
+
+    const appointment = await this.findContactAppointment(ctx, args.data.appointmentId);
+    if (!appointment) return this.reject(ctx, 'cancel_appointment', args.data, 'appointment_not_found');
+
+    const pending: PendingArgs = { appointmentId: appointment.id };
+    return this.propose(
+      ctx,
+      'cancel_appointment',
+      pending,
+      `Cancelar "${appointment.title}" del ${this.formatDate(appointment.scheduledAt)}`
+    );
+  }
+
+  /**
+   * Execute the pending write, only if the customer's latest message is an explicit confirmation
+   */
+  private async confirmPending(ctx: ToolContext): Promise<ToolResult> {
+    const pending = await this.getPendingAction(ctx.conversationId, ctx.receivedAt);
+    if (!pending) {
+      return { ok: false, error: 'no_pending_action' };
+    }
+
+    if (!isConfirmation(ctx.userMessage)) {
+      return {
+        ok: false,
+        error: 'customer_has_not_confirmed',
+        instruction: 'Pide al cliente que confirme explícitamente respondiendo "sí".',
+      };
+    }
+
+    // Claimed before the write, so a retried job never books, moves or cancels twice
+    const { count } = await prisma.aIToolCall.updateMany({
+      where: { id: pending.id, status: 'PENDING_CONFIRMATION' },
+      data: { status: 'CONFIRMED', confirmedAt: new Date() },
+    });
+    if (count === 0) {
+      return { ok: false, error: 'no_pending_action' };
+    }
+
+    const call = await prisma.aIToolCall.findUniqueOrThrow({ where: { id: pending.id } });
+
+    try {
+      const outcome = await this.runWrite(ctx, call.tool, call.arguments as PendingArgs);
+
+      await prisma.aIToolCall.update({
+        where: { id: call.id },
+        data: { result: { summary: pending.summary, ...outcome } as Prisma.InputJsonObject },
+      });
+
+      logger.info({
+        tenantId: ctx.tenantId,
+        conversationId: ctx.conversationId,
+        tool: call.tool,
+        toolCallId: call.id,
+      }, 'Confirmed tool action executed');
+
+      return { ok: true, done: pending.summary, ...outcome };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'tool_error';
+      await prisma.aIToolCall.update({
+        where: { id: call.id },
+        data: { status: 'FAILED', error: message },
+      });
+      return { ok: false, error: message };
+    }
+  }
+
+  private async runWrite(ctx: ToolContext, tool: string, args: PendingArgs): Promise<ToolResult> {
+    switch (tool) {
+      case 'book_appointment': {
+        const data = args as Extract<PendingArgs, { title: string }>;
+        const scheduledAt = new Date(data.scheduledAt);
+
+        // The slot may have been taken while waiting for confirmation
+        if (!(await this.isSlotAvailable(ctx.tenantId, scheduledAt))) {
+          throw new Error('slot_not_available');
+        }
+
+        const appointment = await calendarService.createAppointment(ctx.tenantId, {
+          contactId: ctx.contactId,
+          scheduledAt,
+          title: data.title,
+          ...(data.serviceId ? { serviceId: data.serviceId } : {}),
+          ...(data.description ? { description: data.description } : {}),
+        });
+        return { appointmentId: appointment.id };
+      }
+      case 'reschedule_appointment': {
+        const data = args as Extract<PendingArgs, { appointmentId: string; scheduledAt: string }>;
+        const scheduledAt = new Date(data.scheduledAt);
+
+        if (!(await this.findContactAppointment(ctx, data.appointmentId))) {
+          throw new Error('appointment_not_found');
+        }
+        if (!(await this.isSlotAvailable(ctx.tenantId, scheduledAt))) {
+          throw new Error('slot_not_available');
+        }
+
+        await calendarService.rescheduleAppointment(ctx.tenantId, data.appointmentId, scheduledAt);
+        return { appointmentId: data.appointmentId };
+      }
+      case 'cancel_appointment': {
+        const data = args as Extract<PendingArgs, { appointmentId: string }>;
+
+        if (!(await this.findContactAppointment(ctx, data.appointmentId))) {
+          throw new Error('appointment_not_found');
+        }
+
+        await calendarService.updateAppointmentStatus(ctx.tenantId, data.appointmentId, 'CANCELLED');
+        return { appointmentId: data.appointmentId };
+      }
+      default:
+        throw new Error('unknown_tool');
+    }
+  }
+
+  /**
+   * Store a write as pending, replacing any earlier proposal in this conversation
+   */
+  private async propose(
+    ctx: ToolContext,
+    tool: string,
+    args: PendingArgs,
+    summary: string
+  ): Promise<ToolResult> {
+    await prisma.aIToolCall.updateMany({
+      where: { conversationId: ctx.conversationId, status: 'PENDING_CONFIRMATION' },
+      data: { status: 'REJECTED', error: 'superseded' },
+    });
+
+    await this.record(ctx, tool, 'PENDING_CONFIRMATION', args, { summary });
+
+    return {
+      ok: true,
+      status: 'awaiting_confirmation',
+      summary,
+      instruction: 'Todavía no se ha hecho nada. Resume la acción al cliente y pídele que confirme respondiendo "sí".',
+    };
+  }
+
+  /**
+   * Only upcoming, active appointments that belong to this conversation's contact
+   */
+  private findContactAppointment(ctx: ToolContext, appointmentId: string) {
+    return prisma.appointment.findFirst({
+      where: {
+        id: appointmentId,
+        tenantId: ctx.tenantId,
+        contactId: ctx.contactId,
+        status: { in: ['SCHEDULED', 'CONFIRMED'] },
+        scheduledAt: { gte: new Date() },
+      },
+    });
+  }
+
+  private async isSlotAvailable(tenantId: string, start: Date): Promise<boolean> {
+    const slots = await calendarService.getAvailableSlots(tenantId, start);
+    return slots.some(s => s.available && s.start.getTime() === start.getTime());
+  }
+
+  private parseFutureDate(value: string): Date | null {
+    const date = parseISO(value);
+    return isValid(date) && date > new Date() ? date : null;
+  }
+
+  private formatDate(date: Date): string {
+    return format(date, 'yyyy-MM-dd HH:mm');
+  }
+
+  private async invalid(ctx: ToolContext, tool: string, args: unknown): Promise<ToolResult> {
+    await this.record(ctx, tool, 'FAILED', args, undefined, 'invalid_arguments');
+    return { ok: false, error: 'invalid_arguments' };
+  }
+
+  private async reject(ctx: ToolContext, tool: string, args: unknown, error: string): Promise<ToolResult> {
+    await this.record(ctx, tool, 'REJECTED', args, undefined, error);
+    return { ok: false, error };
+  }
+
+  private async fail(ctx: ToolContext, tool: string, args: unknown, error: string): Promise<string> {
+    await this.record(ctx, tool, 'FAILED', args, undefined, error).catch(() => undefined);
+    return JSON.stringify({ ok: false, error });
+  }
+
+  private async record(
+    ctx: ToolContext,
+    tool: string,
+    status: 'EXECUTED' | 'PENDING_CONFIRMATION' | 'REJECTED' | 'FAILED',
+    args: unknown,
+    result?: ToolResult,
+    error?: string
+  ): Promise<void> {
+    await prisma.aIToolCall.create({
+      data: {
+        tenantId: ctx.tenantId,
+        conversationId: ctx.conversationId,
+        tool,
+        status,
+        arguments: (args ?? {}) as Prisma.InputJsonValue,
+        ...(result ? { result: result as Prisma.InputJsonObject } : {}),
+        ...(error ? { error } : {}),
+      },
+    });
+  }
+}
+
+export const appointmentTools = new AppointmentTools();
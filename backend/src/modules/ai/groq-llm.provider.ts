@@ -0,0 +1,34 @@
+import Groq from 'groq-sdk';
+import type { ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import type { LLMCompletion, LLMProvider, LLMRequest } from './llm.provider.js';
+
+/**
+ * Groq cloud chat completions
+ */
+export class GroqLLMProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly defaultModel = 'llama-3.3-70b-versatile';
+
+  private client: Groq;
+
+  constructor(config: { apiKey: string }) {
+    this.client = new Groq({ apiKey: config.apiKey });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages as ChatCompletionMessageParam[],
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(request.tools?.length ? { tools: request.tools, tool_choice: 'auto' as const } : {}),
+    });
+
+    const message = completion.choices[0]?.message;
+    return {
+      content: message?.content ?? null,
+      toolCalls: message?.tool_calls ?? [],
+    };
+  }
+}
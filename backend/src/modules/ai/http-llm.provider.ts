@@ -0,0 +1,62 @@
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import type { LLMCompletion, LLMProvider, LLMRequest, LLMToolCall } from './llm.provider.js';
+
+const logger = createModuleLogger('llm-http');
+
+interface ChatCompletionsApiResponse {
+  choices: Array<{
+    message?: { content?: string | null; tool_calls?: LLMToolCall[] };
+  }>;
+}
+
+/**
+ * Any OpenAI-compatible /chat/completions server (llama.cpp, Ollama, vLLM, OpenAI...)
+ */
+export class HttpLLMProvider implements LLMProvider {
+  readonly name = 'http';
+  readonly defaultModel: string;
+
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(config: { baseUrl: string; apiKey: string | undefined; defaultModel: string }) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.defaultModel = config.defaultModel;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+        ...(request.tools?.length ? { tools: request.tools, tool_choice: 'auto' } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      logger.error({ url: this.baseUrl, status: response.status, error: errorBody }, 'LLM API error');
+      throw new AppError(502, 'LLM_API_ERROR', `LLM API error: ${response.statusText}`);
+    }
+
+    const body = await response.json() as ChatCompletionsApiResponse;
+    const message = body.choices[0]?.message;
+
+    return {
+      content: message?.content ?? null,
+      toolCalls: message?.tool_calls ?? [],
+    };
+  }
+}
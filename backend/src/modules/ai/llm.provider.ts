@@ -0,0 +1,102 @@
+import { env } from '../../config/env.js';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { GroqLLMProvider } from './groq-llm.provider.js';
+import { HttpLLMProvider } from './http-llm.provider.js';
+import { ScriptedLLMProvider } from './scripted-llm.provider.js';
+
+// Chat messages and tools follow the OpenAI chat-completions shape, which every provider speaks
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface LLMTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: LLMToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // Ask for a JSON object response
+  tools?: LLMTool[];
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  /** Name used in routes ("groq:llama-3.3-70b-versatile") and as the circuit breaker key */
+  readonly name: string;
+  /** Model used when a route names only the provider */
+  readonly defaultModel: string;
+
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+let providers: Map<string, LLMProvider> | null = null;
+
+function buildProviders(): Map<string, LLMProvider> {
+  const registry = new Map<string, LLMProvider>();
+
+  if (env.GROQ_API_KEY) {
+    registry.set('groq', new GroqLLMProvider({ apiKey: env.GROQ_API_KEY }));
+  }
+  if (env.LLM_HTTP_URL) {
+    registry.set('http', new HttpLLMProvider({
+      baseUrl: env.LLM_HTTP_URL,
+      apiKey: env.LLM_HTTP_API_KEY,
+      defaultModel: env.LLM_HTTP_MODEL,
+    }));
+  }
+  // Canned replies for tests and simulations, never for real customers
+  if (env.NODE_ENV !== 'production') {
+    registry.set('scripted', new ScriptedLLMProvider());
+  }
+
+  return registry;
+}
+
+/**
+ * Whether a provider with this name is configured
+ */
+export function hasLLMProvider(name: string): boolean {
+  providers ??= buildProviders();
+  return providers.has(name);
+}
+
+/**
+ * Get a configured provider by name
+ */
+export function getLLMProvider(name: string): LLMProvider {
+  providers ??= buildProviders();
+
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new AppError(500, 'LLM_NOT_CONFIGURED', `LLM provider "${name}" is not configured`);
+  }
+
+  return provider;
+}
+
+/**
+ * Replace or add a provider (e.g. a scripted one for tests and simulations)
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers ??= buildProviders();
+  providers.set(provider.name, provider);
+}
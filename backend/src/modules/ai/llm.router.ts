@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { llmCircuitBreaker } from '../gatekeeper/circuit-breaker.js';
+import { getLLMProvider, hasLLMProvider, type LLMCompletion, type LLMRequest } from './llm.provider.js';
+
+const logger = createModuleLogger('llm-router');
+
+export type LLMTask = 'intent' | 'reply';
+
+// "provider" or "provider:model", e.g. "groq:llama-3.1-8b-instant" or "http:qwen2.5:7b"
+const routeTargetSchema = z.string().regex(/^[a-z]+(:\S+)?$/);
+
+const configuredTargetSchema = routeTargetSchema.refine(
+  target => hasLLMProvider(target.split(':')[0] ?? ''),
+  target => ({ message: `LLM provider "${target.split(':')[0]}" is not configured` })
+);
+
+/**
+ * Per-tenant override of the env routes; each list is tried in order
+ */
+export const llmRoutesSchema = z.object({
+  intent: z.array(configuredTargetSchema).min(1).optional(),
+  reply: z.array(configuredTargetSchema).min(1).optional(),
+});
+
+// Saved routes are only checked for shape: a provider removed since is skipped when routing
+const storedRoutesSchema = z.object({
+  intent: z.array(routeTargetSchema).min(1).optional(),
+  reply: z.array(routeTargetSchema).min(1).optional(),
+});
+
+export type LLMRoutes = z.infer<typeof llmRoutesSchema>;
+
+export interface RoutedCompletion extends LLMCompletion {
+  provider: string;
+  model: string;
+}
+
+export class LLMRouter {
+  /**
+   * Send a request to the first available provider for the task, falling back down the route
+   */
+  async complete(
+    tenantId: string | null,
+    task: LLMTask,
+    request: Omit<LLMRequest, 'model'>
+  ): Promise<RoutedCompletion> {
+    const route = await this.getRoute(tenantId, task);
+
+    for (const target of route) {
+      const [providerName = '', ...modelParts] = target.split(':');
+      if (!hasLLMProvider(providerName)) {
+        logger.warn({ tenantId, task, provider: providerName }, 'LLM provider is not configured, trying next provider');
+        continue;
+      }
+
+      const provider = getLLMProvider(providerName);
+      const model = modelParts.join(':') || provider.defaultModel;
+
+      if (!(await llmCircuitBreaker.canExecute(provider.name))) {
+        logger.warn({ tenantId, task, provider: provider.name }, 'LLM circuit breaker is open, trying next provider');
+        continue;
+      }
+
+      try {
+        const completion = await provider.complete({ ...request, model });
+        await llmCircuitBreaker.recordSuccess(provider.name);
+        return { ...completion, provider: provider.name, model };
+      } catch (error) {
+        await llmCircuitBreaker.recordFailure(provider.name);
+        logger.error({ error, tenantId, task, provider: provider.name, model }, 'LLM provider failed, trying next provider');
+      }
+    }
+
+    throw new AppError(503, 'SERVICE_UNAVAILABLE', 'AI service temporarily unavailable');
+  }
+
+  /**
+   * Tenant routes win over the deployment defaults
+   */
+  private async getRoute(tenantId: string | null, task: LLMTask): Promise<string[]> {
+    if (tenantId) {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { aiRoutes: true },
+      });
+
+      const routes = storedRoutesSchema.safeParse(tenant?.aiRoutes ?? {});
+      const tenantRoute = routes.success ? routes.data[task] : undefined;
+      if (tenantRoute) return tenantRoute;
+    }
+
+    const defaultRoute = task === 'intent' ? env.LLM_INTENT_ROUTE : env.LLM_REPLY_ROUTE;
+    return defaultRoute.split(',').map(t => t.trim()).filter(Boolean);
+  }
+}
+
+export const llmRouter = new LLMRouter();
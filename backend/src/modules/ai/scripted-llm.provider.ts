@@ -0,0 +1,41 @@
+import type { LLMCompletion, LLMProvider, LLMRequest } from './llm.provider.js';
+
+export type ScriptStep = LLMCompletion | ((request: LLMRequest) => LLMCompletion);
+
+/**
+ * Deterministic stand-in that never leaves the process.
+ * Plays back the scripted steps in order, then falls back to fixed answers.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel = 'scripted';
+
+  /** Every request received, for assertions */
+  readonly requests: LLMRequest[] = [];
+
+  private script: ScriptStep[];
+
+  constructor(script: ScriptStep[] = [], name = 'scripted') {
+    this.script = [...script];
+    this.name = name;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+
+    const step = this.script.shift();
+    if (step) {
+      return typeof step === 'function' ? step(request) : step;
+    }
+
+    if (request.jsonMode) {
+      return { content: '{}', toolCalls: [] };
+    }
+
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+    return {
+      content: `Respuesta de prueba: ${lastUserMessage?.content ?? ''}`,
+      toolCalls: [],
+    };
+  }
+}
@@ -191,6 +191,7 @@ export class ApiKeysController {
       { id: 'CONTACTS_WRITE', name: 'Gestionar contactos', description: 'Crear, editar y eliminar contactos' },
       { id: 'CONVERSATIONS_READ', name: 'Leer conversaciones', description: 'Ver conversaciones' },
       { id: 'CONVERSATIONS_WRITE', name: 'Gestionar conversaciones', description: 'Cerrar, archivar conversaciones' },
+      { id: 'NOTES_READ', name: 'Leer notas internas', description: 'Ver las notas privadas de los agentes' },
       { id: 'APPOINTMENTS_READ', name: 'Leer citas', description: 'Ver calendario de citas' },
       { id: 'APPOINTMENTS_WRITE', name: 'Gestionar citas', description: 'Crear, editar y cancelar citas' },
       { id: 'KNOWLEDGE_READ', name: 'Leer conocimiento', description: 'Ver productos, servicios y documentos' },
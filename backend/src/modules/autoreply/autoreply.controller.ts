@@ -5,7 +5,7 @@ import type { ApiResponse } from '../../shared/types/index.js';
 
 const createAutoReplySchema = z.object({
   name: z.string().min(1).max(100),
-  triggerType: z.enum(['KEYWORD', 'PATTERN', 'GREETING', 'THANKS', 'GOODBYE']),
+  triggerType: z.enum(['KEYWORD', 'PATTERN', 'GREETING', 'THANKS', 'GOODBYE', 'BUTTON']),
   keywords: z.array(z.string()).optional(),
   pattern: z.string().optional(),
   response: z.string().min(1).max(4096),
@@ -16,7 +16,7 @@ const createAutoReplySchema = z.object({
 
 const updateAutoReplySchema = z.object({
   name: z.string().min(1).max(100).optional(),
-  triggerType: z.enum(['KEYWORD', 'PATTERN', 'GREETING', 'THANKS', 'GOODBYE']).optional(),
+  triggerType: z.enum(['KEYWORD', 'PATTERN', 'GREETING', 'THANKS', 'GOODBYE', 'BUTTON']).optional(),
   keywords: z.array(z.string()).optional(),
   pattern: z.string().nullable().optional(),
   response: z.string().min(1).max(4096).optional(),
@@ -28,6 +28,7 @@ const updateAutoReplySchema = z.object({
 
 const testMatchSchema = z.object({
   message: z.string().min(1),
+  replyId: z.string().optional(), // Simulate a tapped button/list row
 });
 
 export class AutoReplyController {
@@ -226,7 +227,12 @@ export class AutoReplyController {
       }
 
       const input = testMatchSchema.parse(req.body);
-      const match = await autoReplyService.findMatch(req.context.tenantId, input.message);
+      const match = await autoReplyService.findMatch(
+        req.context.tenantId,
+        input.message,
+        input.replyId ?? null,
+        { dryRun: true }
+      );
 
       res.json({
         success: true,
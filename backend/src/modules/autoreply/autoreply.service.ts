@@ -42,9 +42,16 @@ export interface AutoReplyMatch {
 
 export class AutoReplyService {
   /**
-   * Check if a message matches any auto-reply rule
+   * Check if a message matches any auto-reply rule.
+   * `replyId` is the id of the button or list row the customer tapped, if any.
+   * A dry run (previews, tests) leaves the rule's stats alone.
    */
-  async findMatch(tenantId: string, message: string): Promise<AutoReplyMatch> {
+  async findMatch(
+    tenantId: string,
+    message: string,
+    replyId: string | null = null,
+    options: { dryRun?: boolean } = {}
+  ): Promise<AutoReplyMatch> {
     const normalizedMessage = message.toLowerCase().trim();
 
     // Get all active rules for tenant (from cache or DB)
@@ -55,8 +62,9 @@ export class AutoReplyService {
 
     // Check each rule
     for (const rule of sortedRules) {
-      const matched = this.checkRule(rule, normalizedMessage, message);
-      if (matched) {
+      if (!this.checkRule(rule, normalizedMessage, message, replyId)) continue;
+
+      if (!options.dryRun) {
         // Update stats asynchronously (don't wait)
         this.updateRuleStats(rule.id).catch(err => 
           logger.error({ err, ruleId: rule.id }, 'Failed to update rule stats')
@@ -68,15 +76,15 @@ export class AutoReplyService {
           ruleName: rule.name,
           triggerType: rule.triggerType,
         }, 'Auto-reply matched');
-
-        return {
-          matched: true,
-          reply: rule.response,
-          ruleId: rule.id,
-          ruleName: rule.name,
-          triggerType: rule.triggerType,
-        };
       }
+
+      return {
+        matched: true,
+        reply: rule.response,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerType: rule.triggerType,
+      };
     }
 
     return { matched: false };
@@ -85,7 +93,7 @@ export class AutoReplyService {
   /**
    * Check if a message matches a specific rule
    */
-  private checkRule(rule: AutoReply, normalizedMessage: string, originalMessage: string): boolean {
+  private checkRule(rule: AutoReply, normalizedMessage: string, originalMessage: string, replyId: string | null): boolean {
     const messageToCheck = rule.caseSensitive ? originalMessage : normalizedMessage;
 
     switch (rule.triggerType) {
@@ -104,6 +112,10 @@ export class AutoReplyService {
       case 'GOODBYE':
         return this.checkBuiltIn('GOODBYE', normalizedMessage);
 
+      case 'BUTTON':
+        // Ids are matched exactly, the title the customer saw may change
+        return replyId !== null && rule.keywords.includes(replyId);
+
       default:
         return false;
     }
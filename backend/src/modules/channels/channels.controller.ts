@@ -0,0 +1,149 @@
+import type { Request, Response, NextFunction } from 'express';
+import { channelsService, createChannelSchema, updateChannelSchema } from './channels.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class ChannelsController {
+  /**
+   * GET /api/channels
+   */
+  async list(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const channels = await channelsService.list(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: channels,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/channels/:id
+   */
+  async get(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const channel = await channelsService.get(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: channel,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/channels
+   */
+  async create(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = createChannelSchema.parse(req.body);
+      const channel = await channelsService.create(req.context.tenantId, input);
+
+      res.status(201).json({
+        success: true,
+        data: channel,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/channels/:id
+   */
+  async update(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = updateChannelSchema.parse(req.body);
+      const channel = await channelsService.update(req.context.tenantId, req.params.id as string, input);
+
+      res.json({
+        success: true,
+        data: channel,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/channels/:id
+   */
+  async delete(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      await channelsService.delete(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: { deleted: true },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const channelsController = new ChannelsController();
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { channelsController } from './channels.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const channelsRoutes = Router();
+
+// All routes require authentication
+channelsRoutes.use(authMiddleware);
+
+channelsRoutes.get('/', (req, res, next) => channelsController.list(req, res, next));
+channelsRoutes.post('/', (req, res, next) => channelsController.create(req, res, next));
+channelsRoutes.get('/:id', (req, res, next) => channelsController.get(req, res, next));
+channelsRoutes.patch('/:id', (req, res, next) => channelsController.update(req, res, next));
+channelsRoutes.delete('/:id', (req, res, next) => channelsController.delete(req, res, next));
+
+// Health check
+channelsRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'channels', status: 'ok' });
+});
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { AppError, NotFoundError } from '../../shared/middleware/error.handler.js';
+
+const logger = createModuleLogger('channels');
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/);
+
+export const createChannelSchema = z.object({
+  name: z.string().min(1).max(100),
+  phoneNumberId: z.string().min(1),
+  displayPhoneNumber: z.string().max(30).optional(),
+  accessToken: z.string().min(1).optional(), // Only if the number uses a different token than the tenant
+  isDefault: z.boolean().optional(),
+  aiConfigVersion: z.number().int().min(1).nullable().optional(),
+  workingHoursStart: timeOfDay.nullable().optional(),
+  workingHoursEnd: timeOfDay.nullable().optional(),
+  workingDays: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).optional(),
+});
+
+export const updateChannelSchema = createChannelSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export type CreateChannelInput = z.infer<typeof createChannelSchema>;
+export type UpdateChannelInput = z.infer<typeof updateChannelSchema>;
+
+// Never return access tokens
+const channelSelect = {
+  id: true,
+  name: true,
+  phoneNumberId: true,
+  displayPhoneNumber: true,
+  isDefault: true,
+  isActive: true,
+  aiConfigVersion: true,
+  workingHoursStart: true,
+  workingHoursEnd: true,
+  workingDays: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export class ChannelsService {
+  /**
+   * List the tenant's WhatsApp numbers
+   */
+  async list(tenantId: string) {
+    return prisma.whatsAppChannel.findMany({
+      where: { tenantId },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      select: channelSelect,
+    });
+  }
+
+  async get(tenantId: string, id: string) {
+    const channel = await prisma.whatsAppChannel.findFirst({
+      where: { id, tenantId },
+      select: channelSelect,
+    });
+
+    if (!channel) throw new NotFoundError('Channel');
+    return channel;
+  }
+
+  /**
+   * Add a number; the first one becomes the default
+   */
+  async create(tenantId: string, input: CreateChannelInput) {
+    await this.assertPhoneNumberAvailable(input.phoneNumberId);
+    await this.assertConfigVersion(tenantId, input.aiConfigVersion);
+
+    const channelCount = await prisma.whatsAppChannel.count({ where: { tenantId } });
+    const isDefault = input.isDefault ?? channelCount === 0;
+
+    const channel = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.whatsAppChannel.updateMany({ where: { tenantId }, data: { isDefault: false } });
+      }
+
+      return tx.whatsAppChannel.create({
+        data: {
+          tenantId,
+          name: input.name,
+          phoneNumberId: input.phoneNumberId,
+          displayPhoneNumber: input.displayPhoneNumber ?? null,
+          accessToken: input.accessToken ?? null,
+          isDefault,
+          aiConfigVersion: input.aiConfigVersion ?? null,
+          workingHoursStart: input.workingHoursStart ?? null,
+          workingHoursEnd: input.workingHoursEnd ?? null,
+          workingDays: input.workingDays ?? [],
+        },
+        select: channelSelect,
+      });
+    });
+
+    logger.info({ tenantId, channelId: channel.id, phoneNumberId: channel.phoneNumberId }, 'WhatsApp channel created');
+
+    return channel;
+  }
+
+  async update(tenantId: string, id: string, input: UpdateChannelInput) {
+    const current = await this.get(tenantId, id);
+
+    if (input.phoneNumberId !== undefined && input.phoneNumberId !== current.phoneNumberId) {
+      await this.assertPhoneNumberAvailable(input.phoneNumberId);
+    }
+    await this.assertConfigVersion(tenantId, input.aiConfigVersion);
+
+    const data: Record<string, unknown> = {};
+    if (input.name !== undefined) data.name = input.name;
+    if (input.phoneNumberId !== undefined) data.phoneNumberId = input.phoneNumberId;
+    if (input.displayPhoneNumber !== undefined) data.displayPhoneNumber = input.displayPhoneNumber;
+    if (input.accessToken !== undefined) data.accessToken = input.accessToken;
+    if (input.isDefault !== undefined) data.isDefault = input.isDefault;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    if (input.aiConfigVersion !== undefined) data.aiConfigVersion = input.aiConfigVersion;
+    if (input.workingHoursStart !== undefined) data.workingHoursStart = input.workingHoursStart;
+    if (input.workingHoursEnd !== undefined) data.workingHoursEnd = input.workingHoursEnd;
+    if (input.workingDays !== undefined) data.workingDays = input.workingDays;
+
+    return prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.whatsAppChannel.updateMany({ where: { tenantId, id: { not: id } }, data: { isDefault: false } });
+      }
+
+      return tx.whatsAppChannel.update({
+        where: { id },
+        data,
+        select: channelSelect,
+      });
+    });
+  }
+
+  /**
+   * Remove a number; its conversations stay, replying through the tenant's default number
+   */
+  async delete(tenantId: string, id: string): Promise<void> {
+    await this.get(tenantId, id);
+    await prisma.whatsAppChannel.delete({ where: { id } });
+
+    logger.info({ tenantId, channelId: id }, 'WhatsApp channel deleted');
+  }
+
+  private async assertPhoneNumberAvailable(phoneNumberId: string): Promise<void> {
+    const existing = await prisma.whatsAppChannel.findUnique({
+      where: { phoneNumberId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AppError(409, 'CHANNEL_EXISTS', 'This phone number is already connected');
+    }
+  }
+
+  private async assertConfigVersion(tenantId: string, version: number | null | undefined): Promise<void> {
+    if (!version) return;
+
+    const config = await prisma.aIConfig.findUnique({
+      where: { tenantId_version: { tenantId, version } },
+      select: { id: true },
+    });
+
+    if (!config) throw new NotFoundError('AI config version');
+  }
+}
+
+export const channelsService = new ChannelsService();
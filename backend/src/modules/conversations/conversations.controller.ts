@@ -0,0 +1,449 @@
+import type { Request, Response, NextFunction } from 'express';
+import {
+  conversationsService,
+  listConversationsSchema,
+  listMessagesSchema,
+  sendAgentMessageSchema,
+  updateConversationSchema,
+} from './conversations.service.js';
+import { conversationReadService, markReadSchema } from './conversations.read.js';
+import { conversationNotesService, noteSchema } from './conversations.notes.js';
+import { conversationLifecycleService, snoozeSchema } from './conversations.lifecycle.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class ConversationsController {
+  /**
+   * GET /api/conversations
+   */
+  async list(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = listConversationsSchema.parse(req.query);
+      const result = await conversationsService.list(req.context.tenantId, req.context.userId, input);
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/conversations/:id
+   */
+  async get(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const conversation = await conversationsService.get(req.context.tenantId, req.context.userId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/conversations/:id/messages
+   */
+  async listMessages(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = listMessagesSchema.parse(req.query);
+      const result = await conversationsService.listMessages(req.context.tenantId, req.params.id as string, input);
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/messages
+   */
+  async sendMessage(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const { content } = sendAgentMessageSchema.parse(req.body);
+      const message = await conversationsService.sendMessage(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId,
+        content
+      );
+
+      res.status(201).json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/conversations/:id
+   */
+  async update(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = updateConversationSchema.parse(req.body);
+      const conversation = await conversationsService.update(req.context.tenantId, req.params.id as string, req.context.userId, input);
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/takeover
+   */
+  async takeOver(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const conversation = await conversationsService.takeOver(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId
+      );
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/return-to-ai
+   */
+  async returnToAi(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const conversation = await conversationsService.returnToAi(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId
+      );
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/conversations/unread
+   */
+  async unreadSummary(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const summary = await conversationReadService.summary(req.context.tenantId, req.context.userId);
+
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/read
+   */
+  async markRead(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = markReadSchema.parse(req.body ?? {});
+      const result = await conversationReadService.markRead(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId,
+        input
+      );
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/notes
+   */
+  async createNote(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = noteSchema.parse(req.body);
+      const note = await conversationNotesService.create(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId,
+        input
+      );
+
+      res.status(201).json({
+        success: true,
+        data: note,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/conversations/notes/:noteId
+   */
+  async updateNote(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = noteSchema.parse(req.body);
+      const note = await conversationNotesService.update(
+        req.context.tenantId,
+        req.params.noteId as string,
+        req.context.userId,
+        input
+      );
+
+      res.json({
+        success: true,
+        data: note,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/conversations/notes/:noteId
+   */
+  async deleteNote(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      await conversationNotesService.remove(req.context.tenantId, req.params.noteId as string, req.context.userId);
+
+      res.json({
+        success: true,
+        data: { message: 'Note deleted' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/conversations/:id/snooze
+   */
+  async snooze(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const { until } = snoozeSchema.parse(req.body);
+      const conversation = await conversationLifecycleService.snooze(
+        req.context.tenantId,
+        req.params.id as string,
+        req.context.userId,
+        until
+      );
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/conversations/:id/snooze
+   */
+  async unsnooze(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const conversation = await conversationLifecycleService.unsnooze(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const conversationsController = new ConversationsController();
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError } from '../../shared/middleware/error.handler.js';
+import { emitToTenant, getSocketEmitter } from '../realtime/socket.handler.js';
+import { webhooksService } from '../webhooks/webhooks.service.js';
+import { slaService } from '../sla/sla.service.js';
+import { routingService } from '../routing/routing.service.js';
+
+const logger = createModuleLogger('conversation-lifecycle');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const snoozeSchema = z.object({
+  until: z.coerce.date().refine(date => date.getTime() > Date.now(), 'The snooze must end in the future'),
+});
+
+export type CloseReason = 'manual' | 'inactivity';
+
+const lifecycleSelect = {
+  id: true,
+  status: true,
+  contactId: true,
+  channelId: true,
+  snoozedUntil: true,
+  closedAt: true,
+  closeReason: true,
+  previousConversationId: true,
+  lastMessageAt: true,
+} satisfies Prisma.ConversationSelect;
+
+type LifecycleState = Prisma.ConversationGetPayload<{ select: typeof lifecycleSelect }>;
+
+/**
+ * Snoozing, closing and reopening conversations
+ */
+export class ConversationLifecycleService {
+  /**
+   * Hide the conversation from the inbox until `until` or the customer's next message
+   */
+  async snooze(tenantId: string, conversationId: string, userId: string, until: Date) {
+    const conversation = await this.update(tenantId, conversationId, { snoozedUntil: until });
+
+    logger.info({ tenantId, conversationId, userId, until }, 'Conversation snoozed');
+
+    return conversation;
+  }
+
+  async unsnooze(tenantId: string, conversationId: string) {
+    return this.update(tenantId, conversationId, { snoozedUntil: null });
+  }
+
+  /**
+   * Close a conversation and notify the tenant's webhooks. Closing twice is a no-op.
+   */
+  async close(tenantId: string, conversationId: string, reason: CloseReason, userId?: string) {
+    const existing = await prisma.conversation.findFirst({
+      where: { id: conversationId, tenantId },
+      select: lifecycleSelect,
+    });
+
+    if (!existing) throw new NotFoundError('Conversation');
+    if (existing.status === 'CLOSED') return existing;
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { status: 'CLOSED', closedAt: new Date(), closeReason: reason, snoozedUntil: null, routingQueuedAt: null },
+      select: lifecycleSelect,
+    });
+
+    await this.notifyClosed(tenantId, conversation, userId);
+
+    return conversation;
+  }
+
+  /**
+   * Conversation an inbound message belongs to: the open one (woken up if snoozed),
+   * the last one reopened if it closed recently enough, or a new one linked to it.
+   */
+  async resolveInbound(tenantId: string, contactId: string, channelId: string | null) {
+    const open = await prisma.conversation.findFirst({
+      where: { tenantId, contactId, channelId, status: 'OPEN' },
+    });
+
+    if (open) {
+      if (!open.snoozedUntil) return open;
+
+      // The customer wrote: the conversation is back in the inbox
+      const woken = await prisma.conversation.update({ where: { id: open.id }, data: { snoozedUntil: null } });
+      getSocketEmitter()?.emitConversationUpdate(tenantId, open.id, { snoozedUntil: null });
+      return woken;
+    }
+
+    const [previous, tenant] = await Promise.all([
+      prisma.conversation.findFirst({
+        where: { tenantId, contactId, channelId, status: { in: ['CLOSED', 'ARCHIVED'] } },
+        orderBy: { lastMessageAt: 'desc' },
+        select: { id: true, status: true, closedAt: true },
+      }),
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: { reopenWithinHours: true } }),
+    ]);
+
+    const reopenWithinMs = (tenant?.reopenWithinHours ?? 0) * HOUR_MS;
+    if (previous?.status === 'CLOSED' && previous.closedAt && Date.now() - previous.closedAt.getTime() < reopenWithinMs) {
+      const reopened = await prisma.conversation.update({
+        where: { id: previous.id },
+        data: { status: 'OPEN', closedAt: null, closeReason: null },
+      });
+
+      getSocketEmitter()?.emitConversationUpdate(tenantId, reopened.id, { status: 'OPEN', closedAt: null });
+      logger.info({ tenantId, conversationId: reopened.id }, 'Conversation reopened by the customer');
+
+      return reopened;
+    }
+
+    return prisma.conversation.create({
+      data: {
+        tenantId,
+        contactId,
+        channelId,
+        status: 'OPEN',
+        isAiEnabled: true,
+        previousConversationId: previous?.id ?? null,
+      },
+    });
+  }
+
+  /**
+   * Close the conversations left inactive longer than their tenant allows (scheduler)
+   */
+  async closeInactive(now = new Date()): Promise<number> {
+    const tenants = await prisma.tenant.findMany({
+      where: { autoCloseAfterHours: { not: null } },
+      select: { id: true, autoCloseAfterHours: true },
+    });
+
+    let closed = 0;
+
+    for (const tenant of tenants) {
+      const cutoff = new Date(now.getTime() - (tenant.autoCloseAfterHours ?? 0) * HOUR_MS);
+
+      const stale = await prisma.conversation.findMany({
+        where: {
+          tenantId: tenant.id,
+          status: 'OPEN',
+          lastMessageAt: { lt: cutoff },
+          // A snoozed conversation is waiting on purpose
+          OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+        },
+        select: { id: true },
+        take: 500,
+      });
+
+      for (const { id } of stale) {
+        // Skip it if a message arrived since it was listed
+        const { count } = await prisma.conversation.updateMany({
+          where: { id, status: 'OPEN', lastMessageAt: { lt: cutoff } },
+          data: { status: 'CLOSED', closedAt: now, closeReason: 'inactivity', snoozedUntil: null, routingQueuedAt: null },
+        });
+        if (!count) continue;
+
+        const conversation = await prisma.conversation.findUniqueOrThrow({ where: { id }, select: lifecycleSelect });
+        await this.notifyClosed(tenant.id, conversation);
+        closed++;
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Clear expired snoozes so the conversations show up as regular ones again (scheduler)
+   */
+  async wakeSnoozed(now = new Date()): Promise<number> {
+    const due = await prisma.conversation.findMany({
+      where: { snoozedUntil: { lte: now } },
+      select: { id: true, tenantId: true },
+    });
+    if (due.length === 0) return 0;
+
+    const { count } = await prisma.conversation.updateMany({
+      where: { id: { in: due.map(conversation => conversation.id) }, snoozedUntil: { lte: now } },
+      data: { snoozedUntil: null },
+    });
+
+    // Runs in the worker, so open inboxes hear about it through the relayed emit
+    for (const conversation of due) {
+      emitToTenant(conversation.tenantId, 'conversation:update', { conversationId: conversation.id, snoozedUntil: null });
+    }
+
+    return count;
+  }
+
+  private async update(tenantId: string, conversationId: string, data: Prisma.ConversationUpdateInput) {
+    const exists = await prisma.conversation.count({ where: { id: conversationId, tenantId } });
+    if (!exists) throw new NotFoundError('Conversation');
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data,
+      select: lifecycleSelect,
+    });
+
+    getSocketEmitter()?.emitConversationUpdate(tenantId, conversationId, conversation);
+
+    return conversation;
+  }
+
+  private async notifyClosed(tenantId: string, conversation: LifecycleState, userId?: string): Promise<void> {
+    await slaService.onResolved(conversation.id, conversation.closedAt ?? new Date());
+    // Its agent has room for a waiting conversation
+    await routingService.drainQueue(tenantId);
+
+    // Also runs in the worker (auto-close), so it goes through the relayed emit
+    emitToTenant(tenantId, 'conversation:update', { conversationId: conversation.id, ...conversation });
+
+    try {
+      await webhooksService.dispatchEvent(tenantId, 'CONVERSATION_CLOSED', {
+        conversationId: conversation.id,
+        contactId: conversation.contactId,
+        channelId: conversation.channelId,
+        reason: conversation.closeReason,
+        closedAt: conversation.closedAt?.toISOString() ?? null,
+        closedBy: userId ?? null,
+      });
+    } catch (error) {
+      // The conversation is closed either way
+      logger.error({ error, tenantId, conversationId: conversation.id }, 'Failed to dispatch CONVERSATION_CLOSED');
+    }
+
+    logger.info({ tenantId, conversationId: conversation.id, reason: conversation.closeReason }, 'Conversation closed');
+  }
+}
+
+export const conversationLifecycleService = new ConversationLifecycleService();
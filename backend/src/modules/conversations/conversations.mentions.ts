@@ -0,0 +1,36 @@
+export interface MentionableUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// "@ana" or "@ana.lopez" - letters, digits, dots, dashes and underscores
+const MENTION_PATTERN = /(^|[^\w@.])@([\w.-]*\w)/g;
+
+/**
+ * Handles written as @handle in a note, lowercased and without duplicates
+ */
+export function extractMentionHandles(content: string): string[] {
+  const handles = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match[2]) handles.add(match[2].toLowerCase());
+  }
+  return [...handles];
+}
+
+/**
+ * Team members mentioned in a note. A handle matches the part of the email
+ * before the @, or the name written without spaces.
+ */
+export function findMentionedUsers(content: string, users: MentionableUser[]): string[] {
+  const handles = new Set(extractMentionHandles(content));
+  if (handles.size === 0) return [];
+
+  return users
+    .filter(user => {
+      const emailHandle = user.email.split('@')[0]?.toLowerCase();
+      const nameHandle = user.name.replace(/\s+/g, '').toLowerCase();
+      return (emailHandle && handles.has(emailHandle)) || handles.has(nameHandle);
+    })
+    .map(user => user.id);
+}
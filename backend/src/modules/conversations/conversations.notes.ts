@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { AuthorizationError, NotFoundError } from '../../shared/middleware/error.handler.js';
+import { getSocketEmitter } from '../realtime/socket.handler.js';
+import { findMentionedUsers } from './conversations.mentions.js';
+
+const logger = createModuleLogger('conversation-notes');
+
+export const noteSchema = z.object({
+  content: z.string().min(1).max(4096),
+  mentionedUserIds: z.array(z.string()).max(50).optional(), // Picked from the team, on top of @handles
+});
+
+export type NoteInput = z.infer<typeof noteSchema>;
+
+const noteSelect = {
+  id: true,
+  conversationId: true,
+  content: true,
+  mentionedUserIds: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: { id: true, name: true } },
+} satisfies Prisma.ConversationNoteSelect;
+
+/**
+ * Internal notes agents leave on a conversation. They live apart from
+ * messages, so nothing that sends, answers or exports messages sees them.
+ */
+export class ConversationNotesService {
+  /**
+   * Notes of a conversation written in [from, to), oldest first
+   */
+  async listBetween(tenantId: string, conversationId: string, range: { from?: Date | undefined; to?: Date | undefined } = {}) {
+    return prisma.conversationNote.findMany({
+      where: {
+        tenantId,
+        conversationId,
+        ...(range.from || range.to
+          ? { createdAt: { ...(range.from ? { gte: range.from } : {}), ...(range.to ? { lt: range.to } : {}) } }
+          : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: noteSelect,
+    });
+  }
+
+  async create(tenantId: string, conversationId: string, authorId: string, input: NoteInput) {
+    const conversation = await prisma.conversation.count({ where: { id: conversationId, tenantId } });
+    if (!conversation) throw new NotFoundError('Conversation');
+
+    const mentionedUserIds = await this.resolveMentions(tenantId, authorId, input);
+
+    const note = await prisma.conversationNote.create({
+      data: { tenantId, conversationId, authorId, content: input.content, mentionedUserIds },
+      select: noteSelect,
+    });
+
+    getSocketEmitter()?.emitNewNote(tenantId, conversationId, note);
+    this.notifyMentions(mentionedUserIds, note);
+
+    logger.info({ tenantId, conversationId, noteId: note.id, mentions: mentionedUserIds.length }, 'Note added');
+
+    return note;
+  }
+
+  /**
+   * Only the author edits a note; people newly mentioned are notified
+   */
+  async update(tenantId: string, noteId: string, userId: string, input: NoteInput) {
+    const existing = await this.findOwn(tenantId, noteId, userId);
+
+    const mentionedUserIds = await this.resolveMentions(tenantId, userId, input);
+
+    const note = await prisma.conversationNote.update({
+      where: { id: noteId },
+      data: { content: input.content, mentionedUserIds },
+      select: noteSelect,
+    });
+
+    getSocketEmitter()?.emitNoteUpdate(tenantId, note.conversationId, note);
+    this.notifyMentions(mentionedUserIds.filter(id => !existing.mentionedUserIds.includes(id)), note);
+
+    return note;
+  }
+
+  async remove(tenantId: string, noteId: string, userId: string): Promise<void> {
+    const note = await this.findOwn(tenantId, noteId, userId);
+
+    await prisma.conversationNote.delete({ where: { id: noteId } });
+
+    getSocketEmitter()?.emitNoteUpdate(tenantId, note.conversationId, { id: noteId, deleted: true });
+
+    logger.info({ tenantId, noteId }, 'Note deleted');
+  }
+
+  private async findOwn(tenantId: string, noteId: string, userId: string) {
+    const note = await prisma.conversationNote.findFirst({
+      where: { id: noteId, tenantId },
+      select: { conversationId: true, authorId: true, mentionedUserIds: true },
+    });
+
+    if (!note) throw new NotFoundError('Note');
+    if (note.authorId !== userId) throw new AuthorizationError('Only the author can change a note');
+
+    return note;
+  }
+
+  /**
+   * Active team members picked or written as @handle, without the author
+   */
+  private async resolveMentions(tenantId: string, authorId: string, input: NoteInput): Promise<string[]> {
+    const team = await prisma.user.findMany({
+      where: { tenantId, isActive: true },
+      select: { id: true, email: true, name: true },
+    });
+
+    const picked = new Set(input.mentionedUserIds ?? []);
+    const ids = new Set([
+      ...team.filter(user => picked.has(user.id)).map(user => user.id),
+      ...findMentionedUsers(input.content, team),
+    ]);
+    ids.delete(authorId);
+
+    return [...ids];
+  }
+
+  private notifyMentions(userIds: string[], note: Prisma.ConversationNoteGetPayload<{ select: typeof noteSelect }>): void {
+    const emitter = getSocketEmitter();
+    for (const userId of userIds) {
+      emitter?.emitMention(userId, {
+        noteId: note.id,
+        conversationId: note.conversationId,
+        content: note.content,
+        author: note.author,
+        createdAt: note.createdAt,
+      });
+    }
+  }
+}
+
+export const conversationNotesService = new ConversationNotesService();
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError } from '../../shared/middleware/error.handler.js';
+import { whatsappService } from '../whatsapp/whatsapp.service.js';
+import { getSocketEmitter } from '../realtime/socket.handler.js';
+
+const logger = createModuleLogger('conversation-reads');
+
+export const markReadSchema = z.object({
+  messageId: z.string().optional(), // Read up to this message (default: the latest one)
+  sendReadReceipt: z.boolean().optional(), // Blue ticks for the customer (default: tenant setting)
+});
+
+export type MarkReadInput = z.infer<typeof markReadSchema>;
+
+export interface UnreadSummary {
+  conversations: number; // Conversations with customer messages the agent has not read
+  messages: number;
+}
+
+/**
+ * Per-agent read cursors. A customer message is unread for an agent when it
+ * arrived after the agent's cursor on its conversation (or there is no cursor).
+ */
+export class ConversationReadService {
+  /**
+   * Unread customer messages of each conversation for an agent
+   */
+  async unreadCounts(userId: string, conversationIds: string[]): Promise<Map<string, number>> {
+    if (conversationIds.length === 0) return new Map();
+
+    const rows = await prisma.$queryRaw<Array<{ conversationId: string; unread: number }>>`
+      SELECT m."conversationId", COUNT(*)::int AS unread
+      FROM "Message" m
+      LEFT JOIN "ConversationReadState" r
+        ON r."conversationId" = m."conversationId" AND r."userId" = ${userId}
+      WHERE m."conversationId" IN (${Prisma.join(conversationIds)})
+        AND m.direction = 'INBOUND'
+        AND (r."lastReadAt" IS NULL OR m."createdAt" > r."lastReadAt")
+      GROUP BY m."conversationId"
+    `;
+
+    return new Map(rows.map(row => [row.conversationId, row.unread]));
+  }
+
+  /**
+   * Ids of the tenant's conversations that have unread customer messages for an agent
+   */
+  async unreadConversationIds(tenantId: string, userId: string): Promise<string[]> {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id
+      FROM "Conversation" c
+      LEFT JOIN "ConversationReadState" r
+        ON r."conversationId" = c.id AND r."userId" = ${userId}
+      WHERE c."tenantId" = ${tenantId}
+        AND c."lastInboundAt" IS NOT NULL
+        AND (r."lastReadAt" IS NULL OR c."lastInboundAt" > r."lastReadAt")
+    `;
+
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Inbox badge: unread conversations and messages of the tenant for an agent
+   */
+  async summary(tenantId: string, userId: string): Promise<UnreadSummary> {
+    const ids = await this.unreadConversationIds(tenantId, userId);
+    const counts = await this.unreadCounts(userId, ids);
+
+    let messages = 0;
+    for (const count of counts.values()) messages += count;
+
+    return { conversations: counts.size, messages };
+  }
+
+  /**
+   * Move the agent's cursor up to a message. The cursor never moves back, and
+   * the customer optionally gets blue ticks for what the agent has read.
+   */
+  async markRead(tenantId: string, conversationId: string, userId: string, input: MarkReadInput = {}) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, tenantId },
+      select: { id: true, tenant: { select: { sendReadReceipts: true } } },
+    });
+
+    if (!conversation) throw new NotFoundError('Conversation');
+
+    const message = await prisma.message.findFirst({
+      where: { conversationId, ...(input.messageId ? { id: input.messageId } : {}) },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, createdAt: true },
+    });
+
+    if (input.messageId && !message) throw new NotFoundError('Message');
+
+    const lastReadAt = message?.createdAt ?? new Date();
+    const current = await prisma.conversationReadState.findUnique({
+      where: { conversationId_userId: { conversationId, userId } },
+      select: { lastReadAt: true, lastReadMessageId: true },
+    });
+
+    const state = current && current.lastReadAt >= lastReadAt
+      ? current
+      : await prisma.conversationReadState.upsert({
+        where: { conversationId_userId: { conversationId, userId } },
+        create: { conversationId, userId, lastReadAt, lastReadMessageId: message?.id ?? null },
+        update: { lastReadAt, lastReadMessageId: message?.id ?? null },
+        select: { lastReadAt: true, lastReadMessageId: true },
+      });
+
+    if (input.sendReadReceipt ?? conversation.tenant.sendReadReceipts) {
+      await this.sendReadReceipt(tenantId, conversationId, state.lastReadAt);
+    }
+
+    const [unreadCount, summary] = await Promise.all([
+      this.unreadCounts(userId, [conversationId]).then(counts => counts.get(conversationId) ?? 0),
+      this.summary(tenantId, userId),
+    ]);
+
+    const emitter = getSocketEmitter();
+    emitter?.emitUnreadCounts(userId, { conversationId, unreadCount, summary });
+    emitter?.emitConversationRead(tenantId, conversationId, { userId, ...state });
+
+    logger.debug({ tenantId, conversationId, userId, lastReadAt: state.lastReadAt }, 'Conversation marked as read');
+
+    return { conversationId, ...state, unreadCount, summary };
+  }
+
+  /**
+   * Marking the latest customer message read on WhatsApp ticks every earlier one too
+   */
+  private async sendReadReceipt(tenantId: string, conversationId: string, upTo: Date): Promise<void> {
+    const inbound = await prisma.message.findFirst({
+      where: { conversationId, direction: 'INBOUND', waMessageId: { not: null }, createdAt: { lte: upTo } },
+      orderBy: { createdAt: 'desc' },
+      select: { waMessageId: true },
+    });
+
+    if (!inbound?.waMessageId) return;
+
+    try {
+      await whatsappService.markAsRead(tenantId, inbound.waMessageId);
+    } catch (error) {
+      // The agent has still read the conversation
+      logger.warn({ error, tenantId, conversationId }, 'Failed to send read receipt');
+    }
+  }
+}
+
+export const conversationReadService = new ConversationReadService();
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { conversationsController } from './conversations.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const conversationsRoutes = Router();
+
+// All routes require authentication
+conversationsRoutes.use(authMiddleware);
+
+conversationsRoutes.get('/', (req, res, next) => conversationsController.list(req, res, next));
+conversationsRoutes.get('/unread', (req, res, next) => conversationsController.unreadSummary(req, res, next));
+// Health check (before /:id)
+conversationsRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'conversations', status: 'ok' });
+});
+conversationsRoutes.get('/:id', (req, res, next) => conversationsController.get(req, res, next));
+conversationsRoutes.patch('/:id', (req, res, next) => conversationsController.update(req, res, next));
+
+// Timeline and agent replies
+conversationsRoutes.get('/:id/messages', (req, res, next) => conversationsController.listMessages(req, res, next));
+conversationsRoutes.post('/:id/messages', (req, res, next) => conversationsController.sendMessage(req, res, next));
+
+// Internal notes (never sent to the customer)
+conversationsRoutes.post('/:id/notes', (req, res, next) => conversationsController.createNote(req, res, next));
+conversationsRoutes.patch('/notes/:noteId', (req, res, next) => conversationsController.updateNote(req, res, next));
+conversationsRoutes.delete('/notes/:noteId', (req, res, next) => conversationsController.deleteNote(req, res, next));
+
+// Read cursor of the requesting agent
+conversationsRoutes.post('/:id/read', (req, res, next) => conversationsController.markRead(req, res, next));
+
+// Snooze until a time or the customer's next message
+conversationsRoutes.post('/:id/snooze', (req, res, next) => conversationsController.snooze(req, res, next));
+conversationsRoutes.delete('/:id/snooze', (req, res, next) => conversationsController.unsnooze(req, res, next));
+
+// Human takeover
+conversationsRoutes.post('/:id/takeover', (req, res, next) => conversationsController.takeOver(req, res, next));
+conversationsRoutes.post('/:id/return-to-ai', (req, res, next) => conversationsController.returnToAi(req, res, next));
@@ -0,0 +1,378 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError, ServiceWindowClosedError, ValidationError } from '../../shared/middleware/error.handler.js';
+import { extractVariables } from '../../shared/utils/template.js';
+import { addWhatsAppSendJob } from '../../jobs/queue.js';
+import { customerServiceWindow } from '../whatsapp/whatsapp.window.js';
+import { getSocketEmitter } from '../realtime/socket.handler.js';
+import { conversationReadService } from './conversations.read.js';
+import { conversationNotesService } from './conversations.notes.js';
+import { conversationLifecycleService } from './conversations.lifecycle.js';
+import { slaService } from '../sla/sla.service.js';
+import { routingService } from '../routing/routing.service.js';
+
+const logger = createModuleLogger('conversations');
+
+const booleanFlag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export const listConversationsSchema = z.object({
+  status: z.enum(['OPEN', 'CLOSED', 'ARCHIVED']).optional(),
+  assigneeId: z.string().optional(), // A user id, "me" or "none"
+  tagId: z.string().optional(), // Tag of the contact
+  channelId: z.string().optional(),
+  aiEnabled: booleanFlag.optional(),
+  unread: booleanFlag.optional(), // Unread by the requesting agent
+  snoozed: booleanFlag.optional(), // Snoozed conversations are hidden unless asked for
+  cursor: z.string().optional(), // Id of the last conversation of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export const listMessagesSchema = z.object({
+  cursor: z.string().optional(), // Id of the oldest message already loaded
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const sendAgentMessageSchema = z.object({
+  content: z.string().min(1).max(4096),
+});
+
+export const updateConversationSchema = z.object({
+  isAiEnabled: z.boolean().optional(),
+  status: z.enum(['OPEN', 'CLOSED', 'ARCHIVED']).optional(),
+});
+
+export type ListConversationsInput = z.infer<typeof listConversationsSchema>;
+export type ListMessagesInput = z.infer<typeof listMessagesSchema>;
+export type UpdateConversationInput = z.infer<typeof updateConversationSchema>;
+
+const conversationInclude = {
+  contact: {
+    include: {
+      tags: { include: { tag: { select: { id: true, name: true, color: true } } } },
+    },
+  },
+  channel: { select: { id: true, name: true, displayPhoneNumber: true } },
+  assignments: {
+    where: { isActive: true },
+    select: { assignedAt: true, user: { select: { id: true, name: true, email: true } } },
+  },
+  sla: {
+    select: {
+      startedAt: true,
+      firstResponseDueAt: true,
+      firstResponseAt: true,
+      firstResponseBreached: true,
+      nextResponseDueAt: true,
+      nextResponseBreached: true,
+      resolutionDueAt: true,
+      resolvedAt: true,
+      resolutionBreached: true,
+    },
+  },
+  messages: {
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+  },
+  readStates: {
+    orderBy: { lastReadAt: 'desc' },
+    select: { lastReadAt: true, lastReadMessageId: true, user: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.ConversationInclude;
+
+type ConversationWithRelations = Prisma.ConversationGetPayload<{ include: typeof conversationInclude }>;
+
+export class ConversationsService {
+  /**
+   * Inbox list, most recent activity first, paginated with a cursor
+   */
+  async list(tenantId: string, userId: string, input: ListConversationsInput) {
+    const now = new Date();
+    const where: Prisma.ConversationWhereInput = {
+      tenantId,
+      ...(input.snoozed
+        ? { snoozedUntil: { gt: now } }
+        : { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] }),
+      ...(input.status ? { status: input.status } : {}),
+      ...(input.channelId ? { channelId: input.channelId } : {}),
+      ...(input.aiEnabled !== undefined ? { isAiEnabled: input.aiEnabled } : {}),
+      ...(input.tagId ? { contact: { tags: { some: { tagId: input.tagId } } } } : {}),
+      ...this.assigneeFilter(input.assigneeId, userId),
+      ...await this.unreadFilter(tenantId, userId, input.unread),
+    };
+
+    const conversations = await prisma.conversation.findMany({
+      where,
+      include: conversationInclude,
+      orderBy: [{ lastMessageAt: 'desc' }, { id: 'desc' }],
+      take: input.limit + 1,
+      ...(input.cursor ? { cursor: { id: input.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = conversations.length > input.limit;
+    const page = conversations.slice(0, input.limit);
+    const unread = await conversationReadService.unreadCounts(userId, page.map(c => c.id));
+
+    return {
+      data: page.map(c => this.present(c, userId, unread.get(c.id) ?? 0)),
+      pagination: {
+        limit: input.limit,
+        nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null,
+      },
+    };
+  }
+
+  async get(tenantId: string, userId: string, id: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id, tenantId },
+      include: conversationInclude,
+    });
+
+    if (!conversation) throw new NotFoundError('Conversation');
+
+    const unread = await conversationReadService.unreadCounts(userId, [id]);
+    return this.present(conversation, userId, unread.get(id) ?? 0);
+  }
+
+  /**
+   * Timeline of a conversation in chronological order: messages, with the
+   * internal notes written in between. The cursor loads older pages.
+   */
+  async listMessages(tenantId: string, conversationId: string, input: ListMessagesInput) {
+    await this.assertExists(tenantId, conversationId);
+
+    const messages = await prisma.message.findMany({
+      where: { tenantId, conversationId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: input.limit + 1,
+      ...(input.cursor ? { cursor: { id: input.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = messages.length > input.limit;
+    const page = messages.slice(0, input.limit).reverse();
+
+    // Notes from the oldest message of this page up to where the newer page starts
+    const newer = input.cursor
+      ? await prisma.message.findFirst({ where: { id: input.cursor, conversationId }, select: { createdAt: true } })
+      : null;
+    const notes = await conversationNotesService.listBetween(tenantId, conversationId, {
+      from: hasMore ? page[0]?.createdAt : undefined,
+      to: newer?.createdAt,
+    });
+
+    const timeline = [
+      ...page.map(message => ({ kind: 'message' as const, ...message })),
+      ...notes.map(note => ({ kind: 'note' as const, ...note })),
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return {
+      data: timeline,
+      pagination: {
+        limit: input.limit,
+        nextCursor: hasMore ? page[0]?.id ?? null : null,
+      },
+    };
+  }
+
+  /**
+   * Reply as an agent: saved right away, delivered by the WhatsApp worker
+   */
+  async sendMessage(tenantId: string, conversationId: string, userId: string, content: string) {
+    // A canned response that still has {{placeholders}} was not filled in
+    const missingVariables = extractVariables(content);
+    if (missingVariables.length > 0) {
+      throw new ValidationError('Fill in the template variables before sending', { missingVariables });
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, tenantId },
+      select: { id: true, channelId: true, contact: { select: { phone: true } } },
+    });
+
+    if (!conversation) throw new NotFoundError('Conversation');
+
+    const window = await customerServiceWindow.getWindow(tenantId, conversation.contact.phone, conversation.channelId);
+    if (!window.isOpen) {
+      throw new ServiceWindowClosedError(window.lastInboundAt);
+    }
+
+    const [message] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          tenantId,
+          conversationId,
+          direction: 'OUTBOUND',
+          type: 'TEXT',
+          content,
+          waStatus: 'PENDING',
+          isAiGenerated: false,
+        },
+      }),
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { lastMessageAt: new Date() },
+      }),
+    ]);
+
+    await addWhatsAppSendJob({
+      tenantId,
+      to: conversation.contact.phone,
+      message: content,
+      conversationId,
+      messageId: message.id,
+      channelId: conversation.channelId,
+    });
+
+    getSocketEmitter()?.emitNewMessage(tenantId, conversationId, message);
+    await slaService.onAgentReply(conversationId, message.createdAt);
+
+    // An agent answering has seen what the customer wrote
+    await conversationReadService.markRead(tenantId, conversationId, userId, { messageId: message.id });
+
+    logger.info({ tenantId, conversationId, userId, messageId: message.id }, 'Agent reply queued');
+
+    return message;
+  }
+
+  /**
+   * Toggle the AI or change the status (close, archive, reopen)
+   */
+  async update(tenantId: string, conversationId: string, userId: string, input: UpdateConversationInput) {
+    await this.assertExists(tenantId, conversationId);
+
+    // Closing goes through the lifecycle so webhooks hear about it
+    if (input.status === 'CLOSED') {
+      await conversationLifecycleService.close(tenantId, conversationId, 'manual', userId);
+    }
+
+    const data: Prisma.ConversationUpdateInput = {};
+    if (input.isAiEnabled !== undefined) data.isAiEnabled = input.isAiEnabled;
+    if (input.status !== undefined && input.status !== 'CLOSED') data.status = input.status;
+    if (input.status === 'OPEN') Object.assign(data, { closedAt: null, closeReason: null });
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data,
+      select: { id: true, status: true, isAiEnabled: true, aiTakenOver: true, closedAt: true, snoozedUntil: true },
+    });
+
+    getSocketEmitter()?.emitConversationUpdate(tenantId, conversationId, conversation);
+
+    logger.info({ tenantId, conversationId, changes: input }, 'Conversation updated');
+
+    return conversation;
+  }
+
+  /**
+   * A human takes the conversation from the AI and becomes its only assignee
+   */
+  async takeOver(tenantId: string, conversationId: string, userId: string) {
+    await this.assertExists(tenantId, conversationId);
+
+    const [conversation] = await prisma.$transaction([
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { aiTakenOver: true, routingQueuedAt: null },
+        select: { id: true, status: true, isAiEnabled: true, aiTakenOver: true },
+      }),
+      // Whoever routing gave it to no longer has it, nor counts it against their capacity
+      prisma.conversationAssignment.updateMany({
+        where: { conversationId, isActive: true, userId: { not: userId } },
+        data: { isActive: false },
+      }),
+      prisma.conversationAssignment.upsert({
+        where: { conversationId_userId: { conversationId, userId } },
+        create: { conversationId, userId, assignedBy: userId, isActive: true },
+        update: { isActive: true, assignedAt: new Date(), assignedBy: userId },
+      }),
+    ]);
+
+    await slaService.start(tenantId, conversationId);
+
+    getSocketEmitter()?.emitConversationUpdate(tenantId, conversationId, { ...conversation, assigneeId: userId });
+    await routingService.notifyAssigned(tenantId, conversationId, userId, userId, 'takeover');
+    // The agent it was routed to may have room for a waiting conversation
+    await routingService.drainQueue(tenantId);
+
+    logger.info({ tenantId, conversationId, userId }, 'Conversation taken over by agent');
+
+    return conversation;
+  }
+
+  /**
+   * Hand the conversation back to the AI and release its agents
+   */
+  async returnToAi(tenantId: string, conversationId: string, userId: string) {
+    await this.assertExists(tenantId, conversationId);
+
+    const [conversation] = await prisma.$transaction([
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { aiTakenOver: false, isAiEnabled: true, routingQueuedAt: null },
+        select: { id: true, status: true, isAiEnabled: true, aiTakenOver: true },
+      }),
+      prisma.conversationAssignment.updateMany({
+        where: { conversationId, isActive: true },
+        data: { isActive: false },
+      }),
+    ]);
+
+    // Humans are done with it
+    await slaService.onResolved(conversationId);
+    await routingService.drainQueue(tenantId);
+
+    getSocketEmitter()?.emitConversationUpdate(tenantId, conversationId, { ...conversation, assigneeId: null });
+
+    logger.info({ tenantId, conversationId, userId }, 'Conversation returned to AI');
+
+    return conversation;
+  }
+
+  private assigneeFilter(assigneeId: string | undefined, userId: string): Prisma.ConversationWhereInput {
+    if (!assigneeId) return {};
+    if (assigneeId === 'none') return { assignments: { none: { isActive: true } } };
+
+    const id = assigneeId === 'me' ? userId : assigneeId;
+    return { assignments: { some: { userId: id, isActive: true } } };
+  }
+
+  private async unreadFilter(
+    tenantId: string,
+    userId: string,
+    unread: boolean | undefined
+  ): Promise<Prisma.ConversationWhereInput> {
+    if (unread === undefined) return {};
+
+    const ids = await conversationReadService.unreadConversationIds(tenantId, userId);
+    return { id: unread ? { in: ids } : { notIn: ids } };
+  }
+
+  private async assertExists(tenantId: string, conversationId: string): Promise<void> {
+    const exists = await prisma.conversation.count({ where: { id: conversationId, tenantId } });
+    if (!exists) throw new NotFoundError('Conversation');
+  }
+
+  /**
+   * Shape used by the inbox: flat tags, current assignee, last message and
+   * how far each agent has read
+   */
+  private present(conversation: ConversationWithRelations, userId: string, unreadCount: number) {
+    const { messages, assignments, contact, readStates, ...rest } = conversation;
+
+    return {
+      ...rest,
+      contact: {
+        ...contact,
+        tags: contact.tags.map(t => t.tag),
+      },
+      assignee: assignments[0]?.user ?? null,
+      lastMessage: messages[0] ?? null,
+      unreadCount,
+      lastReadAt: readStates.find(r => r.user.id === userId)?.lastReadAt ?? null,
+      seenBy: readStates,
+    };
+  }
+}
+
+export const conversationsService = new ConversationsService();
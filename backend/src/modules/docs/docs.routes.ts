@@ -298,6 +298,16 @@ const openApiSpec = {
         },
       },
     },
+    '/conversations/{conversationId}/notes': {
+      get: {
+        summary: 'Obtener notas internas de conversacion (requiere NOTES_READ)',
+        tags: ['Conversations'],
+        parameters: [{ name: 'conversationId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: { description: 'Lista de notas internas' },
+        },
+      },
+    },
     '/appointments': {
       get: {
         summary: 'Listar citas',
@@ -407,6 +417,7 @@ const openApiSpec = {
                         totalMessages: { type: 'integer' },
                         messagesThisMonth: { type: 'integer' },
                         appointmentsThisWeek: { type: 'integer' },
+                        slaThisMonth: { type: 'object', description: 'Cumplimiento de SLA de conversaciones atendidas por humanos' },
                       },
                     },
                   },
@@ -170,6 +170,14 @@ export const groqCircuitBreaker = new CircuitBreaker({
   windowSize: 60,
 });
 
+// Shared by all LLM providers, keyed by provider name
+export const llmCircuitBreaker = new CircuitBreaker({
+  failureThreshold: 3,
+  successThreshold: 1,
+  timeout: 30,
+  windowSize: 60,
+});
+
 export const googleCircuitBreaker = new CircuitBreaker({
   failureThreshold: 5,
   successThreshold: 2,
@@ -4,6 +4,7 @@ export {
   CircuitBreaker, 
   whatsappCircuitBreaker, 
   groqCircuitBreaker, 
+  llmCircuitBreaker,
   googleCircuitBreaker,
   type CircuitState,
   type CircuitBreakerConfig,
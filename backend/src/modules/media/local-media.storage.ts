@@ -0,0 +1,46 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import type { MediaStorage } from './media.storage.js';
+
+/**
+ * Files on the local disk, for development and tests
+ */
+export class LocalMediaStorage implements MediaStorage {
+  readonly driver = 'local';
+
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(path: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.resolvePath(path);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(path: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolvePath(path));
+    } catch {
+      throw new AppError(404, 'MEDIA_NOT_FOUND', 'Media file not found');
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await rm(this.resolvePath(path), { force: true });
+  }
+
+  /**
+   * Keep every path inside the storage root
+   */
+  private resolvePath(path: string): string {
+    const file = resolve(this.root, path);
+    if (!file.startsWith(this.root + sep)) {
+      throw new AppError(400, 'INVALID_MEDIA_PATH', 'Invalid media path');
+    }
+    return file;
+  }
+}
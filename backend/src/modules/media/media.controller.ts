@@ -0,0 +1,45 @@
+import type { Request, Response, NextFunction } from 'express';
+import { mediaService } from './media.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class MediaController {
+  /**
+   * GET /api/media/messages/:messageId
+   * Stream a message's media (add ?download=1 to save it as a file)
+   */
+  async getMessageMedia(
+    req: Request,
+    res: Response<ApiResponse | Buffer>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const media = await mediaService.getMessageMedia(req.context.tenantId, req.params.messageId as string);
+      const disposition = req.query.download ? 'attachment' : 'inline';
+
+      res.setHeader('Content-Type', media.mediaType);
+      res.setHeader('Content-Length', media.data.length);
+      res.setHeader('Content-Disposition', contentDisposition(disposition, media.fileName));
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.send(media.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const mediaController = new MediaController();
+
+// ASCII fallback for old clients, the real (possibly non-ASCII) name in filename*
+function contentDisposition(disposition: 'attachment' | 'inline', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
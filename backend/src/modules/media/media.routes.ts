@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { mediaController } from './media.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const mediaRoutes = Router();
+
+// All routes require authentication
+mediaRoutes.use(authMiddleware);
+
+mediaRoutes.get('/messages/:messageId', (req, res, next) => mediaController.getMessageMedia(req, res, next));
+
+// Health check
+mediaRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'media', status: 'ok' });
+});
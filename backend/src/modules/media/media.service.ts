@@ -0,0 +1,156 @@
+import { extname } from 'node:path';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { AppError, NotFoundError } from '../../shared/middleware/error.handler.js';
+import { whatsappService, type UploadedMedia } from '../whatsapp/whatsapp.service.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { getMediaStorage } from './media.storage.js';
+
+const logger = createModuleLogger('media');
+
+// File extensions for the MIME types WhatsApp sends
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/amr': '.amr',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf',
+};
+
+export interface StoredMedia {
+  data: Buffer;
+  mediaType: string;
+  fileName: string;
+}
+
+export class MediaService {
+  /**
+   * Download an inbound message's media from WhatsApp and keep it in media storage
+   */
+  async storeInboundMedia(tenantId: string, messageId: string) {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, tenantId },
+      select: {
+        id: true,
+        conversationId: true,
+        waMediaId: true,
+        mediaType: true,
+        fileName: true,
+        mediaPath: true,
+        mediaUrl: true,
+        mediaSize: true,
+        conversation: { select: { channelId: true } },
+      },
+    });
+
+    if (!message) throw new NotFoundError('Message');
+
+    // Already stored (e.g. a retried job)
+    if (message.mediaPath) {
+      return { mediaUrl: message.mediaUrl, mediaSize: message.mediaSize };
+    }
+
+    if (!message.waMediaId) {
+      throw new AppError(400, 'NO_MEDIA', 'Message has no media');
+    }
+
+    const { data, mimeType } = await whatsappService.downloadMedia(
+      tenantId,
+      message.waMediaId,
+      message.conversation.channelId
+    );
+    const path = `${tenantId}/${message.conversationId}/${message.id}${this.extensionFor(mimeType, message.fileName)}`;
+
+    await getMediaStorage().put(path, data, mimeType);
+
+    const updated = await prisma.message.update({
+      where: { id: message.id },
+      data: {
+        mediaPath: path,
+        mediaSize: data.length,
+        mediaType: mimeType,
+        mediaUrl: this.mediaUrlFor(message.id),
+      },
+      select: { mediaUrl: true, mediaSize: true, mediaType: true },
+    });
+
+    emitToTenant(tenantId, 'media_ready', {
+      conversationId: message.conversationId,
+      messageId: message.id,
+      ...updated,
+    });
+
+    logger.info({ tenantId, messageId, size: data.length, mimeType }, 'Inbound media stored');
+
+    return { mediaUrl: updated.mediaUrl, mediaSize: updated.mediaSize };
+  }
+
+  /**
+   * Keep a copy of media an agent sent, so the inbox can show it like inbound media
+   */
+  async storeOutboundMedia(
+    tenantId: string,
+    message: { id: string; conversationId: string },
+    file: UploadedMedia
+  ) {
+    const path = `${tenantId}/${message.conversationId}/${message.id}${this.extensionFor(file.mimeType, file.fileName)}`;
+
+    await getMediaStorage().put(path, file.data, file.mimeType);
+
+    return prisma.message.update({
+      where: { id: message.id },
+      data: {
+        mediaPath: path,
+        mediaSize: file.data.length,
+        mediaUrl: this.mediaUrlFor(message.id),
+      },
+      select: { mediaUrl: true, mediaSize: true, mediaType: true },
+    });
+  }
+
+  /**
+   * Read a message's stored media, scoped to the tenant
+   */
+  async getMessageMedia(tenantId: string, messageId: string): Promise<StoredMedia> {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, tenantId },
+      select: { id: true, mediaPath: true, mediaType: true, fileName: true },
+    });
+
+    if (!message) throw new NotFoundError('Message');
+
+    if (!message.mediaPath) {
+      throw new AppError(404, 'MEDIA_NOT_FOUND', 'Media not available yet');
+    }
+
+    const data = await getMediaStorage().get(message.mediaPath);
+    const mediaType = message.mediaType ?? 'application/octet-stream';
+
+    return {
+      data,
+      mediaType,
+      fileName: message.fileName ?? `${message.id}${this.extensionFor(mediaType, null)}`,
+    };
+  }
+
+  /**
+   * Stable URL served by the authenticated media endpoint
+   */
+  mediaUrlFor(messageId: string): string {
+    return `/api/media/messages/${messageId}`;
+  }
+
+  private extensionFor(mimeType: string, fileName: string | null): string {
+    // Drop parameters such as "audio/ogg; codecs=opus"
+    const baseType = mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+    return MIME_EXTENSIONS[baseType] ?? (fileName ? extname(fileName).toLowerCase() : '');
+  }
+}
+
+export const mediaService = new MediaService();
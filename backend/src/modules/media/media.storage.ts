@@ -0,0 +1,31 @@
+import { env } from '../../config/env.js';
+import { SupabaseMediaStorage } from './supabase-media.storage.js';
+import { LocalMediaStorage } from './local-media.storage.js';
+
+export interface MediaStorage {
+  readonly driver: string;
+
+  /**
+   * Store a file, replacing any existing file at the same path
+   */
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+
+  get(path: string): Promise<Buffer>;
+
+  delete(path: string): Promise<void>;
+}
+
+let mediaStorage: MediaStorage | null = null;
+
+/**
+ * Get the media storage configured for this deployment
+ */
+export function getMediaStorage(): MediaStorage {
+  if (!mediaStorage) {
+    mediaStorage = env.MEDIA_STORAGE_DRIVER === 'local'
+      ? new LocalMediaStorage(env.MEDIA_LOCAL_DIR)
+      : new SupabaseMediaStorage(env.MEDIA_BUCKET);
+  }
+
+  return mediaStorage;
+}
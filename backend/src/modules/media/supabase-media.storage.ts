@@ -0,0 +1,36 @@
+import { supabase } from '../../config/database.js';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import type { MediaStorage } from './media.storage.js';
+
+/**
+ * Private Supabase Storage bucket; files are only served through the API
+ */
+export class SupabaseMediaStorage implements MediaStorage {
+  readonly driver = 'supabase';
+
+  constructor(private bucket: string) {}
+
+  async put(path: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(path, data, { contentType, upsert: true });
+
+    if (error) {
+      throw new AppError(500, 'MEDIA_STORAGE_ERROR', `Failed to store media: ${error.message}`);
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const { data, error } = await supabase.storage.from(this.bucket).download(path);
+
+    if (error || !data) {
+      throw new AppError(404, 'MEDIA_NOT_FOUND', 'Media file not found');
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(path: string): Promise<void> {
+    await supabase.storage.from(this.bucket).remove([path]);
+  }
+}
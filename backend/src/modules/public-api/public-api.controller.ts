@@ -1,7 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
 import { prisma } from '../../config/database.js';
 import type { ApiResponse } from '../../shared/types/index.js';
-import { AppError } from '../../shared/middleware/error.handler.js';
+import { AppError, ServiceWindowClosedError } from '../../shared/middleware/error.handler.js';
+import { customerServiceWindow } from '../whatsapp/whatsapp.window.js';
+import { addWhatsAppSendJob } from '../../jobs/queue.js';
+import { conversationLifecycleService } from '../conversations/conversations.lifecycle.js';
+import { slaService } from '../sla/sla.service.js';
 import type { AppointmentStatus } from '@prisma/client';
 
 export class PublicApiController {
@@ -30,6 +34,12 @@ export class PublicApiController {
         return;
       }
 
+      // Free-form text is only delivered within 24h of the customer's last message
+      const window = await customerServiceWindow.getWindow(tenantId, phone);
+      if (!window.isOpen) {
+        throw new ServiceWindowClosedError(window.lastInboundAt);
+      }
+
       // Find or create contact
       let contact = await prisma.contact.findFirst({
         where: { tenantId, phone },
@@ -81,6 +91,15 @@ export class PublicApiController {
         data: { lastMessageAt: new Date() },
       });
 
+      await addWhatsAppSendJob({
+        tenantId,
+        to: contact.phone,
+        message: content,
+        conversationId: conversation.id,
+        messageId: message.id,
+        channelId: conversation.channelId,
+      });
+
       res.status(201).json({
         success: true,
         data: {
@@ -134,6 +153,49 @@ export class PublicApiController {
     }
   }
 
+  /**
+   * GET /api/v1/conversations/:conversationId/notes
+   * Internal notes of the agents (needs its own scope)
+   */
+  async getNotes(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const tenantId = req.apiKey!.tenantId;
+      const { conversationId } = req.params;
+
+      const conversation = await prisma.conversation.findFirst({
+        where: { id: conversationId as string, tenantId },
+      });
+
+      if (!conversation) {
+        throw new AppError(404, 'NOT_FOUND', 'Conversation not found');
+      }
+
+      const notes = await prisma.conversationNote.findMany({
+        where: { conversationId: conversationId as string },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          content: true,
+          mentionedUserIds: true,
+          authorId: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: notes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ============================================
   // CONTACTS
   // ============================================
@@ -334,11 +396,12 @@ export class PublicApiController {
   ): Promise<void> {
     try {
       const tenantId = req.apiKey!.tenantId;
-      const { limit = '50', offset = '0', status } = req.query;
+      const { limit = '50', offset = '0', status, channelId } = req.query;
 
       const where = {
         tenantId,
         ...(status && { status: status as 'OPEN' | 'CLOSED' | 'ARCHIVED' }),
+        ...(channelId && { channelId: channelId as string }),
       };
 
       const [conversations, total] = await Promise.all([
@@ -349,6 +412,7 @@ export class PublicApiController {
           skip: parseInt(offset as string, 10),
           include: {
             contact: true,
+            channel: { select: { id: true, name: true, displayPhoneNumber: true } },
             messages: {
               take: 1,
               orderBy: { createdAt: 'desc' },
@@ -432,10 +496,7 @@ export class PublicApiController {
         throw new AppError(404, 'NOT_FOUND', 'Conversation not found');
       }
 
-      const conversation = await prisma.conversation.update({
-        where: { id: id as string },
-        data: { status: 'CLOSED' },
-      });
+      const conversation = await conversationLifecycleService.close(tenantId, id as string, 'manual');
 
       res.json({
         success: true,
@@ -699,6 +760,7 @@ export class PublicApiController {
         totalMessages,
         messagesThisMonth,
         appointmentsThisWeek,
+        slaThisMonth,
       ] = await Promise.all([
         prisma.contact.count({ where: { tenantId } }),
         prisma.conversation.count({ where: { tenantId } }),
@@ -718,6 +780,7 @@ export class PublicApiController {
             scheduledAt: { gte: startOfWeek },
           },
         }),
+        slaService.getMetrics(tenantId, { from: startOfMonth }),
       ]);
 
       res.json({
@@ -729,6 +792,7 @@ export class PublicApiController {
           totalMessages,
           messagesThisMonth,
           appointmentsThisWeek,
+          slaThisMonth,
         },
       });
     } catch (error) {
@@ -21,6 +21,11 @@ publicApiRoutes.get('/conversations/:conversationId/messages', requireScope('MES
   publicApiController.getMessages(req, res, next)
 );
 
+// Internal notes of the agents, only with their own scope
+publicApiRoutes.get('/conversations/:conversationId/notes', requireScope('NOTES_READ'), (req, res, next) =>
+  publicApiController.getNotes(req, res, next)
+);
+
 // ============================================
 // CONTACTS
 // ============================================
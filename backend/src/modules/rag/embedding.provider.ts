@@ -0,0 +1,53 @@
+import { env } from '../../config/env.js';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { LocalEmbeddingProvider } from './local-embedding.provider.js';
+import { HttpEmbeddingProvider } from './http-embedding.provider.js';
+
+export interface EmbeddingProvider {
+  /** Identifier stored on each chunk, so vectors from different models are never compared */
+  readonly modelId: string;
+  readonly dimensions: number;
+
+  /**
+   * Embed a batch of texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Check that every vector has the configured number of dimensions
+ */
+export function assertDimensions(provider: EmbeddingProvider, vectors: number[][]): void {
+  for (const vector of vectors) {
+    if (vector.length !== provider.dimensions) {
+      throw new AppError(
+        500,
+        'EMBEDDING_DIMENSIONS_MISMATCH',
+        `Embedding model ${provider.modelId} returned ${vector.length} dimensions, expected ${provider.dimensions}`
+      );
+    }
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the embedding provider configured for this deployment
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = env.EMBEDDING_PROVIDER === 'http'
+      ? new HttpEmbeddingProvider({
+        url: env.EMBEDDING_API_URL,
+        apiKey: env.EMBEDDING_API_KEY,
+        model: env.EMBEDDING_MODEL,
+        dimensions: env.EMBEDDING_DIMENSIONS,
+      })
+      : new LocalEmbeddingProvider({
+        model: env.EMBEDDING_MODEL,
+        dimensions: env.EMBEDDING_DIMENSIONS,
+      });
+  }
+
+  return embeddingProvider;
+}
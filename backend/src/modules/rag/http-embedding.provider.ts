@@ -0,0 +1,65 @@
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { assertDimensions, type EmbeddingProvider } from './embedding.provider.js';
+
+const logger = createModuleLogger('embeddings-http');
+
+interface EmbeddingsApiResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Embeddings from an OpenAI-compatible HTTP endpoint (OpenAI, Ollama, TEI, llama.cpp server...)
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  readonly dimensions: number;
+
+  private url: string;
+  private apiKey: string | undefined;
+
+  constructor(config: { url: string | undefined; apiKey: string | undefined; model: string; dimensions: number }) {
+    if (!config.url) {
+      throw new AppError(500, 'EMBEDDING_NOT_CONFIGURED', 'EMBEDDING_API_URL is required for the http embedding provider');
+    }
+
+    this.url = config.url;
+    this.apiKey = config.apiKey;
+    this.modelId = config.model;
+    this.dimensions = config.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      // Models that can shorten their vectors (e.g. text-embedding-3) return the configured size
+      body: JSON.stringify({ model: this.modelId, input: texts, dimensions: this.dimensions }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      logger.error({ url: this.url, status: response.status, error: errorBody }, 'Embedding API error');
+      throw new AppError(502, 'EMBEDDING_API_ERROR', `Embedding API error: ${response.statusText}`);
+    }
+
+    const body = await response.json() as EmbeddingsApiResponse;
+    const vectors = [...body.data]
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+
+    if (vectors.length !== texts.length) {
+      throw new AppError(502, 'EMBEDDING_API_ERROR', `Embedding API returned ${vectors.length} vectors for ${texts.length} inputs`);
+    }
+
+    assertDimensions(this, vectors);
+    return vectors;
+  }
+}
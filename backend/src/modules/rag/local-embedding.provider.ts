@@ -0,0 +1,51 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { assertDimensions, type EmbeddingProvider } from './embedding.provider.js';
+
+const logger = createModuleLogger('embeddings-local');
+
+/**
+ * Sentence embeddings computed in-process on the CPU with transformers.js (ONNX)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  readonly dimensions: number;
+
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(config: { model: string; dimensions: number }) {
+    this.modelId = config.model;
+    this.dimensions = config.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const vectors = output.tolist() as number[][];
+
+    assertDimensions(this, vectors);
+    return vectors;
+  }
+
+  /**
+   * Load the model once and share it (the ONNX runtime is only imported on first use)
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const { pipeline } = await import('@huggingface/transformers');
+        logger.info({ model: this.modelId }, 'Loading local embedding model');
+        return pipeline('feature-extraction', this.modelId, { dtype: 'q8' });
+      })();
+
+      // Allow a retry if the model fails to load
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+
+    return this.extractor;
+  }
+}
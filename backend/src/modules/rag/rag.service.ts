@@ -5,15 +5,13 @@ import { createModuleLogger } from '../../shared/utils/logger.js';
 import { AppError, ValidationError } from '../../shared/middleware/error.handler.js';
 import pdfParse from 'pdf-parse';
 import * as XLSX from 'xlsx';
+import { getEmbeddingProvider } from './embedding.provider.js';
 
 const logger = createModuleLogger('rag');
 
-// Groq SDK reserved for future embedding API integration
-
-// Embedding dimensions for text-embedding-3-small equivalent
-const EMBEDDING_DIMENSIONS = 1536;
 const CHUNK_SIZE = 1000; // characters per chunk
 const CHUNK_OVERLAP = 200;
+const EMBEDDING_BATCH_SIZE = 32; // chunks embedded per provider call
 
 export interface DocumentUploadResult {
   documentId: string;
@@ -23,12 +21,19 @@ export interface DocumentUploadResult {
 }
 
 export interface RAGSearchResult {
+  chunkId: string;
+  documentId: string;
   content: string;
   score: number;
   documentName: string;
   pageNumber?: number;
 }
 
+export interface RAGContext {
+  context: string;
+  sources: RAGSearchResult[];
+}
+
 export class RAGService {
   /**
    * Upload and process a document
@@ -129,25 +134,27 @@ export class RAGService {
       const chunks = this.chunkText(text);
 
       // Generate embeddings and store chunks
-      let chunkIndex = 0;
-      for (const chunk of chunks) {
-        const embedding = await this.generateEmbedding(chunk.content);
-
-        // Store chunk with embedding using raw SQL for vector type
-        await prisma.$executeRaw`
-          INSERT INTO "DocumentChunk" (id, content, embedding, "pageNumber", "chunkIndex", "documentId", "createdAt")
-          VALUES (
-            ${this.generateId()},
-            ${chunk.content},
-            ${embedding}::vector,
-            ${chunk.pageNumber},
-            ${chunkIndex},
-            ${documentId},
-            NOW()
-          )
-        `;
-
-        chunkIndex++;
+      const { modelId } = getEmbeddingProvider();
+      for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const embeddings = await this.generateEmbeddings(batch.map(c => c.content));
+
+        for (const [i, chunk] of batch.entries()) {
+          // Store chunk with embedding using raw SQL for vector type
+          await prisma.$executeRaw`
+            INSERT INTO "DocumentChunk" (id, content, embedding, "embeddingModel", "pageNumber", "chunkIndex", "documentId", "createdAt")
+            VALUES (
+              ${this.generateId()},
+              ${chunk.content},
+              ${embeddings[i]}::vector,
+              ${modelId},
+              ${chunk.pageNumber},
+              ${start + i},
+              ${documentId},
+              NOW()
+            )
+          `;
+        }
       }
 
       // Update document status
@@ -182,27 +189,39 @@ export class RAGService {
   /**
    * Search documents using semantic similarity
    */
-  async search(tenantId: string, query: string, limit = 5): Promise<RAGSearchResult[]> {
+  async search(tenantId: string, query: string, limit = 5, minScore = 0): Promise<RAGSearchResult[]> {
     // Generate embedding for query
-    const queryEmbedding = await this.generateEmbedding(query);
+    const { modelId, dimensions } = getEmbeddingProvider();
+    const [queryEmbedding] = await this.generateEmbeddings([query]);
 
     // Search using cosine similarity
     const results = await prisma.$queryRaw<Array<{
+      chunkId: string;
+      documentId: string;
       content: string;
       score: number;
       documentName: string;
       pageNumber: number | null;
     }>>`
-      SELECT 
-        dc.content,
-        1 - (dc.embedding <=> ${queryEmbedding}::vector) as score,
-        d.name as "documentName",
-        dc."pageNumber"
-      FROM "DocumentChunk" dc
-      JOIN "Document" d ON dc."documentId" = d.id
-      WHERE d."tenantId" = ${tenantId}
-        AND d.status = 'COMPLETED'
-      ORDER BY dc.embedding <=> ${queryEmbedding}::vector
+      SELECT
+        c."chunkId",
+        c."documentId",
+        c.content,
+        1 - (c.embedding <=> ${queryEmbedding}::vector) as score,
+        c."documentName",
+        c."pageNumber"
+      FROM (
+        SELECT dc.id as "chunkId", dc."documentId", dc.content, dc.embedding, d.name as "documentName", dc."pageNumber"
+        FROM "DocumentChunk" dc
+        JOIN "Document" d ON dc."documentId" = d.id
+        WHERE d."tenantId" = ${tenantId}
+          AND d.status = 'COMPLETED'
+          AND dc."embeddingModel" = ${modelId}
+          AND vector_dims(dc.embedding) = ${dimensions}
+        OFFSET 0 -- Filter first: comparing vectors of another size is an error
+      ) c
+      WHERE 1 - (c.embedding <=> ${queryEmbedding}::vector) >= ${minScore}
+      ORDER BY c.embedding <=> ${queryEmbedding}::vector
       LIMIT ${limit}
     `;
 
@@ -211,6 +230,8 @@ export class RAGService {
 
     return results.map(r => {
       const result: RAGSearchResult = {
+        chunkId: r.chunkId,
+        documentId: r.documentId,
         content: r.content,
         score: r.score,
         documentName: r.documentName,
@@ -221,20 +242,27 @@ export class RAGService {
   }
 
   /**
-   * Get context for AI from RAG
+   * Get context for AI from RAG, along with the chunks it was built from
    */
-  async getContextForQuery(tenantId: string, query: string): Promise<string> {
-    const results = await this.search(tenantId, query, 3);
+  async getContextForQuery(
+    tenantId: string,
+    query: string,
+    options: { limit?: number; minScore?: number } = {}
+  ): Promise<RAGContext> {
+    const results = await this.search(tenantId, query, options.limit ?? 3, options.minScore ?? 0);
 
     if (results.length === 0) {
-      return '';
+      return { context: '', sources: [] };
     }
 
     const context = results
       .map((r, i) => `[Fuente ${i + 1}: ${r.documentName}]\n${r.content}`)
       .join('\n\n');
 
-    return `INFORMACIÓN RELEVANTE DE DOCUMENTOS:\n${context}`;
+    return {
+      context: `INFORMACIÓN RELEVANTE DE DOCUMENTOS:\n${context}`,
+      sources: results,
+    };
   }
 
   /**
@@ -283,33 +311,49 @@ export class RAGService {
   }
 
   /**
-   * Generate embedding using Groq (or fallback to simple hash)
+   * Re-embed chunks produced by a different model or with other dimensions than the
+   * configured ones (used by the backfill script after switching provider or dimensions)
    */
-  private async generateEmbedding(text: string): Promise<string> {
-    // Note: Groq doesn't have embedding API yet, so we use a simple approach
-    // In production, use OpenAI embeddings or a dedicated embedding service
-    
-    // For now, create a deterministic pseudo-embedding based on text hash
-    // This is a placeholder - replace with real embeddings in production
-    const hash = this.simpleHash(text);
-    const embedding = new Array(EMBEDDING_DIMENSIONS).fill(0).map((_, i) => {
-      return Math.sin(hash + i) * 0.5;
-    });
+  async reembedStaleChunks(batchSize = EMBEDDING_BATCH_SIZE): Promise<{ updated: number }> {
+    const { modelId, dimensions } = getEmbeddingProvider();
+    let updated = 0;
+
+    for (;;) {
+      const stale = await prisma.$queryRaw<Array<{ id: string; content: string }>>`
+        SELECT id, content
+        FROM "DocumentChunk"
+        WHERE "embeddingModel" IS DISTINCT FROM ${modelId}
+          OR embedding IS NULL
+          OR vector_dims(embedding) <> ${dimensions}
+        ORDER BY id
+        LIMIT ${batchSize}
+      `;
+
+      if (stale.length === 0) break;
+
+      const embeddings = await this.generateEmbeddings(stale.map(c => c.content));
+
+      for (const [i, chunk] of stale.entries()) {
+        await prisma.$executeRaw`
+          UPDATE "DocumentChunk"
+          SET embedding = ${embeddings[i]}::vector, "embeddingModel" = ${modelId}
+          WHERE id = ${chunk.id}
+        `;
+      }
+
+      updated += stale.length;
+      logger.info({ updated, modelId }, 'Re-embedded chunk batch');
+    }
 
-    return `[${embedding.join(',')}]`;
+    return { updated };
   }
 
   /**
-   * Simple hash function for pseudo-embeddings
+   * Generate embeddings with the configured provider, as pgvector literals
    */
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return hash;
+  private async generateEmbeddings(texts: string[]): Promise<string[]> {
+    const vectors = await getEmbeddingProvider().embed(texts);
+    return vectors.map(v => `[${v.join(',')}]`);
   }
 
   /**
@@ -1,6 +1,7 @@
 import type { Server as SocketIOServer, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { env } from '../../config/env.js';
+import { redisPub, redisSub } from '../../config/redis.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
 import type { JwtPayload } from '../../shared/types/index.js';
 
@@ -39,6 +40,11 @@ export function setupSocketHandlers(io: SocketIOServer): void {
       socket.join(`tenant:${socket.tenantId}`);
     }
 
+    // Personal room (unread counts follow the user across tabs)
+    if (socket.userId) {
+      socket.join(`user:${socket.userId}`);
+    }
+
     // Join conversation room
     socket.on('join:conversation', (conversationId: string) => {
       socket.join(`conversation:${conversationId}`);
@@ -87,8 +93,15 @@ export class SocketEmitter {
   /**
    * Emit message status update
    */
-  emitMessageStatus(tenantId: string, conversationId: string, messageId: string, status: string): void {
+  emitMessageStatus(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+    status: string,
+    details: Record<string, unknown> = {} // e.g. when it happened, failure reason
+  ): void {
     this.io.to(`conversation:${conversationId}`).emit('message:status', {
+      ...details,
       messageId,
       status,
     });
@@ -111,6 +124,58 @@ export class SocketEmitter {
     });
   }
 
+  /**
+   * Emit a new customer message, unread for every agent
+   */
+  emitConversationUnread(tenantId: string, conversationId: string, data: { messageId: string }): void {
+    this.io.to(`tenant:${tenantId}`).emit('conversation:unread', {
+      conversationId,
+      ...data,
+    });
+  }
+
+  /**
+   * Emit where an agent stopped reading ("last seen" for the other agents)
+   */
+  emitConversationRead(tenantId: string, conversationId: string, read: unknown): void {
+    this.io.to(`tenant:${tenantId}`).emit('conversation:read', {
+      conversationId,
+      ...read as object,
+    });
+  }
+
+  /**
+   * Emit an agent's own unread counts after they read a conversation
+   */
+  emitUnreadCounts(userId: string, counts: unknown): void {
+    this.io.to(`user:${userId}`).emit('unread:update', counts);
+  }
+
+  /**
+   * Emit a new internal note (agents only, never the customer)
+   */
+  emitNewNote(tenantId: string, conversationId: string, note: unknown): void {
+    this.io.to(`tenant:${tenantId}`).emit('note:new', note);
+    this.io.to(`conversation:${conversationId}`).emit('note:new', note);
+  }
+
+  /**
+   * Emit an edited or deleted internal note
+   */
+  emitNoteUpdate(tenantId: string, conversationId: string, note: unknown): void {
+    this.io.to(`conversation:${conversationId}`).emit('note:update', {
+      conversationId,
+      ...note as object,
+    });
+  }
+
+  /**
+   * Notify a team member mentioned in a note
+   */
+  emitMention(userId: string, mention: unknown): void {
+    this.io.to(`user:${userId}`).emit('mention:new', mention);
+  }
+
   /**
    * Emit new appointment
    */
@@ -136,15 +201,38 @@ export class SocketEmitter {
    * Generic emit to tenant room
    */
   emitToTenant(tenantId: string, event: string, data: unknown): void {
-    this.io.to(`tenant:${tenantId}`).emit(event, data);
+    this.emitToRoom(`tenant:${tenantId}`, event, data);
+  }
+
+  /**
+   * Generic emit to any room (tenant, conversation or user)
+   */
+  emitToRoom(room: string, event: string, data: unknown): void {
+    this.io.to(room).emit(event, data);
   }
 }
 
 // Singleton instance (set in app.ts)
 let socketEmitter: SocketEmitter | null = null;
 
+// Workers have no socket server; their events reach the API through Redis
+const SOCKET_EVENTS_CHANNEL = 'socket:events';
+
 export function initSocketEmitter(io: SocketIOServer): void {
   socketEmitter = new SocketEmitter(io);
+
+  redisSub.subscribe(SOCKET_EVENTS_CHANNEL).catch(error => {
+    logger.error({ error }, 'Failed to subscribe to worker socket events');
+  });
+  redisSub.on('message', (channel, raw) => {
+    if (channel !== SOCKET_EVENTS_CHANNEL) return;
+    try {
+      const { room, event, data } = JSON.parse(raw) as { room: string; event: string; data: unknown };
+      socketEmitter?.emitToRoom(room, event, data);
+    } catch (error) {
+      logger.warn({ error }, 'Invalid worker socket event');
+    }
+  });
 }
 
 export function getSocketEmitter(): SocketEmitter | null {
@@ -152,10 +240,31 @@ export function getSocketEmitter(): SocketEmitter | null {
 }
 
 /**
- * Emit event to a tenant room (convenience function)
+ * Emit event to a tenant room (convenience function); relayed through the API from workers
  */
 export function emitToTenant(tenantId: string, event: string, data: unknown): void {
+  emitToRoom(`tenant:${tenantId}`, event, data);
+}
+
+/**
+ * Emit a message status to its conversation, from the API or a worker
+ */
+export function emitMessageStatus(
+  conversationId: string,
+  messageId: string,
+  status: string,
+  details: Record<string, unknown> = {}
+): void {
+  emitToRoom(`conversation:${conversationId}`, 'message:status', { ...details, messageId, status });
+}
+
+function emitToRoom(room: string, event: string, data: unknown): void {
   if (socketEmitter) {
-    socketEmitter.emitToTenant(tenantId, event, data);
+    socketEmitter.emitToRoom(room, event, data);
+    return;
   }
+
+  redisPub.publish(SOCKET_EVENTS_CHANNEL, JSON.stringify({ room, event, data })).catch(error => {
+    logger.warn({ error, event }, 'Failed to relay socket event');
+  });
 }
@@ -0,0 +1,178 @@
+import type { Request, Response, NextFunction } from 'express';
+import { routingRuleSchema, routingService, updateRoutingRuleSchema } from './routing.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class RoutingController {
+  /**
+   * GET /api/routing/rules
+   */
+  async listRules(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const rules = await routingService.listRules(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routing/rules
+   */
+  async createRule(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = routingRuleSchema.parse(req.body);
+      const rule = await routingService.createRule(req.context.tenantId, input);
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/routing/rules/:id
+   */
+  async updateRule(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = updateRoutingRuleSchema.parse(req.body);
+      const rule = await routingService.updateRule(req.context.tenantId, req.params.id as string, input);
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/routing/rules/:id
+   */
+  async deleteRule(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      await routingService.deleteRule(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: { message: 'Routing rule deleted' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routing/queue
+   */
+  async getQueue(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const queue = await routingService.getQueue(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: queue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routing/conversations/:id/route
+   * Route an unassigned conversation now instead of waiting for a handoff
+   */
+  async routeConversation(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const assigneeId = await routingService.route(req.context.tenantId, req.params.id as string, 'request');
+
+      res.json({
+        success: true,
+        data: { assigneeId, queued: assigneeId === null },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const routingController = new RoutingController();
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { routingController } from './routing.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const routingRoutes = Router();
+
+// All routes require authentication
+routingRoutes.use(authMiddleware);
+
+// Skills needed by intent or tag
+routingRoutes.get('/rules', (req, res, next) => routingController.listRules(req, res, next));
+routingRoutes.post('/rules', (req, res, next) => routingController.createRule(req, res, next));
+routingRoutes.patch('/rules/:id', (req, res, next) => routingController.updateRule(req, res, next));
+routingRoutes.delete('/rules/:id', (req, res, next) => routingController.deleteRule(req, res, next));
+
+// Conversations waiting for an agent
+routingRoutes.get('/queue', (req, res, next) => routingController.getQueue(req, res, next));
+routingRoutes.post('/conversations/:id/route', (req, res, next) => routingController.routeConversation(req, res, next));
+
+// Health check
+routingRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'routing', status: 'ok' });
+});
@@ -0,0 +1,381 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError, ValidationError } from '../../shared/middleware/error.handler.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { webhooksService } from '../webhooks/webhooks.service.js';
+import { pickAgent, requiredSkills, type RoutingAgent } from './routing.strategy.js';
+
+const logger = createModuleLogger('routing');
+
+const QUEUE_BATCH = 100;
+
+const routingRuleBase = z.object({
+  name: z.string().min(1).max(100),
+  intent: z.string().min(1).max(50).nullable().optional(),
+  tagId: z.string().min(1).nullable().optional(),
+  skills: z.array(z.string().trim().min(1).max(50)).min(1).max(20),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const routingRuleSchema = routingRuleBase.refine(
+  rule => Boolean(rule.intent || rule.tagId),
+  'A rule needs an intent or a tag'
+);
+
+export const updateRoutingRuleSchema = routingRuleBase.partial();
+
+export type RoutingRuleInput = z.infer<typeof routingRuleSchema>;
+export type UpdateRoutingRuleInput = z.infer<typeof updateRoutingRuleSchema>;
+
+// What made the engine look for an agent
+export type RoutingReason = 'handoff' | 'requeue' | 'queue' | 'request';
+
+// How an assignment came to be, as reported in CONVERSATION_ASSIGNED
+export type AssignmentReason = RoutingReason | 'manual' | 'takeover';
+
+/**
+ * Assigns conversations handed to humans following the tenant's strategy,
+ * and keeps the ones nobody has room for in a waiting queue.
+ */
+export class RoutingService {
+  async listRules(tenantId: string) {
+    return prisma.routingRule.findMany({
+      where: { tenantId },
+      include: { tag: { select: { id: true, name: true, color: true } } },
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async createRule(tenantId: string, input: RoutingRuleInput) {
+    if (input.tagId) await this.assertTag(tenantId, input.tagId);
+
+    const rule = await prisma.routingRule.create({
+      data: {
+        tenantId,
+        name: input.name,
+        intent: input.intent ?? null,
+        tagId: input.tagId ?? null,
+        skills: input.skills,
+        priority: input.priority ?? 0,
+        isActive: input.isActive ?? true,
+      },
+    });
+
+    logger.info({ tenantId, ruleId: rule.id }, 'Routing rule created');
+    return rule;
+  }
+
+  async updateRule(tenantId: string, ruleId: string, input: UpdateRoutingRuleInput) {
+    const existing = await prisma.routingRule.findFirst({ where: { id: ruleId, tenantId } });
+    if (!existing) throw new NotFoundError('Routing rule');
+
+    const intent = input.intent !== undefined ? input.intent : existing.intent;
+    const tagId = input.tagId !== undefined ? input.tagId : existing.tagId;
+    if (!intent && !tagId) throw new ValidationError('A rule needs an intent or a tag');
+    if (input.tagId) await this.assertTag(tenantId, input.tagId);
+
+    const data: Prisma.RoutingRuleUncheckedUpdateInput = {};
+    if (input.name !== undefined) data.name = input.name;
+    if (input.intent !== undefined) data.intent = input.intent;
+    if (input.tagId !== undefined) data.tagId = input.tagId;
+    if (input.skills !== undefined) data.skills = input.skills;
+    if (input.priority !== undefined) data.priority = input.priority;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+
+    const rule = await prisma.routingRule.update({ where: { id: ruleId }, data });
+
+    logger.info({ tenantId, ruleId }, 'Routing rule updated');
+    return rule;
+  }
+
+  async deleteRule(tenantId: string, ruleId: string): Promise<void> {
+    const { count } = await prisma.routingRule.deleteMany({ where: { id: ruleId, tenantId } });
+    if (!count) throw new NotFoundError('Routing rule');
+
+    logger.info({ tenantId, ruleId }, 'Routing rule deleted');
+  }
+
+  /**
+   * Conversations waiting for an agent, oldest first
+   */
+  async getQueue(tenantId: string) {
+    return prisma.conversation.findMany({
+      where: { tenantId, status: 'OPEN', routingQueuedAt: { not: null } },
+      select: {
+        id: true,
+        currentIntent: true,
+        routingQueuedAt: true,
+        lastMessageAt: true,
+        contact: { select: { id: true, name: true, phone: true } },
+      },
+      orderBy: { routingQueuedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find an agent for the conversation, or queue it until one has room.
+   * Returns the assignee, or null when it is queued or the tenant routes by hand.
+   */
+  async route(
+    tenantId: string,
+    conversationId: string,
+    reason: RoutingReason,
+    excludeUserId?: string
+  ): Promise<string | null> {
+    const [tenant, conversation] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: { routingStrategy: true } }),
+      prisma.conversation.findFirst({
+        where: { id: conversationId, tenantId },
+        select: {
+          id: true,
+          status: true,
+          currentIntent: true,
+          routingQueuedAt: true,
+          contact: { select: { tags: { select: { tagId: true } } } },
+          assignments: { where: { isActive: true }, select: { userId: true }, take: 1 },
+        },
+      }),
+    ]);
+
+    if (!conversation) throw new NotFoundError('Conversation');
+
+    const strategy = tenant?.routingStrategy ?? 'MANUAL';
+    if (strategy === 'MANUAL' || conversation.status !== 'OPEN') return null;
+
+    // Someone already has it
+    const current = conversation.assignments[0];
+    if (current) {
+      if (conversation.routingQueuedAt) {
+        await prisma.conversation.update({ where: { id: conversationId }, data: { routingQueuedAt: null } });
+      }
+      return current.userId;
+    }
+
+    const [team, rules] = await Promise.all([
+      this.loadTeam(tenantId, excludeUserId),
+      strategy === 'SKILLS_MATCH'
+        ? prisma.routingRule.findMany({
+          where: { tenantId, isActive: true },
+          select: { intent: true, tagId: true, skills: true, priority: true },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    const skills = requiredSkills(rules, {
+      intent: conversation.currentIntent,
+      tagIds: conversation.contact.tags.map(tag => tag.tagId),
+    });
+
+    for (;;) {
+      const agent = pickAgent(strategy, team, skills);
+
+      if (!agent) {
+        if (!conversation.routingQueuedAt) {
+          await prisma.conversation.update({ where: { id: conversationId }, data: { routingQueuedAt: new Date() } });
+          emitToTenant(tenantId, 'routing:queued', { conversationId, skills });
+          logger.info({ tenantId, conversationId, strategy, skills, reason }, 'Conversation queued, no agent has room');
+        }
+        return null;
+      }
+
+      const claim = await this.claim(conversationId, agent);
+
+      if (claim.status === 'taken') return claim.userId;
+
+      if (claim.status === 'full') {
+        // Filled up since the team was loaded, try the next agent
+        agent.openConversations = agent.maxConcurrent;
+        continue;
+      }
+
+      logger.info({ tenantId, conversationId, userId: agent.id, strategy, skills, reason }, 'Conversation routed');
+
+      await this.notifyAssigned(tenantId, conversationId, agent.id, null, reason);
+
+      return agent.id;
+    }
+  }
+
+  /**
+   * Hand the open conversations of an agent who left to the rest of the team
+   */
+  async requeueAgent(tenantId: string, userId: string): Promise<number> {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { routingStrategy: true } });
+    if (!tenant || tenant.routingStrategy === 'MANUAL') return 0;
+
+    const assignments = await prisma.conversationAssignment.findMany({
+      where: { userId, isActive: true, conversation: { tenantId, status: 'OPEN' } },
+      select: { conversationId: true },
+    });
+    if (assignments.length === 0) return 0;
+
+    const conversationIds = assignments.map(assignment => assignment.conversationId);
+
+    await prisma.conversationAssignment.updateMany({
+      where: { userId, conversationId: { in: conversationIds } },
+      data: { isActive: false },
+    });
+
+    for (const conversationId of conversationIds) {
+      emitToTenant(tenantId, 'conversation:update', { conversationId, assigneeId: null });
+      await this.route(tenantId, conversationId, 'requeue', userId);
+    }
+
+    logger.info({ tenantId, userId, conversations: conversationIds.length }, 'Agent conversations re-queued');
+
+    return conversationIds.length;
+  }
+
+  /**
+   * Try to assign the waiting conversations, oldest first. Called whenever an
+   * agent may have room again; switching to manual routing empties the queue.
+   */
+  async drainQueue(tenantId: string): Promise<number> {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { routingStrategy: true } });
+    if (!tenant) return 0;
+
+    if (tenant.routingStrategy === 'MANUAL') {
+      await prisma.conversation.updateMany({
+        where: { tenantId, routingQueuedAt: { not: null } },
+        data: { routingQueuedAt: null },
+      });
+      return 0;
+    }
+
+    const queued = await prisma.conversation.findMany({
+      where: { tenantId, status: 'OPEN', routingQueuedAt: { not: null } },
+      select: { id: true },
+      orderBy: { routingQueuedAt: 'asc' },
+      take: QUEUE_BATCH,
+    });
+
+    let assigned = 0;
+    for (const { id } of queued) {
+      if (await this.route(tenantId, id, 'queue')) assigned++;
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Drain every tenant's queue (scheduler), catching capacity freed outside the hooks
+   */
+  async drainAll(): Promise<number> {
+    const tenants = await prisma.conversation.findMany({
+      where: { status: 'OPEN', routingQueuedAt: { not: null } },
+      distinct: ['tenantId'],
+      select: { tenantId: true },
+    });
+
+    let assigned = 0;
+    for (const { tenantId } of tenants) {
+      assigned += await this.drainQueue(tenantId);
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Tell the inbox and the tenant's webhooks who a conversation went to
+   */
+  async notifyAssigned(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+    assignedBy: string | null,
+    reason: AssignmentReason
+  ): Promise<void> {
+    // Routing also runs in the worker (handoffs), so it goes through the relayed emit
+    emitToTenant(tenantId, 'conversation:update', { conversationId, assigneeId: userId, routingQueuedAt: null });
+
+    try {
+      await webhooksService.dispatchEvent(tenantId, 'CONVERSATION_ASSIGNED', {
+        conversationId,
+        userId,
+        assignedBy,
+        reason,
+      });
+    } catch (error) {
+      // The assignment stands either way
+      logger.error({ error, tenantId, conversationId }, 'Failed to dispatch CONVERSATION_ASSIGNED');
+    }
+  }
+
+  /**
+   * Assign the conversation to the agent if they still have room and nobody took it meanwhile.
+   * Row locks serialize concurrent routing (handoffs, queue drains) of the same conversation or agent.
+   */
+  private async claim(
+    conversationId: string,
+    agent: RoutingAgent
+  ): Promise<{ status: 'assigned' } | { status: 'full' } | { status: 'taken'; userId: string }> {
+    return prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM "Conversation" WHERE id = ${conversationId} FOR UPDATE`;
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${agent.id} FOR UPDATE`;
+
+      const current = await tx.conversationAssignment.findFirst({
+        where: { conversationId, isActive: true },
+        select: { userId: true },
+      });
+      if (current) return { status: 'taken' as const, userId: current.userId };
+
+      const open = await tx.conversationAssignment.count({
+        where: { userId: agent.id, isActive: true, conversation: { status: 'OPEN' } },
+      });
+      if (open >= agent.maxConcurrent) return { status: 'full' as const };
+
+      await tx.conversationAssignment.upsert({
+        where: { conversationId_userId: { conversationId, userId: agent.id } },
+        create: { conversationId, userId: agent.id, assignedBy: null, isActive: true },
+        update: { isActive: true, assignedAt: new Date(), assignedBy: null },
+      });
+      await tx.conversation.update({ where: { id: conversationId }, data: { routingQueuedAt: null } });
+      await tx.user.update({ where: { id: agent.id }, data: { lastAssignedAt: new Date() } });
+
+      return { status: 'assigned' as const };
+    });
+  }
+
+  private async loadTeam(tenantId: string, excludeUserId?: string): Promise<RoutingAgent[]> {
+    const users = await prisma.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        role: { in: ['AGENT', 'ADMIN', 'OWNER'] },
+        ...(excludeUserId ? { id: { not: excludeUserId } } : {}),
+      },
+      select: {
+        id: true,
+        skills: true,
+        maxConcurrent: true,
+        isAvailable: true,
+        lastAssignedAt: true,
+        _count: {
+          select: {
+            // Closed conversations keep their assignee but take no room
+            assignedConversations: { where: { isActive: true, conversation: { status: 'OPEN' } } },
+          },
+        },
+      },
+    });
+
+    return users.map(user => ({
+      id: user.id,
+      skills: user.skills,
+      maxConcurrent: user.maxConcurrent,
+      openConversations: user._count.assignedConversations,
+      isAvailable: user.isAvailable,
+      lastAssignedAt: user.lastAssignedAt,
+    }));
+  }
+
+  private async assertTag(tenantId: string, tagId: string): Promise<void> {
+    const tag = await prisma.tag.count({ where: { id: tagId, tenantId } });
+    if (!tag) throw new NotFoundError('Tag');
+  }
+}
+
+export const routingService = new RoutingService();
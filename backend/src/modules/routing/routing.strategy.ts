@@ -0,0 +1,67 @@
+import type { RoutingStrategy } from '@prisma/client';
+
+export interface RoutingAgent {
+  id: string;
+  skills: string[];
+  maxConcurrent: number;
+  openConversations: number;
+  isAvailable: boolean;
+  lastAssignedAt: Date | null;
+}
+
+export interface RoutingRuleMatcher {
+  intent: string | null;
+  tagId: string | null;
+  skills: string[];
+  priority: number;
+}
+
+export interface RoutingSubject {
+  intent: string | null;
+  tagIds: string[];
+}
+
+/**
+ * Skills of the highest-priority rule matching the conversation's intent or one of the contact's tags
+ */
+export function requiredSkills(rules: RoutingRuleMatcher[], subject: RoutingSubject): string[] {
+  const match = rules
+    .filter(rule => (rule.intent !== null && rule.intent === subject.intent)
+      || (rule.tagId !== null && subject.tagIds.includes(rule.tagId)))
+    .sort((a, b) => b.priority - a.priority)[0];
+
+  return match?.skills ?? [];
+}
+
+/**
+ * Agent a conversation should go to, or null when nobody has room for it.
+ * Skills only narrow the choice with SKILLS_MATCH, and only when someone on
+ * the team has them; otherwise the conversation would wait forever.
+ */
+export function pickAgent(
+  strategy: Exclude<RoutingStrategy, 'MANUAL'>,
+  team: RoutingAgent[],
+  skills: string[] = []
+): RoutingAgent | null {
+  let candidates = team.filter(agent => agent.isAvailable && agent.openConversations < agent.maxConcurrent);
+
+  if (strategy === 'SKILLS_MATCH' && skills.length > 0 && team.some(agent => hasSkills(agent, skills))) {
+    candidates = candidates.filter(agent => hasSkills(agent, skills));
+  }
+
+  const sorted = [...candidates].sort(strategy === 'ROUND_ROBIN'
+    ? byLastAssigned
+    : (a, b) => a.openConversations - b.openConversations || byLastAssigned(a, b));
+
+  return sorted[0] ?? null;
+}
+
+function hasSkills(agent: RoutingAgent, skills: string[]): boolean {
+  const own = agent.skills.map(skill => skill.toLowerCase());
+  return skills.every(skill => own.includes(skill.toLowerCase()));
+}
+
+// Never assigned first, then whoever waited longest
+function byLastAssigned(a: RoutingAgent, b: RoutingAgent): number {
+  return (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0) || a.id.localeCompare(b.id);
+}
@@ -0,0 +1,150 @@
+import type { Request, Response, NextFunction } from 'express';
+import { slaMetricsSchema, slaPolicySchema, slaService, updateSlaPolicySchema } from './sla.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class SlaController {
+  /**
+   * GET /api/sla/policies
+   */
+  async listPolicies(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const policies = await slaService.listPolicies(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: policies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/sla/policies
+   */
+  async createPolicy(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = slaPolicySchema.parse(req.body);
+      const policy = await slaService.createPolicy(req.context.tenantId, input);
+
+      res.status(201).json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/sla/policies/:id
+   */
+  async updatePolicy(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = updateSlaPolicySchema.parse(req.body);
+      const policy = await slaService.updatePolicy(req.context.tenantId, req.params.id as string, input);
+
+      res.json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/sla/policies/:id
+   */
+  async deletePolicy(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      await slaService.deletePolicy(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: { message: 'SLA policy deleted' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/sla/metrics
+   */
+  async getMetrics(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = slaMetricsSchema.parse(req.query);
+      const metrics = await slaService.getMetrics(req.context.tenantId, input);
+
+      res.json({
+        success: true,
+        data: metrics,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const slaController = new SlaController();
@@ -0,0 +1,153 @@
+export interface BusinessHours {
+  timezone: string;
+  workingDays: string[]; // mon, tue...
+  workingHoursStart: string; // HH:mm
+  workingHoursEnd: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MAX_DAYS = 400; // Stop looking for open hours after about a year
+
+interface LocalDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: string;
+}
+
+/**
+ * `minutes` after `start`, counting only the time the business is open.
+ * Without working days the clock runs around the clock.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, hours: BusinessHours): Date {
+  if (!hasOpenHours(hours)) return new Date(start.getTime() + minutes * MINUTE_MS);
+
+  let remaining = minutes * MINUTE_MS;
+  let day = localDay(start, hours.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    const { open, close } = openingOf(day, hours);
+
+    if (open && close && start < close) {
+      const from = start > open ? start : open;
+      const available = close.getTime() - from.getTime();
+      if (remaining <= available) return new Date(from.getTime() + remaining);
+      remaining -= available;
+    }
+
+    day = nextDay(day);
+  }
+
+  return new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Business minutes between two instants (0 if `end` is not after `start`)
+ */
+export function businessMinutesBetween(start: Date, end: Date, hours: BusinessHours): number {
+  if (end <= start) return 0;
+  if (!hasOpenHours(hours)) return Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+
+  let total = 0;
+  let day = localDay(start, hours.timezone);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    const { open, close } = openingOf(day, hours);
+    if (open && open >= end) break;
+
+    if (open && close) {
+      const from = Math.max(start.getTime(), open.getTime());
+      const to = Math.min(end.getTime(), close.getTime());
+      if (to > from) total += to - from;
+    }
+
+    day = nextDay(day);
+  }
+
+  return Math.round(total / MINUTE_MS);
+}
+
+function hasOpenHours(hours: BusinessHours): boolean {
+  return hours.workingDays.length > 0 && toMinutes(hours.workingHoursEnd) > toMinutes(hours.workingHoursStart);
+}
+
+/**
+ * Opening and closing instants of a local day (nulls when closed that day)
+ */
+function openingOf(day: LocalDay, hours: BusinessHours): { open: Date | null; close: Date | null } {
+  if (!hours.workingDays.includes(day.weekday)) return { open: null, close: null };
+
+  return {
+    open: fromLocal(day, toMinutes(hours.workingHoursStart), hours.timezone),
+    close: fromLocal(day, toMinutes(hours.workingHoursEnd), hours.timezone),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+function localDay(date: Date, timeZone: string): LocalDay {
+  const parts = partsOf(date, timeZone);
+  const weekday = WEEKDAYS[new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay()] ?? 'sun';
+  return { year: parts.year, month: parts.month, day: parts.day, weekday };
+}
+
+function nextDay(day: LocalDay): LocalDay {
+  const next = new Date(Date.UTC(day.year, day.month - 1, day.day + 1));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+    weekday: WEEKDAYS[next.getUTCDay()] ?? 'sun',
+  };
+}
+
+/**
+ * Instant of a local wall-clock time in the timezone
+ */
+function fromLocal(day: LocalDay, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, 0, minutes);
+  // Correct twice so days where the offset changes still land right
+  let instant = wallClock - offsetOf(new Date(wallClock), timeZone);
+  instant = wallClock - offsetOf(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at an instant
+ */
+function offsetOf(date: Date, timeZone: string): number {
+  const parts = partsOf(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function partsOf(date: Date, timeZone: string) {
+  const values: Record<string, number> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  }
+
+  return {
+    year: values.year ?? 1970,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+    hour: values.hour ?? 0,
+    minute: values.minute ?? 0,
+    second: values.second ?? 0,
+  };
+}
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { slaController } from './sla.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const slaRoutes = Router();
+
+// All routes require authentication
+slaRoutes.use(authMiddleware);
+
+// Policies
+slaRoutes.get('/policies', (req, res, next) => slaController.listPolicies(req, res, next));
+slaRoutes.post('/policies', (req, res, next) => slaController.createPolicy(req, res, next));
+slaRoutes.patch('/policies/:id', (req, res, next) => slaController.updatePolicy(req, res, next));
+slaRoutes.delete('/policies/:id', (req, res, next) => slaController.deletePolicy(req, res, next));
+
+// Compliance of handed-off conversations
+slaRoutes.get('/metrics', (req, res, next) => slaController.getMetrics(req, res, next));
+
+// Health check
+slaRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'sla', status: 'ok' });
+});
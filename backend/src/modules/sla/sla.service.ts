@@ -0,0 +1,454 @@
+import { z } from 'zod';
+import type { ConversationSla, Prisma, SlaPolicy } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError } from '../../shared/middleware/error.handler.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { webhooksService } from '../webhooks/webhooks.service.js';
+import { addBusinessMinutes, businessMinutesBetween, type BusinessHours } from './sla.hours.js';
+
+const logger = createModuleLogger('sla');
+
+const MINUTE_MS = 60 * 1000;
+
+export type SlaMetric = 'first_response' | 'next_response' | 'resolution';
+
+const targetMinutes = z.number().int().min(1).max(60 * 24 * 30).nullable();
+
+export const slaPolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  firstResponseMinutes: targetMinutes.optional(),
+  nextResponseMinutes: targetMinutes.optional(),
+  resolutionMinutes: targetMinutes.optional(),
+  businessHoursOnly: z.boolean().optional(),
+  warnBeforeMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateSlaPolicySchema = slaPolicySchema.partial();
+
+export const slaMetricsSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type SlaPolicyInput = z.infer<typeof slaPolicySchema>;
+export type UpdateSlaPolicyInput = z.infer<typeof updateSlaPolicySchema>;
+export type SlaMetricsInput = z.infer<typeof slaMetricsSchema>;
+
+type TimerWithPolicy = ConversationSla & { policy: SlaPolicy };
+
+// Due date and breach flag of each target on a timer, and the timers still running for it up to a date
+const TARGETS: Record<SlaMetric, {
+  due: 'firstResponseDueAt' | 'nextResponseDueAt' | 'resolutionDueAt';
+  breached: 'firstResponseBreached' | 'nextResponseBreached' | 'resolutionBreached';
+  pending: (until: Date) => Prisma.ConversationSlaWhereInput;
+}> = {
+  first_response: {
+    due: 'firstResponseDueAt',
+    breached: 'firstResponseBreached',
+    pending: until => ({ firstResponseAt: null, firstResponseBreached: false, firstResponseDueAt: { lte: until } }),
+  },
+  next_response: {
+    due: 'nextResponseDueAt',
+    breached: 'nextResponseBreached',
+    pending: until => ({ nextResponseBreached: false, nextResponseDueAt: { lte: until } }),
+  },
+  resolution: {
+    due: 'resolutionDueAt',
+    breached: 'resolutionBreached',
+    pending: until => ({ resolutionBreached: false, resolutionDueAt: { lte: until } }),
+  },
+};
+
+const TIMER_BATCH = 1000;
+
+const hoursSelect = {
+  timezone: true,
+  workingDays: true,
+  workingHoursStart: true,
+  workingHoursEnd: true,
+} satisfies Prisma.TenantSelect;
+
+const channelHoursSelect = {
+  workingDays: true,
+  workingHoursStart: true,
+  workingHoursEnd: true,
+} satisfies Prisma.WhatsAppChannelSelect;
+
+type ChannelHours = Prisma.WhatsAppChannelGetPayload<{ select: typeof channelHoursSelect }>;
+
+/**
+ * SLA clocks for conversations handed to humans: targets come from the
+ * tenant's default policy and only run during business hours when asked to.
+ */
+export class SlaService {
+  async listPolicies(tenantId: string) {
+    return prisma.slaPolicy.findMany({
+      where: { tenantId },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async createPolicy(tenantId: string, input: SlaPolicyInput) {
+    const policy = await prisma.$transaction(async tx => {
+      // The first policy becomes the default
+      const existing = await tx.slaPolicy.count({ where: { tenantId } });
+      const isDefault = input.isDefault ?? existing === 0;
+      if (isDefault) {
+        await tx.slaPolicy.updateMany({ where: { tenantId }, data: { isDefault: false } });
+      }
+
+      return tx.slaPolicy.create({
+        data: { ...this.toData(input), name: input.name, isDefault, tenantId },
+      });
+    });
+
+    logger.info({ tenantId, policyId: policy.id }, 'SLA policy created');
+    return policy;
+  }
+
+  async updatePolicy(tenantId: string, policyId: string, input: UpdateSlaPolicyInput) {
+    await this.getPolicy(tenantId, policyId);
+
+    const policy = await prisma.$transaction(async tx => {
+      if (input.isDefault) {
+        await tx.slaPolicy.updateMany({ where: { tenantId, id: { not: policyId } }, data: { isDefault: false } });
+      }
+
+      return tx.slaPolicy.update({
+        where: { id: policyId },
+        data: {
+          ...this.toData(input),
+          ...(input.name !== undefined ? { name: input.name } : {}),
+          ...(input.isDefault !== undefined ? { isDefault: input.isDefault } : {}),
+        },
+      });
+    });
+
+    logger.info({ tenantId, policyId }, 'SLA policy updated');
+    return policy;
+  }
+
+  async deletePolicy(tenantId: string, policyId: string): Promise<void> {
+    await this.getPolicy(tenantId, policyId);
+    await prisma.slaPolicy.delete({ where: { id: policyId } });
+
+    logger.info({ tenantId, policyId }, 'SLA policy deleted');
+  }
+
+  /**
+   * Start the clocks when humans take over; a conversation handed off again
+   * after being resolved starts over.
+   */
+  async start(tenantId: string, conversationId: string, at = new Date()): Promise<void> {
+    const current = await prisma.conversationSla.findUnique({
+      where: { conversationId },
+      select: { resolvedAt: true },
+    });
+    if (current && !current.resolvedAt) return;
+
+    const policy = await prisma.slaPolicy.findFirst({
+      where: { tenantId, isDefault: true, isActive: true },
+    });
+    if (!policy) return;
+
+    const hours = await this.hoursFor(tenantId, conversationId, policy);
+    const due = (minutes: number | null) => (minutes ? this.dueAt(at, minutes, hours) : null);
+
+    const timer = {
+      policyId: policy.id,
+      startedAt: at,
+      firstResponseDueAt: due(policy.firstResponseMinutes),
+      firstResponseAt: null,
+      firstResponseBreached: false,
+      nextResponseDueAt: null,
+      nextResponseBreached: false,
+      nextResponseBreaches: 0,
+      resolutionDueAt: due(policy.resolutionMinutes),
+      resolvedAt: null,
+      resolutionBreached: false,
+      warned: [],
+    };
+
+    await prisma.conversationSla.upsert({
+      where: { conversationId },
+      create: { ...timer, conversationId, tenantId },
+      update: timer,
+    });
+
+    logger.info({ tenantId, conversationId, policyId: policy.id }, 'SLA started');
+  }
+
+  /**
+   * A customer message after the first human reply waits for the next one
+   */
+  async onCustomerMessage(tenantId: string, conversationId: string, at = new Date()): Promise<void> {
+    const timer = await this.activeTimer(conversationId);
+    if (!timer?.firstResponseAt || timer.nextResponseDueAt || !timer.policy.nextResponseMinutes) return;
+
+    const hours = await this.hoursFor(tenantId, conversationId, timer.policy);
+
+    await prisma.conversationSla.update({
+      where: { id: timer.id },
+      data: {
+        nextResponseDueAt: this.dueAt(at, timer.policy.nextResponseMinutes, hours),
+        nextResponseBreached: false,
+        warned: timer.warned.filter(metric => metric !== 'next_response'),
+      },
+    });
+  }
+
+  /**
+   * A human answered: the first response is met, and so is any pending next response
+   */
+  async onAgentReply(conversationId: string, at = new Date()): Promise<void> {
+    const timer = await this.activeTimer(conversationId);
+    if (!timer) return;
+
+    const data: Prisma.ConversationSlaUpdateInput = {};
+
+    if (!timer.firstResponseAt) {
+      data.firstResponseAt = at;
+      data.firstResponseBreached = timer.firstResponseBreached || this.isLate(timer.firstResponseDueAt, at);
+    }
+
+    if (timer.nextResponseDueAt) {
+      const late = timer.nextResponseBreached || this.isLate(timer.nextResponseDueAt, at);
+      data.nextResponseDueAt = null;
+      data.nextResponseBreached = false;
+      // A breach already raised by the scheduler was counted then
+      if (late && !timer.nextResponseBreached) data.nextResponseBreaches = { increment: 1 };
+      data.warned = timer.warned.filter(metric => metric !== 'next_response');
+    }
+
+    if (Object.keys(data).length === 0) return;
+
+    await prisma.conversationSla.update({ where: { id: timer.id }, data });
+  }
+
+  /**
+   * Stop the clocks when the conversation is closed
+   */
+  async onResolved(conversationId: string, at = new Date()): Promise<void> {
+    const timer = await this.activeTimer(conversationId);
+    if (!timer) return;
+
+    await prisma.conversationSla.update({
+      where: { id: timer.id },
+      data: {
+        resolvedAt: at,
+        resolutionBreached: timer.resolutionBreached || this.isLate(timer.resolutionDueAt, at),
+        nextResponseDueAt: null,
+      },
+    });
+  }
+
+  /**
+   * Warn before targets are missed and flag the ones that were (scheduler)
+   */
+  async checkTimers(now = new Date()): Promise<{ warnings: number; breaches: number }> {
+    const horizon = new Date(now.getTime() + 24 * 60 * MINUTE_MS);
+
+    let warnings = 0;
+    let breaches = 0;
+
+    for (const [metric, target] of Object.entries(TARGETS) as Array<[SlaMetric, (typeof TARGETS)[SlaMetric]]>) {
+      // Nearest first, so a large backlog can't keep the due ones out of the batch
+      const timers = await prisma.conversationSla.findMany({
+        where: { resolvedAt: null, ...target.pending(horizon) },
+        include: { policy: true },
+        orderBy: { [target.due]: 'asc' },
+        take: TIMER_BATCH,
+      });
+
+      for (const timer of timers) {
+        const dueAt = timer[target.due];
+        if (!dueAt) continue;
+
+        if (dueAt <= now) {
+          await prisma.conversationSla.update({
+            where: { id: timer.id },
+            data: {
+              [target.breached]: true,
+              ...(metric === 'next_response' ? { nextResponseBreaches: { increment: 1 } } : {}),
+            },
+          });
+          await this.notify(timer, metric, 'SLA_BREACHED', dueAt);
+          breaches++;
+        } else if (
+          dueAt.getTime() - now.getTime() <= timer.policy.warnBeforeMinutes * MINUTE_MS &&
+          !timer.warned.includes(metric)
+        ) {
+          await prisma.conversationSla.update({
+            where: { id: timer.id },
+            data: { warned: { push: metric } },
+          });
+          await this.notify(timer, metric, 'SLA_WARNING', dueAt);
+          warnings++;
+        }
+      }
+    }
+
+    return { warnings, breaches };
+  }
+
+  /**
+   * Compliance of the conversations handed off in a period
+   */
+  async getMetrics(tenantId: string, input: SlaMetricsInput = {}) {
+    const timers = await prisma.conversationSla.findMany({
+      where: {
+        tenantId,
+        ...(input.from || input.to
+          ? { startedAt: { ...(input.from ? { gte: input.from } : {}), ...(input.to ? { lt: input.to } : {}) } }
+          : {}),
+      },
+      include: {
+        policy: true,
+        conversation: { select: { channel: { select: channelHoursSelect } } },
+      },
+    });
+
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: hoursSelect });
+
+    const firstResponses: number[] = [];
+    const resolutions: number[] = [];
+    let firstResponseBreached = 0;
+    let resolutionBreached = 0;
+    let nextResponseBreaches = 0;
+    let firstResponsePending = 0;
+
+    for (const timer of timers) {
+      const hours = timer.policy.businessHoursOnly && tenant
+        ? withChannelHours(tenant, timer.conversation.channel)
+        : null;
+      const elapsed = (end: Date) => (hours
+        ? businessMinutesBetween(timer.startedAt, end, hours)
+        : Math.round((end.getTime() - timer.startedAt.getTime()) / MINUTE_MS));
+
+      if (timer.firstResponseAt) firstResponses.push(elapsed(timer.firstResponseAt));
+      else firstResponsePending++;
+      if (timer.resolvedAt) resolutions.push(elapsed(timer.resolvedAt));
+
+      if (timer.firstResponseBreached) firstResponseBreached++;
+      if (timer.resolutionBreached) resolutionBreached++;
+      nextResponseBreaches += timer.nextResponseBreaches;
+    }
+
+    const withFirstTarget = timers.filter(t => t.firstResponseDueAt).length;
+    const withResolutionTarget = timers.filter(t => t.resolutionDueAt).length;
+
+    return {
+      conversations: timers.length,
+      firstResponse: {
+        averageMinutes: average(firstResponses),
+        breached: firstResponseBreached,
+        pending: firstResponsePending,
+        compliance: compliance(withFirstTarget, firstResponseBreached),
+      },
+      nextResponse: {
+        breaches: nextResponseBreaches,
+      },
+      resolution: {
+        averageMinutes: average(resolutions),
+        breached: resolutionBreached,
+        compliance: compliance(withResolutionTarget, resolutionBreached),
+      },
+    };
+  }
+
+  private async getPolicy(tenantId: string, policyId: string) {
+    const policy = await prisma.slaPolicy.findFirst({ where: { id: policyId, tenantId } });
+    if (!policy) throw new NotFoundError('SLA policy');
+    return policy;
+  }
+
+  private toData(input: UpdateSlaPolicyInput) {
+    const data: Prisma.SlaPolicyUncheckedUpdateInput = {};
+    if (input.firstResponseMinutes !== undefined) data.firstResponseMinutes = input.firstResponseMinutes;
+    if (input.nextResponseMinutes !== undefined) data.nextResponseMinutes = input.nextResponseMinutes;
+    if (input.resolutionMinutes !== undefined) data.resolutionMinutes = input.resolutionMinutes;
+    if (input.businessHoursOnly !== undefined) data.businessHoursOnly = input.businessHoursOnly;
+    if (input.warnBeforeMinutes !== undefined) data.warnBeforeMinutes = input.warnBeforeMinutes;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    return data as Omit<Prisma.SlaPolicyUncheckedCreateInput, 'name' | 'tenantId'>;
+  }
+
+  private async activeTimer(conversationId: string): Promise<TimerWithPolicy | null> {
+    return prisma.conversationSla.findFirst({
+      where: { conversationId, resolvedAt: null },
+      include: { policy: true },
+    });
+  }
+
+  private async hoursFor(tenantId: string, conversationId: string, policy: SlaPolicy): Promise<BusinessHours | null> {
+    if (!policy.businessHoursOnly) return null;
+
+    const [tenant, conversation] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: hoursSelect }),
+      prisma.conversation.findUnique({
+        where: { id: conversationId },
+        select: { channel: { select: channelHoursSelect } },
+      }),
+    ]);
+
+    return tenant ? withChannelHours(tenant, conversation?.channel ?? null) : null;
+  }
+
+  private dueAt(from: Date, minutes: number, hours: BusinessHours | null): Date {
+    return hours ? addBusinessMinutes(from, minutes, hours) : new Date(from.getTime() + minutes * MINUTE_MS);
+  }
+
+  private isLate(dueAt: Date | null, at: Date): boolean {
+    return dueAt !== null && at > dueAt;
+  }
+
+  private async notify(
+    timer: ConversationSla,
+    metric: SlaMetric,
+    event: 'SLA_WARNING' | 'SLA_BREACHED',
+    dueAt: Date
+  ): Promise<void> {
+    const payload = {
+      conversationId: timer.conversationId,
+      policyId: timer.policyId,
+      metric,
+      dueAt: dueAt.toISOString(),
+    };
+
+    emitToTenant(timer.tenantId, event === 'SLA_WARNING' ? 'sla:warning' : 'sla:breached', payload);
+
+    try {
+      await webhooksService.dispatchEvent(timer.tenantId, event, payload);
+    } catch (error) {
+      logger.error({ error, conversationId: timer.conversationId, event }, 'Failed to dispatch SLA event');
+    }
+
+    logger.info({ tenantId: timer.tenantId, ...payload, event }, 'SLA alert');
+  }
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function compliance(total: number, breached: number): number | null {
+  return total === 0 ? null : Math.round(((total - breached) / total) * 1000) / 10;
+}
+
+export const slaService = new SlaService();
+
+// Working hours overridden by the conversation's channel, field by field
+function withChannelHours(tenant: BusinessHours, channel: ChannelHours | null): BusinessHours {
+  if (!channel) return tenant;
+
+  return {
+    timezone: tenant.timezone,
+    workingDays: channel.workingDays.length > 0 ? channel.workingDays : tenant.workingDays,
+    workingHoursStart: channel.workingHoursStart ?? tenant.workingHoursStart,
+    workingHoursEnd: channel.workingHoursEnd ?? tenant.workingHoursEnd,
+  };
+}
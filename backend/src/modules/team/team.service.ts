@@ -1,6 +1,7 @@
 import { prisma } from '../../config/database.js';
 import type { UserRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { routingService } from '../routing/routing.service.js';
 
 interface CreateTeamMemberInput {
   email: string;
@@ -124,7 +125,7 @@ class TeamService {
    * Update a team member
    */
   async updateTeamMember(tenantId: string, userId: string, input: UpdateTeamMemberInput) {
-    return prisma.user.update({
+    const member = await prisma.user.update({
       where: { id: userId, tenantId },
       data: {
         ...(input.name && { name: input.name }),
@@ -145,13 +146,24 @@ class TeamService {
         maxConcurrent: true,
       },
     });
+
+    // Routing sees the new availability, capacity and skills
+    if (!member.isActive || !member.isAvailable) {
+      await routingService.requeueAgent(tenantId, userId);
+    } else if (input.isActive !== undefined || input.isAvailable !== undefined
+      || input.maxConcurrent !== undefined || input.skills !== undefined) {
+      await routingService.drainQueue(tenantId);
+    }
+
+    return member;
   }
 
   /**
    * Delete a team member
    */
   async deleteTeamMember(tenantId: string, userId: string) {
-    // First unassign all conversations
+    // Hand their open conversations to the rest of the team, then unassign all
+    await routingService.requeueAgent(tenantId, userId);
     await prisma.conversationAssignment.deleteMany({
       where: { userId },
     });
@@ -193,22 +205,33 @@ class TeamService {
     }
 
     // Create or update assignment
-    return prisma.conversationAssignment.upsert({
-      where: {
-        conversationId_userId: { conversationId, userId },
-      },
-      create: {
-        conversationId,
-        userId,
-        assignedBy: assignedBy ?? null,
-        isActive: true,
-      },
-      update: {
-        isActive: true,
-        assignedAt: new Date(),
-        assignedBy: assignedBy ?? null,
-      },
-    });
+    const [assignment] = await prisma.$transaction([
+      prisma.conversationAssignment.upsert({
+        where: {
+          conversationId_userId: { conversationId, userId },
+        },
+        create: {
+          conversationId,
+          userId,
+          assignedBy: assignedBy ?? null,
+          isActive: true,
+        },
+        update: {
+          isActive: true,
+          assignedAt: new Date(),
+          assignedBy: assignedBy ?? null,
+        },
+      }),
+      // No longer waiting in the routing queue
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: { routingQueuedAt: null },
+      }),
+    ]);
+
+    await routingService.notifyAssigned(tenantId, conversationId, userId, assignedBy ?? null, 'manual');
+
+    return assignment;
   }
 
   /**
@@ -224,12 +247,17 @@ class TeamService {
       throw new Error('Conversation not found');
     }
 
-    return prisma.conversationAssignment.update({
+    const assignment = await prisma.conversationAssignment.update({
       where: {
         conversationId_userId: { conversationId, userId },
       },
       data: { isActive: false },
     });
+
+    // The agent has room for a waiting conversation
+    await routingService.drainQueue(tenantId);
+
+    return assignment;
   }
 
   /**
@@ -268,7 +296,7 @@ class TeamService {
    * Update user availability status
    */
   async setAvailability(tenantId: string, userId: string, isAvailable: boolean) {
-    return prisma.user.update({
+    const user = await prisma.user.update({
       where: { id: userId, tenantId },
       data: { isAvailable },
       select: {
@@ -277,6 +305,15 @@ class TeamService {
         isAvailable: true,
       },
     });
+
+    // Going away hands their conversations to others; coming back picks up waiting ones
+    if (isAvailable) {
+      await routingService.drainQueue(tenantId);
+    } else {
+      await routingService.requeueAgent(tenantId, userId);
+    }
+
+    return user;
   }
 
   /**
@@ -1,5 +1,5 @@
 import type { Request, Response, NextFunction } from 'express';
-import { templatesService } from './templates.service.js';
+import { renderTemplateSchema, templatesService } from './templates.service.js';
 import type { ApiResponse } from '../../shared/types/index.js';
 import type { TemplateCategory } from '@prisma/client';
 
@@ -213,6 +213,88 @@ export class TemplatesController {
       next(error);
     }
   }
+
+  /**
+   * GET /api/templates/shortcuts?q=pre
+   * Templates for what the agent typed after "/" in the composer
+   */
+  async findByShortcut(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const templates = await templatesService.findByShortcut(
+        req.context.tenantId,
+        (req.query.q as string | undefined) ?? ''
+      );
+
+      res.json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/templates/:id/render
+   * Fill a template for a customer, reporting missing variables
+   */
+  async renderTemplate(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = renderTemplateSchema.parse(req.body ?? {});
+      const rendered = await templatesService.renderTemplate(
+        req.params.id as string,
+        req.context.tenantId,
+        req.context.userId,
+        input
+      );
+
+      res.json({
+        success: true,
+        data: rendered,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/templates/variables
+   * Variables filled automatically when rendering
+   */
+  async getVariables(
+    _req: Request,
+    res: Response<ApiResponse>,
+    _next: NextFunction
+  ): Promise<void> {
+    res.json({
+      success: true,
+      data: templatesService.getVariables(),
+    });
+  }
 }
 
 export const templatesController = new TemplatesController();
@@ -0,0 +1,121 @@
+import { extractVariables, renderTemplate } from '../../shared/utils/template.js';
+
+export type TemplateVariableSource = 'contact' | 'tenant' | 'appointment' | 'catalog' | 'agent';
+
+/**
+ * Variables the inbox fills by itself, and where each one comes from
+ */
+export const TEMPLATE_VARIABLES: Record<string, { source: TemplateVariableSource; description: string }> = {
+  name: { source: 'contact', description: 'Nombre del contacto' },
+  first_name: { source: 'contact', description: 'Primer nombre del contacto' },
+  phone: { source: 'contact', description: 'Telefono del contacto' },
+  email: { source: 'contact', description: 'Email del contacto' },
+  business: { source: 'tenant', description: 'Nombre del negocio' },
+  business_description: { source: 'tenant', description: 'Descripcion del negocio' },
+  schedule: { source: 'tenant', description: 'Horario de atencion' },
+  date: { source: 'appointment', description: 'Fecha de la proxima cita' },
+  time: { source: 'appointment', description: 'Hora de la proxima cita' },
+  service: { source: 'appointment', description: 'Servicio de la proxima cita' },
+  price_list: { source: 'catalog', description: 'Servicios y productos con precio' },
+  services: { source: 'catalog', description: 'Servicios con precio' },
+  products: { source: 'catalog', description: 'Productos con precio' },
+  agent: { source: 'agent', description: 'Nombre del agente' },
+};
+
+export interface RenderedResponse {
+  content: string; // Missing variables keep their {{placeholder}}
+  variables: string[];
+  missingVariables: string[];
+}
+
+interface PricedItem {
+  name: string;
+  price: { toString(): string };
+  duration?: number;
+  category?: string | null;
+}
+
+const DAY_NAMES: Record<string, string> = {
+  mon: 'Lunes',
+  tue: 'Martes',
+  wed: 'Miercoles',
+  thu: 'Jueves',
+  fri: 'Viernes',
+  sat: 'Sabado',
+  sun: 'Domingo',
+};
+
+/**
+ * Fill a canned response and report the variables nobody could fill
+ */
+export function renderResponse(content: string, values: Record<string, string | undefined>): RenderedResponse {
+  const variables = extractVariables(content);
+  const filled = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value.trim() !== '')
+  );
+
+  return {
+    content: renderTemplate(content, filled),
+    variables,
+    missingVariables: variables.filter(name => filled[name] === undefined),
+  };
+}
+
+/**
+ * Sources that have to be loaded to fill these variables
+ */
+export function sourcesFor(variables: string[]): Set<TemplateVariableSource> {
+  const sources = new Set<TemplateVariableSource>();
+  for (const name of variables) {
+    const variable = TEMPLATE_VARIABLES[name];
+    if (variable) sources.add(variable.source);
+  }
+  return sources;
+}
+
+export function formatServices(services: PricedItem[]): string {
+  return services
+    .map(s => `- ${s.name}: $${s.price.toString()}${s.duration ? ` (${s.duration} min)` : ''}`)
+    .join('\n');
+}
+
+export function formatProducts(products: PricedItem[]): string {
+  return products.map(p => `- ${p.name}: $${p.price.toString()}`).join('\n');
+}
+
+/**
+ * Services, then products; empty when the catalog is empty
+ */
+export function formatPriceList(services: PricedItem[], products: PricedItem[]): string {
+  return [formatServices(services), formatProducts(products)].filter(Boolean).join('\n');
+}
+
+/**
+ * "Lunes a Viernes, 09:00 - 18:00"
+ */
+export function formatSchedule(workingDays: string[], start: string, end: string): string {
+  const days = workingDays.map(day => DAY_NAMES[day] ?? day);
+  if (days.length === 0) return '';
+
+  const range = days.length > 2 && isConsecutive(workingDays)
+    ? `${days[0]} a ${days[days.length - 1]}`
+    : days.join(', ');
+
+  return `${range}, ${start} - ${end}`;
+}
+
+/**
+ * Date and time of an appointment as the customer sees them, in the business timezone
+ */
+export function formatAppointment(scheduledAt: Date, timeZone: string): { date: string; time: string } {
+  return {
+    date: new Intl.DateTimeFormat('es-MX', { timeZone, weekday: 'long', day: 'numeric', month: 'long' }).format(scheduledAt),
+    time: new Intl.DateTimeFormat('es-MX', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false }).format(scheduledAt),
+  };
+}
+
+function isConsecutive(workingDays: string[]): boolean {
+  const order = Object.keys(DAY_NAMES);
+  const indexes = workingDays.map(day => order.indexOf(day));
+  return indexes.every((index, i) => index !== -1 && (i === 0 || index === (indexes[i - 1] ?? -2) + 1));
+}
@@ -12,6 +12,16 @@ templatesRoutes.get('/categories', (req, res, next) =>
   templatesController.getCategories(req, res, next)
 );
 
+// Variables filled when rendering
+templatesRoutes.get('/variables', (req, res, next) =>
+  templatesController.getVariables(req, res, next)
+);
+
+// Shortcut lookup from the composer ("/precios")
+templatesRoutes.get('/shortcuts', (req, res, next) =>
+  templatesController.findByShortcut(req, res, next)
+);
+
 // CRUD operations
 templatesRoutes.get('/', (req, res, next) =>
   templatesController.getTemplates(req, res, next)
@@ -33,6 +43,11 @@ templatesRoutes.delete('/:id', (req, res, next) =>
   templatesController.deleteTemplate(req, res, next)
 );
 
+// Render for a customer
+templatesRoutes.post('/:id/render', (req, res, next) =>
+  templatesController.renderTemplate(req, res, next)
+);
+
 // Use template
 templatesRoutes.post('/:id/use', (req, res, next) =>
   templatesController.useTemplate(req, res, next)
@@ -1,7 +1,20 @@
+import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import { AppError } from '../../shared/middleware/error.handler.js';
+import { AppError, NotFoundError, ValidationError } from '../../shared/middleware/error.handler.js';
+import { extractVariables } from '../../shared/utils/template.js';
 import type { TemplateCategory } from '@prisma/client';
+import {
+  TEMPLATE_VARIABLES,
+  formatAppointment,
+  formatPriceList,
+  formatProducts,
+  formatSchedule,
+  formatServices,
+  renderResponse,
+  sourcesFor,
+  type RenderedResponse,
+} from './templates.render.js';
 
 const logger = createModuleLogger('templates');
 
@@ -15,6 +28,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Hola {{name}}! Bienvenido a {{business}}. ¿En que puedo ayudarte hoy?',
     variables: ['name', 'business'],
+    shortcut: 'saludo',
     isGlobal: true,
   },
   {
@@ -24,6 +38,7 @@ const DEFAULT_TEMPLATES = [
     industry: 'salon',
     content: 'Hola {{name}}! Bienvenida a {{business}}. ¿Te gustaria agendar una cita o conocer nuestros servicios?',
     variables: ['name', 'business'],
+    shortcut: 'saludo-salon',
     isGlobal: true,
   },
   {
@@ -33,6 +48,7 @@ const DEFAULT_TEMPLATES = [
     industry: 'restaurant',
     content: 'Hola {{name}}! Gracias por contactar {{business}}. ¿Deseas hacer una reservacion o ver nuestro menu?',
     variables: ['name', 'business'],
+    shortcut: 'saludo-restaurante',
     isGlobal: true,
   },
   // Appointment templates
@@ -41,8 +57,9 @@ const DEFAULT_TEMPLATES = [
     description: 'Confirmar una cita agendada',
     category: 'APPOINTMENT' as TemplateCategory,
     industry: null,
-    content: 'Tu cita ha sido confirmada para el {{date}} a las {{time}}. Te esperamos en {{address}}. Si necesitas cambiarla, avisanos con anticipacion.',
-    variables: ['date', 'time', 'address'],
+    content: 'Tu cita de {{service}} ha sido confirmada para el {{date}} a las {{time}}. Te esperamos en {{business}}. Si necesitas cambiarla, avisanos con anticipacion.',
+    variables: ['service', 'date', 'time', 'business'],
+    shortcut: 'confirmar-cita',
     isGlobal: true,
   },
   {
@@ -52,6 +69,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Hola {{name}}! Te recordamos que tienes una cita manana {{date}} a las {{time}}. ¿Confirmas tu asistencia?',
     variables: ['name', 'date', 'time'],
+    shortcut: 'recordatorio',
     isGlobal: true,
   },
   // Pricing templates
@@ -62,6 +80,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Estos son nuestros precios:\n\n{{price_list}}\n\n¿Te gustaria agendar alguno de estos servicios?',
     variables: ['price_list'],
+    shortcut: 'precios',
     isGlobal: true,
   },
   // Hours templates
@@ -72,6 +91,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Nuestro horario de atencion es:\n\n{{schedule}}\n\n¿En que horario te gustaria visitarnos?',
     variables: ['schedule'],
+    shortcut: 'horario',
     isGlobal: true,
   },
   // Thanks templates
@@ -82,6 +102,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Gracias por tu preferencia {{name}}! Fue un placer atenderte. Esperamos verte pronto.',
     variables: ['name'],
+    shortcut: 'gracias',
     isGlobal: true,
   },
   // Goodbye templates
@@ -92,6 +113,7 @@ const DEFAULT_TEMPLATES = [
     industry: null,
     content: 'Hasta pronto {{name}}! Si tienes alguna otra pregunta, no dudes en escribirnos. Que tengas un excelente dia!',
     variables: ['name'],
+    shortcut: 'despedida',
     isGlobal: true,
   },
 ];
@@ -103,6 +125,7 @@ export interface CreateTemplateInput {
   industry?: string;
   content: string;
   variables?: string[];
+  shortcut?: string | null;
 }
 
 export interface UpdateTemplateInput {
@@ -112,8 +135,17 @@ export interface UpdateTemplateInput {
   industry?: string;
   content?: string;
   variables?: string[];
+  shortcut?: string | null;
 }
 
+export const renderTemplateSchema = z.object({
+  conversationId: z.string().optional(), // Fills the contact variables from its customer
+  contactId: z.string().optional(),
+  variables: z.record(z.string()).optional(), // Typed by the agent, override what is resolved
+});
+
+export type RenderTemplateInput = z.infer<typeof renderTemplateSchema>;
+
 export class TemplatesService {
   /**
    * Get all templates (global + tenant-specific)
@@ -164,10 +196,13 @@ export class TemplatesService {
    * Create a custom template for a tenant
    */
   async createTemplate(tenantId: string, input: CreateTemplateInput) {
+    const shortcut = await this.checkShortcut(tenantId, input.shortcut);
+
     const template = await prisma.responseTemplate.create({
       data: {
         ...input,
-        variables: input.variables || [],
+        variables: input.variables || extractVariables(input.content),
+        shortcut,
         tenantId,
         isGlobal: false,
       },
@@ -190,9 +225,18 @@ export class TemplatesService {
       throw new AppError(404, 'TEMPLATE_NOT_FOUND', 'Template not found or not owned by tenant');
     }
 
+    const shortcut = input.shortcut !== undefined
+      ? await this.checkShortcut(tenantId, input.shortcut, id)
+      : undefined;
+
     const template = await prisma.responseTemplate.update({
       where: { id },
-      data: input,
+      data: {
+        ...input,
+        // Keep the placeholders in sync with the text
+        ...(input.content !== undefined && !input.variables ? { variables: extractVariables(input.content) } : {}),
+        ...(shortcut !== undefined ? { shortcut } : {}),
+      },
     });
 
     logger.info({ tenantId, templateId: id }, 'Template updated');
@@ -234,7 +278,65 @@ export class TemplatesService {
   }
 
   /**
-   * Seed default templates (run once on setup)
+   * Templates whose shortcut starts with what the agent typed after "/".
+   * A tenant template hides a global one with the same shortcut.
+   */
+  async findByShortcut(tenantId: string, typed: string) {
+    const prefix = normalizeShortcut(typed);
+
+    const templates = await prisma.responseTemplate.findMany({
+      where: {
+        shortcut: { startsWith: prefix },
+        OR: [{ isGlobal: true }, { tenantId }],
+      },
+      orderBy: [{ shortcut: 'asc' }, { usageCount: 'desc' }],
+      take: 20,
+    });
+
+    const byShortcut = new Map<string, (typeof templates)[number]>();
+    for (const template of templates) {
+      const current = byShortcut.get(template.shortcut ?? '');
+      if (!current || (current.isGlobal && !template.isGlobal)) {
+        byShortcut.set(template.shortcut ?? '', template);
+      }
+    }
+
+    return [...byShortcut.values()];
+  }
+
+  /**
+   * Fill a template for a customer. Variables that could not be filled are
+   * reported so the agent completes them before sending.
+   */
+  async renderTemplate(
+    id: string,
+    tenantId: string,
+    userId: string,
+    input: RenderTemplateInput
+  ): Promise<RenderedResponse & { templateId: string; canSend: boolean }> {
+    const template = await this.getTemplate(id, tenantId);
+
+    const contactId = await this.resolveContactId(tenantId, input);
+    const resolved = await this.resolveVariables(tenantId, userId, contactId, extractVariables(template.content));
+    const rendered = renderResponse(template.content, { ...resolved, ...input.variables });
+
+    return {
+      templateId: template.id,
+      ...rendered,
+      canSend: rendered.missingVariables.length === 0,
+    };
+  }
+
+  /**
+   * Variables the inbox fills by itself
+   */
+  getVariables() {
+    return Object.entries(TEMPLATE_VARIABLES).map(([name, variable]) => ({ name, ...variable }));
+  }
+
+  /**
+   * Seed default templates (run once on setup). Global templates seeded by
+   * an older version get the current shortcut and text.
    */
   async seedDefaultTemplates() {
     const existingCount = await prisma.responseTemplate.count({
@@ -242,7 +344,16 @@ export class TemplatesService {
     });
 
     if (existingCount > 0) {
-      logger.info('Default templates already exist, skipping seed');
+      let updated = 0;
+      for (const template of DEFAULT_TEMPLATES) {
+        const result = await prisma.responseTemplate.updateMany({
+          where: { isGlobal: true, tenantId: null, name: template.name },
+          data: { shortcut: template.shortcut, content: template.content, variables: template.variables },
+        });
+        updated += result.count;
+      }
+
+      logger.info({ updated }, 'Default templates already exist, refreshed them');
       return;
     }
 
@@ -270,6 +381,133 @@ export class TemplatesService {
       { id: 'CUSTOM', name: 'Personalizados', description: 'Templates personalizados' },
     ];
   }
+
+  private async resolveContactId(tenantId: string, input: RenderTemplateInput): Promise<string | null> {
+    if (input.conversationId) {
+      const conversation = await prisma.conversation.findFirst({
+        where: { id: input.conversationId, tenantId },
+        select: { contactId: true },
+      });
+      if (!conversation) throw new NotFoundError('Conversation');
+      return conversation.contactId;
+    }
+
+    if (input.contactId) {
+      const contact = await prisma.contact.count({ where: { id: input.contactId, tenantId } });
+      if (!contact) throw new NotFoundError('Contact');
+      return input.contactId;
+    }
+
+    return null;
+  }
+
+  /**
+   * Load only the sources the template uses
+   */
+  private async resolveVariables(
+    tenantId: string,
+    userId: string,
+    contactId: string | null,
+    variables: string[]
+  ): Promise<Record<string, string | undefined>> {
+    const sources = sourcesFor(variables);
+    const values: Record<string, string | undefined> = {};
+
+    const tenant = sources.has('tenant') || sources.has('appointment')
+      ? await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: {
+          name: true,
+          businessName: true,
+          businessDescription: true,
+          timezone: true,
+          workingDays: true,
+          workingHoursStart: true,
+          workingHoursEnd: true,
+        },
+      })
+      : null;
+
+    if (tenant && sources.has('tenant')) {
+      values.business = tenant.businessName ?? tenant.name;
+      values.business_description = tenant.businessDescription ?? undefined;
+      values.schedule = formatSchedule(tenant.workingDays, tenant.workingHoursStart, tenant.workingHoursEnd);
+    }
+
+    if (contactId && sources.has('contact')) {
+      const contact = await prisma.contact.findUnique({
+        where: { id: contactId },
+        select: { name: true, phone: true, email: true },
+      });
+      values.name = contact?.name ?? undefined;
+      values.first_name = contact?.name?.trim().split(/\s+/)[0];
+      values.phone = contact?.phone;
+      values.email = contact?.email ?? undefined;
+    }
+
+    if (tenant && contactId && sources.has('appointment')) {
+      const appointment = await prisma.appointment.findFirst({
+        where: {
+          tenantId,
+          contactId,
+          scheduledAt: { gte: new Date() },
+          status: { in: ['SCHEDULED', 'CONFIRMED'] },
+        },
+        orderBy: { scheduledAt: 'asc' },
+        select: { scheduledAt: true, title: true, service: { select: { name: true } } },
+      });
+
+      if (appointment) {
+        Object.assign(values, formatAppointment(appointment.scheduledAt, tenant.timezone));
+        values.service = appointment.service?.name ?? appointment.title;
+      }
+    }
+
+    if (sources.has('catalog')) {
+      const [services, products] = await Promise.all([
+        prisma.service.findMany({ where: { tenantId, isActive: true }, orderBy: { name: 'asc' } }),
+        prisma.product.findMany({ where: { tenantId, isActive: true }, orderBy: { name: 'asc' } }),
+      ]);
+      values.price_list = formatPriceList(services, products);
+      values.services = formatServices(services);
+      values.products = formatProducts(products);
+    }
+
+    if (sources.has('agent')) {
+      const user = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: { name: true } });
+      values.agent = user?.name;
+    }
+
+    return values;
+  }
+
+  /**
+   * Shortcuts are unique per tenant; returns the normalized value
+   */
+  private async checkShortcut(tenantId: string, shortcut: string | null | undefined, excludeId?: string) {
+    if (!shortcut) return null;
+
+    const normalized = normalizeShortcut(shortcut);
+    if (!/^[a-z0-9_-]+$/.test(normalized)) {
+      throw new ValidationError('Shortcuts may only contain letters, numbers, "-" and "_"');
+    }
+
+    const taken = await prisma.responseTemplate.count({
+      where: { tenantId, shortcut: normalized, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    });
+    if (taken) {
+      throw new AppError(409, 'SHORTCUT_TAKEN', `Another template already uses /${normalized}`);
+    }
+
+    return normalized;
+  }
+}
+
+/**
+ * "/Precios " -> "precios"
+ */
+function normalizeShortcut(shortcut: string): string {
+  return shortcut.trim().replace(/^\//, '').toLowerCase();
 }
 
 export const templatesService = new TemplatesService();
@@ -1,7 +1,11 @@
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../config/database.js';
 import { NotFoundError, ValidationError, AuthorizationError } from '../../shared/middleware/error.handler.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
+import { llmRoutesSchema } from '../ai/llm.router.js';
+import { templateFallbacksSchema } from '../whatsapp/whatsapp.window.js';
+import { routingService } from '../routing/routing.service.js';
 
 const logger = createModuleLogger('tenant');
 
@@ -14,6 +18,14 @@ export const updateTenantSchema = z.object({
   workingHoursStart: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   workingHoursEnd: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   workingDays: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).optional(),
+  ragMinSimilarity: z.number().min(0).max(1).optional(),
+  aiRoutes: llmRoutesSchema.nullable().optional(), // null = use the deployment defaults
+  replyBatchWindowSeconds: z.number().int().min(0).max(60).optional(),
+  templateFallbacks: templateFallbacksSchema.nullable().optional(),
+  sendReadReceipts: z.boolean().optional(),
+  autoCloseAfterHours: z.number().int().min(1).max(24 * 90).nullable().optional(), // null = never
+  reopenWithinHours: z.number().int().min(0).max(24 * 30).optional(), // 0 = always start a new conversation
+  routingStrategy: z.enum(['MANUAL', 'ROUND_ROBIN', 'LEAST_BUSY', 'SKILLS_MATCH']).optional(),
 });
 
 export const updateWhatsAppConfigSchema = z.object({
@@ -51,6 +63,14 @@ export class TenantService {
         workingHoursStart: true,
         workingHoursEnd: true,
         workingDays: true,
+        ragMinSimilarity: true,
+        aiRoutes: true,
+        replyBatchWindowSeconds: true,
+        templateFallbacks: true,
+        sendReadReceipts: true,
+        autoCloseAfterHours: true,
+        reopenWithinHours: true,
+        routingStrategy: true,
         maxOutboundMessagesPerDay: true,
         maxDocuments: true,
         maxContacts: true,
@@ -83,12 +103,25 @@ export class TenantService {
     if (input.workingHoursStart !== undefined) data.workingHoursStart = input.workingHoursStart;
     if (input.workingHoursEnd !== undefined) data.workingHoursEnd = input.workingHoursEnd;
     if (input.workingDays !== undefined) data.workingDays = input.workingDays;
+    if (input.ragMinSimilarity !== undefined) data.ragMinSimilarity = input.ragMinSimilarity;
+    if (input.aiRoutes !== undefined) data.aiRoutes = input.aiRoutes ?? Prisma.DbNull;
+    if (input.replyBatchWindowSeconds !== undefined) data.replyBatchWindowSeconds = input.replyBatchWindowSeconds;
+    if (input.templateFallbacks !== undefined) data.templateFallbacks = input.templateFallbacks ?? Prisma.DbNull;
+    if (input.sendReadReceipts !== undefined) data.sendReadReceipts = input.sendReadReceipts;
+    if (input.autoCloseAfterHours !== undefined) data.autoCloseAfterHours = input.autoCloseAfterHours;
+    if (input.reopenWithinHours !== undefined) data.reopenWithinHours = input.reopenWithinHours;
+    if (input.routingStrategy !== undefined) data.routingStrategy = input.routingStrategy;
 
     const tenant = await prisma.tenant.update({
       where: { id: tenantId },
       data,
     });
 
+    // Waiting conversations follow the new strategy (or leave the queue for manual routing)
+    if (input.routingStrategy !== undefined) {
+      await routingService.drainQueue(tenantId);
+    }
+
     logger.info({ tenantId }, 'Tenant updated');
 
     return tenant;
@@ -0,0 +1,56 @@
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import type { SpeechToTextProvider } from './stt.provider.js';
+
+const logger = createModuleLogger('stt-http');
+
+interface TranscriptionApiResponse {
+  text: string;
+}
+
+/**
+ * Transcription through an OpenAI-compatible /audio/transcriptions endpoint (OpenAI, Groq, faster-whisper-server...)
+ */
+export class HttpSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'http';
+
+  private url: string;
+  private apiKey: string | undefined;
+  private model: string;
+  private language: string;
+
+  constructor(config: { url: string | undefined; apiKey: string | undefined; model: string; language: string }) {
+    if (!config.url) {
+      throw new AppError(500, 'STT_NOT_CONFIGURED', 'STT_API_URL is required for the http speech-to-text provider');
+    }
+
+    this.url = config.url;
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.language = config.language;
+  }
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), 'audio');
+    form.append('model', this.model);
+    form.append('language', this.language);
+    form.append('response_format', 'json');
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, { method: 'POST', headers, body: form });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      logger.error({ url: this.url, status: response.status, error: errorBody }, 'Transcription API error');
+      throw new AppError(502, 'TRANSCRIPTION_FAILED', `Transcription API error: ${response.statusText}`);
+    }
+
+    const body = await response.json() as TranscriptionApiResponse;
+    return body.text.trim();
+  }
+}
@@ -0,0 +1,39 @@
+import { env } from '../../config/env.js';
+import { WhisperCppProvider } from './whisper-cpp-stt.provider.js';
+import { HttpSpeechToTextProvider } from './http-stt.provider.js';
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+
+  /**
+   * Transcribe an audio file (any format WhatsApp sends, e.g. ogg/opus voice notes)
+   */
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+let sttProvider: SpeechToTextProvider | null = null;
+
+/**
+ * Get the speech-to-text provider configured for this deployment, or null if transcription is off
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+  if (env.STT_PROVIDER === 'none') return null;
+
+  if (!sttProvider) {
+    sttProvider = env.STT_PROVIDER === 'http'
+      ? new HttpSpeechToTextProvider({
+        url: env.STT_API_URL,
+        apiKey: env.STT_API_KEY,
+        model: env.STT_MODEL,
+        language: env.STT_LANGUAGE,
+      })
+      : new WhisperCppProvider({
+        binary: env.WHISPER_CPP_BIN,
+        model: env.WHISPER_CPP_MODEL,
+        ffmpeg: env.FFMPEG_BIN,
+        language: env.STT_LANGUAGE,
+      });
+  }
+
+  return sttProvider;
+}
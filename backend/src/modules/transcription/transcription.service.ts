@@ -0,0 +1,63 @@
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { NotFoundError } from '../../shared/middleware/error.handler.js';
+import { mediaService } from '../media/media.service.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { getSpeechToTextProvider } from './stt.provider.js';
+
+const logger = createModuleLogger('transcription');
+
+export class TranscriptionService {
+  /**
+   * Transcribe an inbound voice note and keep the transcript on the message.
+   * Returns the transcript, or null if the message is not audio or transcription is off.
+   */
+  async transcribeMessage(tenantId: string, messageId: string): Promise<string | null> {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, tenantId },
+      select: { id: true, type: true, conversationId: true, transcript: true },
+    });
+
+    if (!message) throw new NotFoundError('Message');
+
+    if (message.type !== 'AUDIO') return null;
+
+    // Already transcribed (e.g. a retried job)
+    if (message.transcript !== null) {
+      return message.transcript || null;
+    }
+
+    // The audio is stored even when transcription is off, so agents can play it
+    await mediaService.storeInboundMedia(tenantId, messageId);
+
+    const provider = getSpeechToTextProvider();
+    if (!provider) return null;
+
+    const media = await mediaService.getMessageMedia(tenantId, messageId);
+    const startTime = Date.now();
+    const transcript = await provider.transcribe(media.data, media.mediaType);
+
+    await prisma.message.update({
+      where: { id: message.id },
+      data: { transcript, transcribedAt: new Date() },
+    });
+
+    emitToTenant(tenantId, 'message_transcribed', {
+      conversationId: message.conversationId,
+      messageId: message.id,
+      transcript,
+    });
+
+    logger.info({
+      tenantId,
+      messageId,
+      provider: provider.name,
+      chars: transcript.length,
+      durationMs: Date.now() - startTime,
+    }, 'Voice note transcribed');
+
+    return transcript || null;
+  }
+}
+
+export const transcriptionService = new TranscriptionService();
@@ -0,0 +1,75 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { AppError } from '../../shared/middleware/error.handler.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import type { SpeechToTextProvider } from './stt.provider.js';
+
+const logger = createModuleLogger('stt-whisper-cpp');
+const run = promisify(execFile);
+
+// Voice notes are short; anything slower than this is stuck
+const COMMAND_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Transcription on the CPU with the whisper.cpp CLI.
+ * Audio is converted to the 16 kHz mono WAV whisper.cpp expects with ffmpeg first.
+ */
+export class WhisperCppProvider implements SpeechToTextProvider {
+  readonly name = 'whisper-cpp';
+
+  private binary: string;
+  private model: string;
+  private ffmpeg: string;
+  private language: string;
+
+  // whisper.cpp already uses every core, so transcriptions run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: { binary: string; model: string; ffmpeg: string; language: string }) {
+    this.binary = config.binary;
+    this.model = config.model;
+    this.ffmpeg = config.ffmpeg;
+    this.language = config.language;
+  }
+
+  transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    const result = this.queue.then(() => this.runTranscription(audio, mimeType));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runTranscription(audio: Buffer, mimeType: string): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'stt-'));
+    const input = join(dir, 'input');
+    const wav = join(dir, 'audio.wav');
+    const output = join(dir, 'transcript');
+
+    try {
+      await writeFile(input, audio);
+
+      await this.exec(this.ffmpeg, ['-nostdin', '-loglevel', 'error', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav]);
+      await this.exec(this.binary, ['-m', this.model, '-f', wav, '-l', this.language, '-nt', '-np', '-otxt', '-of', output]);
+
+      const text = await readFile(`${output}.txt`, 'utf8');
+
+      logger.debug({ mimeType, bytes: audio.length, chars: text.length }, 'Audio transcribed');
+
+      return text.replace(/\s+/g, ' ').trim();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async exec(command: string, args: string[]): Promise<void> {
+    try {
+      await run(command, args, { timeout: COMMAND_TIMEOUT_MS });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr;
+      logger.error({ command, error: stderr || (error as Error).message }, 'Transcription command failed');
+      throw new AppError(502, 'TRANSCRIPTION_FAILED', `${command} failed`);
+    }
+  }
+}
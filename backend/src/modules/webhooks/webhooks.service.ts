@@ -425,6 +425,9 @@ class WebhooksService {
       { event: 'APPOINTMENT_REMINDER', description: 'When an appointment reminder is sent', category: 'Appointments' },
       // AI
       { event: 'AI_HANDOFF_REQUESTED', description: 'When AI requests human handoff', category: 'AI' },
+      // SLA
+      { event: 'SLA_WARNING', description: 'When an SLA target is about to be missed', category: 'SLA' },
+      { event: 'SLA_BREACHED', description: 'When an SLA target is missed', category: 'SLA' },
     ];
   }
 }
@@ -0,0 +1,100 @@
+import { createHmac } from 'crypto';
+import type { WhatsAppMessage, WhatsAppWebhookPayload } from '../../shared/types/index.js';
+
+type WebhookValue = WhatsAppWebhookPayload['entry'][number]['changes'][number]['value'];
+export type WebhookStatus = NonNullable<WebhookValue['statuses']>[number];
+
+export interface SimulatedBusinessNumber {
+  id: string; // phone_number_id
+  displayPhoneNumber: string;
+}
+
+/**
+ * Cloud API error bodies for the failures the simulator can inject
+ */
+export const SIMULATED_ERRORS = {
+  rate_limit: {
+    httpStatus: 429,
+    error: { message: '(#130429) Rate limit hit', type: 'OAuthException', code: 130429 },
+  },
+  expired_token: {
+    httpStatus: 401,
+    error: {
+      message: 'Error validating access token: Session has expired.',
+      type: 'OAuthException',
+      code: 190,
+      error_subcode: 463,
+    },
+  },
+  invalid_token: {
+    httpStatus: 401,
+    error: { message: 'Invalid OAuth access token - Cannot parse access token', type: 'OAuthException', code: 190 },
+  },
+  server_error: {
+    httpStatus: 500,
+    error: { message: '(#131000) Something went wrong', type: 'OAuthException', code: 131000 },
+  },
+} as const;
+
+export type SimulatedFailure = keyof typeof SIMULATED_ERRORS;
+
+/**
+ * Graph-style error response body
+ */
+export function buildErrorBody(failure: SimulatedFailure, fbtraceId: string) {
+  return { error: { ...SIMULATED_ERRORS[failure].error, fbtrace_id: fbtraceId } };
+}
+
+/**
+ * Webhook for a message the customer sent to a business number
+ */
+export function buildInboundPayload(
+  businessAccountId: string,
+  number: SimulatedBusinessNumber,
+  message: WhatsAppMessage,
+  profileName: string
+): WhatsAppWebhookPayload {
+  return wrap(businessAccountId, number, {
+    contacts: [{ profile: { name: profileName }, wa_id: message.from }],
+    messages: [message],
+  });
+}
+
+/**
+ * Webhook for a delivery status of a message the business sent
+ */
+export function buildStatusPayload(
+  businessAccountId: string,
+  number: SimulatedBusinessNumber,
+  status: WebhookStatus
+): WhatsAppWebhookPayload {
+  return wrap(businessAccountId, number, { statuses: [status] });
+}
+
+/**
+ * X-Hub-Signature-256 header value Meta would send for this body
+ */
+export function signPayload(body: string, appSecret: string): string {
+  return `sha256=${createHmac('sha256', appSecret).update(body).digest('hex')}`;
+}
+
+function wrap(
+  businessAccountId: string,
+  number: SimulatedBusinessNumber,
+  value: Pick<WebhookValue, 'contacts' | 'messages' | 'statuses'>
+): WhatsAppWebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: businessAccountId,
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: number.displayPhoneNumber, phone_number_id: number.id },
+          ...value,
+        },
+      }],
+    }],
+  };
+}
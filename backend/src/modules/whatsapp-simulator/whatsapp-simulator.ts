@@ -0,0 +1,508 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import multer from 'multer';
+import { createHash, randomBytes } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import type { WhatsAppMessage, WhatsAppWebhookPayload } from '../../shared/types/index.js';
+import {
+  SIMULATED_ERRORS,
+  buildErrorBody,
+  buildInboundPayload,
+  buildStatusPayload,
+  signPayload,
+  type SimulatedBusinessNumber,
+  type SimulatedFailure,
+  type WebhookStatus,
+} from './whatsapp-simulator.payloads.js';
+
+// Free-form messages are rejected this long after the customer's last message
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface WhatsAppSimulatorOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  apiVersion?: string;
+  webhookUrl?: string | null; // Where inbound messages and statuses are posted
+  appSecret?: string | null; // Signs webhooks like Meta does
+  accessTokens?: string[]; // Accepted bearer tokens (empty = any)
+  businessAccountId?: string;
+  numbers?: SimulatedBusinessNumber[];
+  statusDelayMs?: number; // Pause before each status webhook
+  autoRead?: boolean; // Virtual phones read what they receive
+  enforceServiceWindow?: boolean; // Fail free-form messages outside the 24h window
+}
+
+/** Message received by a virtual phone */
+export interface PhoneMessage {
+  id: string;
+  phoneNumberId: string; // Business number it came from
+  to: string;
+  type: string;
+  body: Record<string, unknown>; // Request body as sent to /messages
+  status: WebhookStatus['status'];
+  receivedAt: Date;
+}
+
+/** Message a virtual phone sent to the business */
+export interface PhoneOutboxMessage {
+  id: string;
+  from: string;
+  phoneNumberId: string;
+  message: WhatsAppMessage;
+  readAt: Date | null; // Set when the business marks it as read
+}
+
+export interface WebhookDelivery {
+  payload: WhatsAppWebhookPayload;
+  status: number | null; // HTTP status of the app's response, null if unreachable
+  error: string | null;
+}
+
+export type SimulatedInboundContent = string | Omit<WhatsAppMessage, 'id' | 'from' | 'timestamp'>;
+
+const phoneMessageSchema = z.object({
+  to: z.string().optional(), // Business phone_number_id (default: first number)
+  name: z.string().optional(),
+  text: z.string().min(1).optional(),
+  message: z.record(z.unknown()).optional(), // Raw WhatsAppMessage without id/from/timestamp
+}).refine(data => data.text || data.message, { message: 'text or message is required' });
+
+const failureSchema = z.object({
+  failure: z.enum(Object.keys(SIMULATED_ERRORS) as [SimulatedFailure, ...SimulatedFailure[]]),
+  times: z.number().int().min(1).default(1),
+});
+
+/**
+ * In-memory stand-in for the WhatsApp Cloud API.
+ * Serves the Graph endpoints the app calls (messages, mark as read, media), keeps an inbox
+ * per virtual phone and posts signed webhooks back to the app, so the inbound → AI → outbound
+ * loop runs without a Meta account. Control endpoints live under /_simulator.
+ */
+export class WhatsAppCloudSimulator {
+  readonly businessAccountId: string;
+  readonly numbers: SimulatedBusinessNumber[];
+
+  private options: Required<Omit<WhatsAppSimulatorOptions, 'numbers' | 'businessAccountId'>>;
+  private server: Server | null = null;
+  private baseUrl = '';
+
+  private inboxes = new Map<string, PhoneMessage[]>();
+  private outbox = new Map<string, PhoneOutboxMessage>();
+  private media = new Map<string, { data: Buffer; mimeType: string; sha256: string }>();
+  private lastInboundAt = new Map<string, number>();
+  private failures: SimulatedFailure[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private pending = new Set<Promise<void>>();
+
+  constructor(options: WhatsAppSimulatorOptions = {}) {
+    this.businessAccountId = options.businessAccountId ?? '200000000000001';
+    this.numbers = options.numbers?.length
+      ? options.numbers
+      : [{ id: '100000000000001', displayPhoneNumber: '15550000001' }];
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+      apiVersion: options.apiVersion ?? 'v18.0',
+      webhookUrl: options.webhookUrl ?? null,
+      appSecret: options.appSecret ?? null,
+      accessTokens: options.accessTokens ?? [],
+      statusDelayMs: options.statusDelayMs ?? 0,
+      autoRead: options.autoRead ?? false,
+      enforceServiceWindow: options.enforceServiceWindow ?? true,
+    };
+  }
+
+  /**
+   * Start listening, resolves with the Graph base URL (use it as WHATSAPP_API_URL)
+   */
+  async start(): Promise<string> {
+    const app = this.createApp();
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(this.options.port, this.options.host, () => resolve());
+      this.server.once('error', reject);
+    });
+
+    const { port } = this.server!.address() as AddressInfo;
+    this.baseUrl = `http://${this.options.host}:${port}`;
+    return this.apiUrl;
+  }
+
+  /**
+   * Stop listening once pending webhooks are delivered
+   */
+  async stop(): Promise<void> {
+    await this.flush();
+    if (!this.server) return;
+
+    await new Promise<void>((resolve, reject) => this.server!.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  get apiUrl(): string {
+    return `${this.baseUrl}/${this.options.apiVersion}`;
+  }
+
+  /**
+   * Wait until every scheduled webhook has been posted
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Messages a virtual phone has received, oldest first
+   */
+  inbox(phone: string): PhoneMessage[] {
+    return this.inboxes.get(digits(phone)) ?? [];
+  }
+
+  /**
+   * Webhooks posted so far, oldest first
+   */
+  webhookDeliveries(): WebhookDelivery[] {
+    return [...this.deliveries];
+  }
+
+  /**
+   * Message a virtual phone sent, with its read state
+   */
+  sentMessage(id: string): PhoneOutboxMessage | null {
+    return this.outbox.get(id) ?? null;
+  }
+
+  /**
+   * Make the next `times` Graph calls fail
+   */
+  injectFailure(failure: SimulatedFailure, times = 1): void {
+    for (let i = 0; i < times; i++) this.failures.push(failure);
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Forget every message, media file, failure and delivery
+   */
+  reset(): void {
+    this.inboxes.clear();
+    this.outbox.clear();
+    this.media.clear();
+    this.lastInboundAt.clear();
+    this.failures = [];
+    this.deliveries = [];
+  }
+
+  /**
+   * Register a media file, e.g. for an image or voice note a phone sends
+   */
+  addMedia(data: Buffer, mimeType: string): string {
+    const id = String(Date.now()) + randomBytes(4).readUInt32BE(0);
+    this.media.set(id, { data, mimeType, sha256: createHash('sha256').update(data).digest('base64') });
+    return id;
+  }
+
+  /**
+   * A virtual phone writes to a business number: the webhook is posted to the app
+   */
+  async sendFromPhone(
+    phone: string,
+    content: SimulatedInboundContent,
+    options: { to?: string; name?: string } = {}
+  ): Promise<string> {
+    const number = this.findNumber(options.to);
+    const from = digits(phone);
+    const id = messageId();
+
+    const message = {
+      ...(typeof content === 'string' ? { type: 'text' as const, text: { body: content } } : content),
+      id,
+      from,
+      timestamp: unixTimestamp(),
+    } as WhatsAppMessage;
+
+    this.outbox.set(id, { id, from, phoneNumberId: number.id, message, readAt: null });
+    this.lastInboundAt.set(`${number.id}:${from}`, Date.now());
+
+    await this.post(buildInboundPayload(this.businessAccountId, number, message, options.name ?? `Sim ${from.slice(-4)}`));
+    return id;
+  }
+
+  private createApp() {
+    const app = express();
+    const upload = multer({ storage: multer.memoryStorage() });
+
+    app.use(express.json({ limit: '10mb' }));
+
+    // Control API for tests and manual runs
+    app.get('/_simulator/phones/:phone/messages', (req, res) => {
+      res.json({ data: this.inbox(req.params.phone as string) });
+    });
+
+    app.post('/_simulator/phones/:phone/messages', async (req, res, next) => {
+      try {
+        const input = phoneMessageSchema.parse(req.body);
+        const content = input.message
+          ? input.message as unknown as SimulatedInboundContent
+          : input.text!;
+        const id = await this.sendFromPhone(req.params.phone as string, content, {
+          ...(input.to ? { to: input.to } : {}),
+          ...(input.name ? { name: input.name } : {}),
+        });
+        res.status(201).json({ id });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.post('/_simulator/failures', (req, res, next) => {
+      try {
+        const { failure, times } = failureSchema.parse(req.body);
+        this.injectFailure(failure, times);
+        res.status(201).json({ pending: this.failures.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.delete('/_simulator/failures', (_req, res) => {
+      this.clearFailures();
+      res.status(204).end();
+    });
+
+    app.get('/_simulator/webhooks', (_req, res) => {
+      res.json({ data: this.deliveries });
+    });
+
+    app.post('/_simulator/reset', (_req, res) => {
+      this.reset();
+      res.status(204).end();
+    });
+
+    // Media downloads use the temporary URL handed out by the media lookup
+    app.get('/_simulator/media/:mediaId', this.authenticate, (req, res) => {
+      const file = this.media.get(req.params.mediaId as string);
+      if (!file) {
+        this.graphError(res, 404, 'Media not found', 100);
+        return;
+      }
+      res.type(file.mimeType).send(file.data);
+    });
+
+    // Graph API
+    const graph = express.Router();
+    graph.use(this.failInjected, this.authenticate);
+
+    graph.post('/:phoneNumberId/messages', (req, res) => this.handleMessages(req, res));
+
+    graph.post('/:phoneNumberId/media', upload.single('file'), (req, res) => {
+      if (!req.file) {
+        this.graphError(res, 400, 'Param file must be a file with one of the following types: ...', 100);
+        return;
+      }
+      res.json({ id: this.addMedia(req.file.buffer, req.body.type ?? req.file.mimetype) });
+    });
+
+    graph.get('/:mediaId', (req, res) => {
+      const file = this.media.get(req.params.mediaId as string);
+      if (!file) {
+        this.graphError(res, 404, `Unsupported get request. Object with ID '${req.params.mediaId}' does not exist`, 100);
+        return;
+      }
+      res.json({
+        messaging_product: 'whatsapp',
+        url: `${this.baseUrl}/_simulator/media/${req.params.mediaId}`,
+        mime_type: file.mimeType,
+        sha256: file.sha256,
+        file_size: file.data.length,
+        id: req.params.mediaId,
+      });
+    });
+
+    app.use(`/${this.options.apiVersion}`, graph);
+
+    app.use((_req, res) => this.graphError(res, 404, 'Unknown path components', 2500));
+
+    app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+      const message = error instanceof z.ZodError ? error.errors.map(e => e.message).join(', ') : String(error);
+      this.graphError(res, 400, message, 100);
+    });
+
+    return app;
+  }
+
+  /**
+   * POST /{phone-number-id}/messages: a send, or a read receipt when `status` is "read"
+   */
+  private handleMessages(req: Request, res: Response): void {
+    const number = this.numbers.find(n => n.id === req.params.phoneNumberId);
+    if (!number) {
+      this.graphError(res, 400, `Unsupported post request. Object with ID '${req.params.phoneNumberId}' does not exist`, 100);
+      return;
+    }
+
+    const body = req.body as Record<string, unknown>;
+
+    if (body.messaging_product !== 'whatsapp') {
+      this.graphError(res, 400, 'The parameter messaging_product is required.', 100);
+      return;
+    }
+
+    if (body.status === 'read') {
+      const inbound = this.outbox.get(String(body.message_id));
+      if (!inbound) {
+        this.graphError(res, 400, 'Invalid parameter', 100);
+        return;
+      }
+      inbound.readAt ??= new Date();
+      res.json({ success: true });
+      return;
+    }
+
+    if (typeof body.to !== 'string' || !body.to) {
+      this.graphError(res, 400, 'The parameter to is required.', 100);
+      return;
+    }
+
+    const to = digits(body.to);
+    const type = typeof body.type === 'string' ? body.type : 'text';
+    const message: PhoneMessage = {
+      id: messageId(),
+      phoneNumberId: number.id,
+      to,
+      type,
+      body,
+      status: 'sent',
+      receivedAt: new Date(),
+    };
+
+    const inbox = this.inboxes.get(to) ?? [];
+    inbox.push(message);
+    this.inboxes.set(to, inbox);
+
+    res.json({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: to }],
+      messages: [{ id: message.id }],
+    });
+
+    // Like Meta, a closed window is reported asynchronously as a failed status
+    const lastInbound = this.lastInboundAt.get(`${number.id}:${to}`);
+    const windowOpen = lastInbound !== undefined && Date.now() - lastInbound < SERVICE_WINDOW_MS;
+
+    if (this.options.enforceServiceWindow && type !== 'template' && !windowOpen) {
+      this.track(this.sendStatuses(number, message, ['failed']));
+    } else {
+      this.track(this.sendStatuses(number, message, this.options.autoRead ? ['sent', 'delivered', 'read'] : ['sent', 'delivered']));
+    }
+  }
+
+  private async sendStatuses(
+    number: SimulatedBusinessNumber,
+    message: PhoneMessage,
+    statuses: Array<WebhookStatus['status']>
+  ): Promise<void> {
+    for (const status of statuses) {
+      if (this.options.statusDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.options.statusDelayMs));
+      }
+
+      message.status = status;
+      await this.post(buildStatusPayload(this.businessAccountId, number, {
+        id: message.id,
+        status,
+        timestamp: unixTimestamp(),
+        recipient_id: message.to,
+        ...(status === 'failed'
+          ? {
+            errors: [{
+              code: 131047,
+              title: 'Re-engagement message',
+              message: 'More than 24 hours have passed since the recipient last replied to the sender number.',
+            }],
+          }
+          : {}),
+      }));
+    }
+  }
+
+  /**
+   * Post a webhook to the app; failures are recorded, never thrown
+   */
+  private async post(payload: WhatsAppWebhookPayload): Promise<void> {
+    if (!this.options.webhookUrl) {
+      this.deliveries.push({ payload, status: null, error: 'webhookUrl not configured' });
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.appSecret) {
+      headers['X-Hub-Signature-256'] = signPayload(body, this.options.appSecret);
+    }
+
+    try {
+      const response = await fetch(this.options.webhookUrl, { method: 'POST', headers, body });
+      this.deliveries.push({ payload, status: response.status, error: null });
+    } catch (error) {
+      this.deliveries.push({ payload, status: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private track(work: Promise<void>): void {
+    const promise = work.finally(() => this.pending.delete(promise));
+    this.pending.add(promise);
+  }
+
+  private failInjected = (_req: Request, res: Response, next: NextFunction): void => {
+    const failure = this.failures.shift();
+    if (!failure) {
+      next();
+      return;
+    }
+    res.status(SIMULATED_ERRORS[failure].httpStatus).json(buildErrorBody(failure, traceId()));
+  };
+
+  private authenticate = (req: Request, res: Response, next: NextFunction): void => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    const valid = token && (this.options.accessTokens.length === 0 || this.options.accessTokens.includes(token));
+
+    if (!valid) {
+      res.status(SIMULATED_ERRORS.invalid_token.httpStatus).json(buildErrorBody('invalid_token', traceId()));
+      return;
+    }
+    next();
+  };
+
+  private graphError(res: Response, httpStatus: number, message: string, code: number): void {
+    res.status(httpStatus).json({ error: { message, type: 'OAuthException', code, fbtrace_id: traceId() } });
+  }
+
+  private findNumber(phoneNumberId?: string): SimulatedBusinessNumber {
+    const number = phoneNumberId ? this.numbers.find(n => n.id === phoneNumberId) : this.numbers[0];
+    if (!number) {
+      throw new Error(`Unknown business number: ${phoneNumberId}`);
+    }
+    return number;
+  }
+}
+
+function digits(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+function messageId(): string {
+  return `wamid.${randomBytes(24).toString('base64url')}`;
+}
+
+function traceId(): string {
+  return randomBytes(8).toString('base64url');
+}
+
+function unixTimestamp(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
@@ -0,0 +1,152 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { WhatsAppTemplateStatus } from '@prisma/client';
+import { whatsappTemplatesService, createWhatsAppTemplateSchema } from './whatsapp-templates.service.js';
+import type { ApiResponse } from '../../shared/types/index.js';
+
+export class WhatsAppTemplatesController {
+  /**
+   * GET /api/whatsapp-templates
+   */
+  async list(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const templates = await whatsappTemplatesService.list(
+        req.context.tenantId,
+        req.query.status as WhatsAppTemplateStatus | undefined
+      );
+
+      res.json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/whatsapp-templates/:id
+   */
+  async get(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const template = await whatsappTemplatesService.get(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/whatsapp-templates - Create and submit for approval
+   */
+  async create(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = createWhatsAppTemplateSchema.parse(req.body);
+      const template = await whatsappTemplatesService.create(req.context.tenantId, input);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/whatsapp-templates/sync - Pull templates from the Business Account
+   */
+  async sync(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const result = await whatsappTemplatesService.sync(req.context.tenantId);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/whatsapp-templates/:id
+   */
+  async delete(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      await whatsappTemplatesService.delete(req.context.tenantId, req.params.id as string);
+
+      res.json({
+        success: true,
+        data: { deleted: true },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const whatsappTemplatesController = new WhatsAppTemplatesController();
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { whatsappTemplatesController } from './whatsapp-templates.controller.js';
+import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
+
+export const whatsappTemplatesRoutes = Router();
+
+// All routes require authentication
+whatsappTemplatesRoutes.use(authMiddleware);
+
+whatsappTemplatesRoutes.get('/', (req, res, next) => whatsappTemplatesController.list(req, res, next));
+whatsappTemplatesRoutes.post('/', (req, res, next) => whatsappTemplatesController.create(req, res, next));
+whatsappTemplatesRoutes.post('/sync', (req, res, next) => whatsappTemplatesController.sync(req, res, next));
+whatsappTemplatesRoutes.get('/:id', (req, res, next) => whatsappTemplatesController.get(req, res, next));
+whatsappTemplatesRoutes.delete('/:id', (req, res, next) => whatsappTemplatesController.delete(req, res, next));
+
+// Health check
+whatsappTemplatesRoutes.get('/health', (_req, res) => {
+  res.json({ module: 'whatsapp-templates', status: 'ok' });
+});
@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import type { Prisma, WhatsAppTemplateStatus } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { AppError, NotFoundError } from '../../shared/middleware/error.handler.js';
+import { whatsappService } from '../whatsapp/whatsapp.service.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { countPlaceholders } from './whatsapp-templates.validation.js';
+
+const logger = createModuleLogger('whatsapp-templates');
+
+// Sample values are required by Meta's review for every placeholder
+const exampleValues = z.array(z.string().min(1)).min(1);
+
+export const createWhatsAppTemplateSchema = z.object({
+  name: z.string().min(1).max(512).regex(/^[a-z0-9_]+$/, 'Use lowercase letters, numbers and underscores'),
+  language: z.string().min(2).max(10).default('es'),
+  category: z.enum(['MARKETING', 'UTILITY', 'AUTHENTICATION']),
+  header: z.discriminatedUnion('format', [
+    z.object({ format: z.literal('TEXT'), text: z.string().min(1).max(60), example: exampleValues.max(1).optional() }),
+    z.object({ format: z.enum(['IMAGE', 'VIDEO', 'DOCUMENT']), exampleUrl: z.string().url() }),
+  ]).optional(),
+  body: z.object({
+    text: z.string().min(1).max(1024),
+    example: exampleValues.optional(),
+  }),
+  footer: z.string().min(1).max(60).optional(),
+  buttons: z.array(z.discriminatedUnion('type', [
+    z.object({ type: z.literal('QUICK_REPLY'), text: z.string().min(1).max(25) }),
+    z.object({
+      type: z.literal('URL'),
+      text: z.string().min(1).max(25),
+      url: z.string().min(1).max(2000),
+      example: z.string().url().optional(), // Full URL, required when `url` has a {{1}} suffix
+    }),
+    z.object({ type: z.literal('PHONE_NUMBER'), text: z.string().min(1).max(25), phoneNumber: z.string().min(5).max(20) }),
+  ])).max(10).optional(),
+}).superRefine((input, ctx) => {
+  const placeholders = countPlaceholders(input.body.text);
+  if (placeholders > 0 && input.body.example?.length !== placeholders) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['body', 'example'],
+      message: `Provide one example value for each of the ${placeholders} placeholder(s)`,
+    });
+  }
+
+  if (input.header?.format === 'TEXT' && countPlaceholders(input.header.text) !== (input.header.example?.length ?? 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['header', 'example'],
+      message: 'Provide one example value for the header placeholder',
+    });
+  }
+
+  input.buttons?.forEach((button, index) => {
+    if (button.type === 'URL' && countPlaceholders(button.url) > 0 && !button.example) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['buttons', index, 'example'],
+        message: 'Provide an example URL for the dynamic URL button',
+      });
+    }
+  });
+});
+
+export type CreateWhatsAppTemplateInput = z.infer<typeof createWhatsAppTemplateSchema>;
+
+interface MetaTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: string;
+  category: string;
+  components: unknown[];
+  rejected_reason?: string;
+}
+
+interface MetaTemplatesPage {
+  data: MetaTemplate[];
+  paging?: { cursors?: { after?: string }; next?: string };
+}
+
+export interface TemplateStatusUpdate {
+  event: string; // APPROVED, REJECTED, PAUSED, DISABLED...
+  message_template_id: number | string;
+  message_template_name: string;
+  message_template_language: string;
+  reason?: string | null;
+}
+
+export class WhatsAppTemplatesService {
+  /**
+   * List the tenant's templates
+   */
+  async list(tenantId: string, status?: WhatsAppTemplateStatus) {
+    return prisma.whatsAppTemplate.findMany({
+      where: { tenantId, ...(status ? { status } : {}) },
+      orderBy: [{ name: 'asc' }, { language: 'asc' }],
+    });
+  }
+
+  async get(tenantId: string, id: string) {
+    const template = await prisma.whatsAppTemplate.findFirst({ where: { id, tenantId } });
+    if (!template) throw new NotFoundError('Template');
+    return template;
+  }
+
+  /**
+   * Mirror the WhatsApp Business Account's templates; templates removed there are removed here
+   */
+  async sync(tenantId: string): Promise<{ synced: number; removed: number }> {
+    const remote: MetaTemplate[] = [];
+    let after: string | undefined;
+
+    do {
+      const query = new URLSearchParams({
+        fields: 'id,name,language,status,category,components,rejected_reason',
+        limit: '100',
+        ...(after ? { after } : {}),
+      });
+      const page = await whatsappService.callBusinessApi<MetaTemplatesPage>(tenantId, `message_templates?${query}`);
+      remote.push(...page.data);
+      after = page.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (after);
+
+    const now = new Date();
+
+    for (const template of remote) {
+      const category = this.mapCategory(template.category);
+      const data = {
+        metaTemplateId: template.id,
+        category,
+        status: this.mapStatus(template.status),
+        components: template.components as Prisma.InputJsonValue,
+        rejectedReason: this.rejectedReason(template.rejected_reason),
+        lastSyncedAt: now,
+      };
+
+      await prisma.whatsAppTemplate.upsert({
+        where: { tenantId_name_language: { tenantId, name: template.name, language: template.language } },
+        create: { tenantId, name: template.name, language: template.language, ...data },
+        update: data,
+      });
+    }
+
+    const { count: removed } = await prisma.whatsAppTemplate.deleteMany({
+      where: {
+        tenantId,
+        metaTemplateId: { notIn: remote.map(t => t.id) },
+      },
+    });
+
+    logger.info({ tenantId, synced: remote.length, removed }, 'WhatsApp templates synced');
+
+    return { synced: remote.length, removed };
+  }
+
+  /**
+   * Create a template and submit it to Meta for approval
+   */
+  async create(tenantId: string, input: CreateWhatsAppTemplateInput) {
+    const existing = await prisma.whatsAppTemplate.findUnique({
+      where: { tenantId_name_language: { tenantId, name: input.name, language: input.language } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AppError(409, 'TEMPLATE_EXISTS', `Template ${input.name} (${input.language}) already exists`);
+    }
+
+    const components = this.buildComponents(input);
+
+    const result = await whatsappService.callBusinessApi<{ id: string; status: string; category: string }>(
+      tenantId,
+      'message_templates',
+      { name: input.name, language: input.language, category: input.category, components },
+      'POST'
+    );
+
+    const template = await prisma.whatsAppTemplate.create({
+      data: {
+        tenantId,
+        metaTemplateId: result.id,
+        name: input.name,
+        language: input.language,
+        // Meta may recategorize the template during review
+        category: this.mapCategory(result.category ?? input.category),
+        status: this.mapStatus(result.status),
+        components: components as Prisma.InputJsonValue,
+        lastSyncedAt: new Date(),
+      },
+    });
+
+    logger.info({ tenantId, templateId: template.id, name: input.name, status: template.status }, 'WhatsApp template submitted');
+
+    return template;
+  }
+
+  /**
+   * Delete a template from the Business Account (all its languages) and locally
+   */
+  async delete(tenantId: string, id: string): Promise<void> {
+    const template = await this.get(tenantId, id);
+
+    await whatsappService.callBusinessApi(
+      tenantId,
+      `message_templates?${new URLSearchParams({ name: template.name })}`,
+      undefined,
+      'DELETE'
+    );
+
+    await prisma.whatsAppTemplate.deleteMany({ where: { tenantId, name: template.name } });
+
+    logger.info({ tenantId, name: template.name }, 'WhatsApp template deleted');
+  }
+
+  /**
+   * Apply a message_template_status_update webhook from Meta
+   */
+  async applyStatusUpdate(tenantId: string, update: TemplateStatusUpdate): Promise<void> {
+    const status = this.mapStatus(update.event);
+
+    const { count } = await prisma.whatsAppTemplate.updateMany({
+      where: {
+        tenantId,
+        OR: [
+          { metaTemplateId: String(update.message_template_id) },
+          { name: update.message_template_name, language: update.message_template_language },
+        ],
+      },
+      data: {
+        status,
+        rejectedReason: status === 'REJECTED' ? this.rejectedReason(update.reason) : null,
+      },
+    });
+
+    if (count === 0) {
+      logger.warn({ tenantId, name: update.message_template_name }, 'Status update for unknown template');
+      return;
+    }
+
+    emitToTenant(tenantId, 'whatsapp_template_status', {
+      name: update.message_template_name,
+      language: update.message_template_language,
+      status,
+      reason: update.reason ?? null,
+    });
+
+    logger.info({ tenantId, name: update.message_template_name, status }, 'WhatsApp template status updated');
+  }
+
+  /**
+   * Convert the create input to Meta's component format
+   */
+  private buildComponents(input: CreateWhatsAppTemplateInput): Record<string, unknown>[] {
+    const components: Record<string, unknown>[] = [];
+
+    if (input.header?.format === 'TEXT') {
+      components.push({
+        type: 'HEADER',
+        format: 'TEXT',
+        text: input.header.text,
+        ...(input.header.example ? { example: { header_text: input.header.example } } : {}),
+      });
+    } else if (input.header) {
+      components.push({
+        type: 'HEADER',
+        format: input.header.format,
+        example: { header_handle: [input.header.exampleUrl] },
+      });
+    }
+
+    components.push({
+      type: 'BODY',
+      text: input.body.text,
+      ...(input.body.example ? { example: { body_text: [input.body.example] } } : {}),
+    });
+
+    if (input.footer) {
+      components.push({ type: 'FOOTER', text: input.footer });
+    }
+
+    if (input.buttons?.length) {
+      components.push({
+        type: 'BUTTONS',
+        buttons: input.buttons.map((button) => {
+          switch (button.type) {
+            case 'URL':
+              return {
+                type: 'URL',
+                text: button.text,
+                url: button.url,
+                ...(button.example ? { example: [button.example] } : {}),
+              };
+            case 'PHONE_NUMBER':
+              return { type: 'PHONE_NUMBER', text: button.text, phone_number: button.phoneNumber };
+            default:
+              return { type: 'QUICK_REPLY', text: button.text };
+          }
+        }),
+      });
+    }
+
+    return components;
+  }
+
+  private mapStatus(status: string): WhatsAppTemplateStatus {
+    const statusMap: Record<string, WhatsAppTemplateStatus> = {
+      APPROVED: 'APPROVED',
+      REJECTED: 'REJECTED',
+      PAUSED: 'PAUSED',
+      DISABLED: 'DISABLED',
+      IN_APPEAL: 'IN_APPEAL',
+      FLAGGED: 'PAUSED',
+      LIMIT_EXCEEDED: 'DISABLED',
+      PENDING_DELETION: 'DISABLED',
+    };
+    return statusMap[status.toUpperCase()] ?? 'PENDING';
+  }
+
+  private mapCategory(category: string): 'MARKETING' | 'UTILITY' | 'AUTHENTICATION' {
+    const upper = category.toUpperCase();
+    return upper === 'MARKETING' || upper === 'AUTHENTICATION' ? upper : 'UTILITY';
+  }
+
+  private rejectedReason(reason: string | null | undefined): string | null {
+    return reason && reason !== 'NONE' ? reason : null;
+  }
+}
+
+export const whatsappTemplatesService = new WhatsAppTemplatesService();
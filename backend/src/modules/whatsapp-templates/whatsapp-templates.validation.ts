@@ -0,0 +1,79 @@
+// Template definitions, as stored on WhatsAppTemplate.components
+export interface TemplateComponentDefinition {
+  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
+  format?: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
+  text?: string;
+  buttons?: Array<{ type: string; text: string; url?: string; phone_number?: string }>;
+}
+
+// Components of a template send (lowercase, as in Meta's messages API)
+export interface TemplateSendComponent {
+  type: 'header' | 'body' | 'button';
+  sub_type?: string | undefined;
+  index?: number | undefined;
+  parameters: Array<{ type: string; text?: string | undefined }>;
+}
+
+const MEDIA_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+/**
+ * Number of distinct {{placeholders}} in a template text
+ */
+export function countPlaceholders(text: string | undefined): number {
+  if (!text) return 0;
+  const names = new Set([...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(m => m[1]));
+  return names.size;
+}
+
+/**
+ * Check that a send provides exactly the parameters the template expects.
+ * Returns one message per problem (empty when the parameters match).
+ */
+export function checkTemplateParameters(
+  definition: TemplateComponentDefinition[],
+  components: TemplateSendComponent[]
+): string[] {
+  const errors: string[] = [];
+  const find = (type: TemplateSendComponent['type'], index?: number) =>
+    components.find(c => c.type === type && (index === undefined || c.index === index));
+
+  const expect = (label: string, expected: number, provided: TemplateSendComponent | undefined) => {
+    const parameters = provided?.parameters ?? [];
+    if (parameters.length !== expected) {
+      errors.push(`${label}: expected ${expected} parameter(s), got ${parameters.length}`);
+      return;
+    }
+    parameters.forEach((p, i) => {
+      if (p.type === 'text' && !p.text?.trim()) {
+        errors.push(`${label}: parameter ${i + 1} is empty`);
+      }
+    });
+  };
+
+  for (const component of definition) {
+    switch (component.type) {
+      case 'HEADER':
+        if (component.format && MEDIA_FORMATS.includes(component.format)) {
+          expect('header', 1, find('header'));
+        } else {
+          expect('header', countPlaceholders(component.text), find('header'));
+        }
+        break;
+
+      case 'BODY':
+        expect('body', countPlaceholders(component.text), find('body'));
+        break;
+
+      case 'BUTTONS':
+        component.buttons?.forEach((button, index) => {
+          // Only URL buttons with a dynamic suffix take a parameter
+          if (button.type === 'URL' && countPlaceholders(button.url) > 0) {
+            expect(`button ${index}`, 1, find('button', index));
+          }
+        });
+        break;
+    }
+  }
+
+  return errors;
+}
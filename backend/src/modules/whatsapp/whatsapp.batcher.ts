@@ -0,0 +1,106 @@
+import { prisma } from '../../config/database.js';
+import { redis } from '../../config/redis.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+
+const logger = createModuleLogger('whatsapp-batcher');
+
+// Batches are abandoned if nothing picks them up within this time
+const BATCH_TTL_SECONDS = 10 * 60;
+
+// Hand the batch to the caller only if its message is still the latest one
+const TAKE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return nil
+end
+local ids = redis.call('LRANGE', KEYS[2], 0, -1)
+redis.call('DEL', KEYS[1], KEYS[2])
+return ids
+`;
+
+export interface InboundBatch {
+  messageIds: string[];
+  content: string | null; // Text of all batched messages, in arrival order
+}
+
+/**
+ * Collects rapid-fire inbound messages of a conversation so they are answered once.
+ * Every message is queued with the tenant's quiet window as delay; when a job runs,
+ * only the latest message of the batch takes it, the earlier ones are skipped.
+ */
+export class InboundMessageBatcher {
+  /**
+   * Quiet window configured for the tenant, in seconds (0 = answer every message)
+   */
+  async getWindowSeconds(tenantId: string): Promise<number> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { replyBatchWindowSeconds: true },
+    });
+
+    return tenant?.replyBatchWindowSeconds ?? 0;
+  }
+
+  /**
+   * Add a message to its conversation's pending batch
+   */
+  async add(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+    windowSeconds: number
+  ): Promise<void> {
+    const [lastKey, idsKey] = this.keys(conversationId);
+
+    const results = await redis.multi()
+      .rpush(idsKey, messageId)
+      .set(lastKey, messageId, 'EX', BATCH_TTL_SECONDS)
+      .expire(idsKey, BATCH_TTL_SECONDS)
+      .exec();
+
+    const messageCount = Number(results?.[0]?.[1] ?? 1);
+
+    // Let agents see that the AI is waiting for the customer to finish typing
+    emitToTenant(tenantId, 'ai_batch_pending', {
+      conversationId,
+      messageCount,
+      replyAt: new Date(Date.now() + windowSeconds * 1000).toISOString(),
+    });
+  }
+
+  /**
+   * Take the pending batch if `messageId` is still its latest message, otherwise null
+   */
+  async take(tenantId: string, conversationId: string, messageId: string): Promise<InboundBatch | null> {
+    const [lastKey, idsKey] = this.keys(conversationId);
+
+    const messageIds = await redis.eval(TAKE_SCRIPT, 2, lastKey, idsKey, messageId) as string[] | null;
+    if (!messageIds) return null;
+
+    const messages = await prisma.message.findMany({
+      where: { id: { in: messageIds }, conversationId },
+      orderBy: { createdAt: 'asc' },
+      select: { content: true, transcript: true },
+    });
+
+    const content = messages
+      .map(m => (m.content ?? m.transcript)?.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    emitToTenant(tenantId, 'ai_batch_processing', {
+      conversationId,
+      messageCount: messageIds.length,
+    });
+
+    logger.debug({ tenantId, conversationId, messageCount: messageIds.length }, 'Inbound batch taken');
+
+    return { messageIds, content: content || null };
+  }
+
+  private keys(conversationId: string): [string, string] {
+    return [`inbound-batch:${conversationId}:last`, `inbound-batch:${conversationId}:ids`];
+  }
+}
+
+export const inboundMessageBatcher = new InboundMessageBatcher();
@@ -5,11 +5,16 @@ import {
   sendTemplateMessageSchema,
   sendInteractiveButtonsSchema,
   sendInteractiveListSchema,
+  sendMediaMessageSchema,
+  sendLocationMessageSchema,
+  sendContactsMessageSchema,
+  sendReactionSchema,
 } from './whatsapp.service.js';
+import { outboundMessageService } from './whatsapp.outbound.js';
 import { whatsappWebhookHandler, type ProcessedInboundMessage } from './whatsapp.webhook.js';
-import { aiService } from '../ai/ai.service.js';
-import { prisma } from '../../config/database.js';
-import { emitToTenant } from '../realtime/socket.handler.js';
+import { inboundMessageBatcher } from './whatsapp.batcher.js';
+import { addAIProcessingJob, addMediaDownloadJob } from '../../jobs/queue.js';
+import { emitToTenant, getSocketEmitter } from '../realtime/socket.handler.js';
 import type { ApiResponse, WhatsAppWebhookPayload } from '../../shared/types/index.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
 
@@ -42,14 +47,31 @@ export class WhatsAppController {
     _next: NextFunction
   ): Promise<void> {
     try {
+      // Only Meta can sign with the app secret; anything else could fake customer messages
+      const signature = req.get('x-hub-signature-256');
+      const payload = req.body as WhatsAppWebhookPayload;
+
+      let rejection = whatsappWebhookHandler.checkSignature(req.rawBody, signature);
+      if (!rejection && !Array.isArray(payload?.entry)) {
+        rejection = 'invalid_payload';
+      }
+
+      if (rejection) {
+        await whatsappWebhookHandler.quarantine(rejection, req.rawBody, signature, req.ip);
+        res.status(rejection === 'invalid_payload' ? 400 : 401).json({
+          success: false,
+          error: { code: 'INVALID_WEBHOOK', message: 'Webhook payload rejected' },
+        });
+        return;
+      }
+
       // Always respond quickly to Meta (within 20 seconds)
       res.status(200).json({ success: true });
 
       // Process webhook asynchronously
-      const payload = req.body as WhatsAppWebhookPayload;
       const processedMessages = await whatsappWebhookHandler.processWebhook(payload);
 
-      // Process each message with AI and send response
+      // Process each message and send response
       for (const message of processedMessages) {
         // Emit real-time event to dashboard
         emitToTenant(message.tenantId, 'new_message', {
@@ -59,10 +81,20 @@ export class WhatsAppController {
           from: message.from,
           content: message.content,
           type: message.type,
+          replyId: message.replyId,
+        });
+        getSocketEmitter()?.emitConversationUnread(message.tenantId, message.conversationId, {
+          messageId: message.messageId,
         });
 
-        // Process with AI if enabled for this conversation
-        await this.processMessageWithAI(message);
+        // Attachments are fetched from Meta before their temporary URL expires.
+        // Voice notes are fetched by the AI worker, which transcribes them first.
+        if (message.waMediaId && message.type !== 'audio') {
+          await this.queueMediaDownload(message);
+        }
+
+        // Auto-reply rules and AI run in the AI worker
+        await this.queueInboundMessage(message);
       }
 
       logger.info({ messageCount: processedMessages.length }, 'Webhook processed');
@@ -73,96 +105,31 @@ export class WhatsAppController {
   }
 
   /**
-   * Process a message with AI and send automatic response
+   * Queue the download of a message's media
    */
-  private async processMessageWithAI(message: ProcessedInboundMessage): Promise<void> {
+  private async queueMediaDownload(message: ProcessedInboundMessage): Promise<void> {
     try {
-      // Check if AI is enabled for this conversation
-      const conversation = await prisma.conversation.findUnique({
-        where: { id: message.conversationId },
-        select: { isAiEnabled: true, aiTakenOver: true },
-      });
-
-      if (!conversation?.isAiEnabled || conversation.aiTakenOver) {
-        logger.debug({ conversationId: message.conversationId }, 'AI disabled for conversation');
-        return;
-      }
-
-      // Skip if no text content
-      if (!message.content) {
-        logger.debug({ messageId: message.messageId }, 'No text content to process');
-        return;
-      }
-
-      // Generate AI response
-      const aiResponse = await aiService.processMessage(
-        message.tenantId,
-        message.conversationId,
-        message.content
-      );
-
-      // Send response via WhatsApp
-      const { messageId: waMessageId } = await whatsappService.sendTextMessage(
-        message.tenantId,
-        {
-          to: message.from,
-          message: aiResponse.message,
-        }
-      );
-
-      // Save outbound message to database
-      const outboundMessage = await prisma.message.create({
-        data: {
-          tenantId: message.tenantId,
-          conversationId: message.conversationId,
-          direction: 'OUTBOUND',
-          type: 'TEXT',
-          content: aiResponse.message,
-          waMessageId,
-          waStatus: 'SENT',
-          isAiGenerated: true,
-          aiIntent: aiResponse.intent.type,
-        },
-      });
-
-      // Update conversation
-      await prisma.conversation.update({
-        where: { id: message.conversationId },
-        data: {
-          lastMessageAt: new Date(),
-          currentIntent: aiResponse.intent.type,
-          // If AI suggests handoff, mark it
-          ...(aiResponse.shouldHandoff ? { aiTakenOver: true } : {}),
-        },
-      });
+      await addMediaDownloadJob({ tenantId: message.tenantId, messageId: message.messageId });
+    } catch (error) {
+      logger.error({ error, messageId: message.messageId }, 'Failed to queue media download');
+    }
+  }
 
-      // Emit outbound message event
-      emitToTenant(message.tenantId, 'new_message', {
-        conversationId: message.conversationId,
-        messageId: outboundMessage.id,
-        direction: 'OUTBOUND',
-        content: aiResponse.message,
-        isAiGenerated: true,
-        intent: aiResponse.intent.type,
-      });
+  /**
+   * Queue a message for the auto-reply/AI pipeline, batching it if the tenant has a quiet window
+   */
+  private async queueInboundMessage(message: ProcessedInboundMessage): Promise<void> {
+    try {
+      const windowSeconds = await inboundMessageBatcher.getWindowSeconds(message.tenantId);
 
-      // If handoff suggested, emit notification
-      if (aiResponse.shouldHandoff) {
-        emitToTenant(message.tenantId, 'handoff_requested', {
-          conversationId: message.conversationId,
-          contactId: message.contactId,
-          reason: 'AI confidence low or complex query',
-        });
+      if (windowSeconds > 0) {
+        await inboundMessageBatcher.add(message.tenantId, message.conversationId, message.messageId, windowSeconds);
+        await addAIProcessingJob({ ...message, batched: true }, windowSeconds * 1000);
+      } else {
+        await addAIProcessingJob(message);
       }
-
-      logger.info({
-        tenantId: message.tenantId,
-        conversationId: message.conversationId,
-        intent: aiResponse.intent.type,
-        shouldHandoff: aiResponse.shouldHandoff,
-      }, 'AI response sent');
     } catch (error) {
-      logger.error({ error, messageId: message.messageId }, 'Failed to process message with AI');
+      logger.error({ error, messageId: message.messageId }, 'Failed to queue inbound message');
       // Don't throw - we don't want to break the webhook processing
     }
   }
@@ -283,6 +250,125 @@ export class WhatsAppController {
     }
   }
 
+  /**
+   * POST /api/whatsapp/send/media
+   */
+  async sendMedia(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = sendMediaMessageSchema.parse(req.body);
+      const file = req.file
+        ? { data: req.file.buffer, mimeType: req.file.mimetype, fileName: req.file.originalname || null }
+        : undefined;
+      const message = await outboundMessageService.sendMedia(req.context.tenantId, input, file);
+
+      res.json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/whatsapp/send/location
+   */
+  async sendLocation(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = sendLocationMessageSchema.parse(req.body);
+      const message = await outboundMessageService.sendLocation(req.context.tenantId, input);
+
+      res.json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/whatsapp/send/contacts
+   */
+  async sendContacts(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = sendContactsMessageSchema.parse(req.body);
+      const message = await outboundMessageService.sendContacts(req.context.tenantId, input);
+
+      res.json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/whatsapp/send/reaction
+   */
+  async sendReaction(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.context) {
+        res.status(401).json({
+          success: false,
+          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const input = sendReactionSchema.parse(req.body);
+      const message = await outboundMessageService.sendReaction(req.context.tenantId, input);
+
+      res.json({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/whatsapp/mark-read/:messageId
    */
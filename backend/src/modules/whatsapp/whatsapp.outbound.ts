@@ -0,0 +1,212 @@
+import type { MessageType, Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import type { WhatsAppContactCard } from '../../shared/types/index.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { mediaService } from '../media/media.service.js';
+import { slaService } from '../sla/sla.service.js';
+import { describeContacts, describeLocation, toSharedContact } from './whatsapp.parser.js';
+import {
+  whatsappService,
+  type SendContactsMessageInput,
+  type SendLocationMessageInput,
+  type SendMediaMessageInput,
+  type SendReactionInput,
+  type UploadedMedia,
+} from './whatsapp.service.js';
+
+const logger = createModuleLogger('whatsapp-outbound');
+
+const MEDIA_MESSAGE_TYPES: Record<SendMediaMessageInput['type'], MessageType> = {
+  image: 'IMAGE',
+  document: 'DOCUMENT',
+  video: 'VIDEO',
+  audio: 'AUDIO',
+};
+
+const messageSelect = {
+  id: true,
+  conversationId: true,
+  direction: true,
+  type: true,
+  content: true,
+  mediaUrl: true,
+  mediaType: true,
+  fileName: true,
+  latitude: true,
+  longitude: true,
+  locationName: true,
+  locationAddress: true,
+  sharedContacts: true,
+  quotedMessageId: true,
+  waMessageId: true,
+  waStatus: true,
+  createdAt: true,
+} satisfies Prisma.MessageSelect;
+
+interface Recipient {
+  to: string;
+  channelId?: string | null | undefined;
+  replyToMessageId?: string | undefined;
+}
+
+/**
+ * Rich messages sent by agents from the inbox: sent through WhatsApp, then
+ * recorded on the contact's conversation with their own message type.
+ */
+export class OutboundMessageService {
+  /**
+   * Send an image, document, video or audio (uploaded or by link)
+   */
+  async sendMedia(tenantId: string, input: SendMediaMessageInput, file?: UploadedMedia) {
+    const { messageId } = await whatsappService.sendMediaMessage(tenantId, input, file);
+
+    const message = await this.record(tenantId, input, messageId, {
+      type: MEDIA_MESSAGE_TYPES[input.type],
+      content: input.caption ?? null,
+      mediaType: file?.mimeType ?? null,
+      fileName: input.type === 'document' ? input.fileName ?? file?.fileName ?? null : null,
+      // Linked media is not copied, the inbox loads it from the link
+      mediaUrl: file ? null : input.link ?? null,
+    });
+
+    if (!file) return message;
+
+    const stored = await mediaService.storeOutboundMedia(tenantId, message, file);
+    return { ...message, ...stored };
+  }
+
+  /**
+   * Send a location pin
+   */
+  async sendLocation(tenantId: string, input: SendLocationMessageInput) {
+    const { messageId } = await whatsappService.sendLocationMessage(tenantId, input);
+
+    const location = {
+      latitude: input.latitude,
+      longitude: input.longitude,
+      name: input.name ?? null,
+      address: input.address ?? null,
+    };
+
+    return this.record(tenantId, input, messageId, {
+      type: 'LOCATION',
+      content: describeLocation(location),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      locationName: location.name,
+      locationAddress: location.address,
+    });
+  }
+
+  /**
+   * Send contact cards
+   */
+  async sendContacts(tenantId: string, input: SendContactsMessageInput) {
+    const { messageId } = await whatsappService.sendContactsMessage(tenantId, input);
+
+    const contacts = input.contacts.map(card => toSharedContact(card as WhatsAppContactCard));
+
+    return this.record(tenantId, input, messageId, {
+      type: 'CONTACT',
+      content: describeContacts(contacts),
+      sharedContacts: contacts,
+    });
+  }
+
+  /**
+   * React to a message with an emoji (an empty emoji removes the reaction)
+   */
+  async sendReaction(tenantId: string, input: SendReactionInput) {
+    const { messageId, to, conversationId } = await whatsappService.sendReaction(tenantId, input);
+
+    return this.save(tenantId, conversationId, to, messageId, {
+      type: 'REACTION',
+      content: input.emoji || null,
+      quotedMessageId: input.messageId,
+    });
+  }
+
+  /**
+   * Save a sent message on the contact's open conversation for the number it went out from
+   */
+  private async record(
+    tenantId: string,
+    recipient: Recipient,
+    waMessageId: string,
+    data: Omit<Prisma.MessageUncheckedCreateInput, 'tenantId' | 'conversationId' | 'direction'>
+  ) {
+    const conversationId = await this.findOrCreateConversation(tenantId, recipient.to, recipient.channelId);
+
+    return this.save(tenantId, conversationId, recipient.to, waMessageId, {
+      ...data,
+      quotedMessageId: recipient.replyToMessageId ?? null,
+    });
+  }
+
+  private async save(
+    tenantId: string,
+    conversationId: string,
+    to: string,
+    waMessageId: string,
+    data: Omit<Prisma.MessageUncheckedCreateInput, 'tenantId' | 'conversationId' | 'direction'>
+  ) {
+    const message = await prisma.message.create({
+      data: {
+        ...data,
+        tenantId,
+        conversationId,
+        direction: 'OUTBOUND',
+        waMessageId,
+        waStatus: 'SENT',
+        waTimestamp: new Date(),
+        isAiGenerated: false,
+      },
+      select: messageSelect,
+    });
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: new Date() },
+    });
+    await slaService.onAgentReply(conversationId, message.createdAt);
+
+    emitToTenant(tenantId, 'new_message', {
+      conversationId,
+      messageId: message.id,
+      direction: 'OUTBOUND',
+      type: message.type,
+      content: message.content,
+      isAiGenerated: false,
+    });
+
+    logger.info({ tenantId, conversationId, to, messageId: message.id, type: message.type }, 'Outbound message recorded');
+
+    return message;
+  }
+
+  private async findOrCreateConversation(tenantId: string, phone: string, channelId?: string | null): Promise<string> {
+    const digits = phone.replace(/\D/g, '');
+
+    const contact = await prisma.contact.findFirst({
+      where: { tenantId, phone: { in: [phone, digits, `+${digits}`] } },
+      select: { id: true },
+    }) ?? await prisma.contact.create({
+      data: { tenantId, phone: digits, firstContactAt: new Date(), lastContactAt: new Date() },
+      select: { id: true },
+    });
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { tenantId, contactId: contact.id, status: 'OPEN', ...(channelId !== undefined ? { channelId } : {}) },
+      orderBy: { lastMessageAt: 'desc' },
+      select: { id: true },
+    }) ?? await prisma.conversation.create({
+      data: { tenantId, contactId: contact.id, channelId: channelId ?? null, status: 'OPEN' },
+      select: { id: true },
+    });
+
+    return conversation.id;
+  }
+}
+
+export const outboundMessageService = new OutboundMessageService();
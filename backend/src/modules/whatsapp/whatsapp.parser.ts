@@ -0,0 +1,166 @@
+import type { WhatsAppContactCard, WhatsAppMessage } from '../../shared/types/index.js';
+
+export interface InboundReply {
+  type: 'button_reply' | 'list_reply' | 'button'; // "button" = quick reply of a template
+  id: string; // Id we set on the button/row (payload for template quick replies)
+  title: string;
+}
+
+export interface InboundLocation {
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+}
+
+// A type (not an interface) so it can be stored as JSON
+export type SharedContact = {
+  name: string;
+  phones: string[];
+  emails: string[];
+  organization: string | null;
+};
+
+export interface ParsedMessageContent {
+  content: string | null; // Text used by auto-replies and the AI
+  waMediaId: string | null;
+  mediaType: string | null;
+  fileName: string | null;
+  reply: InboundReply | null;
+  location: InboundLocation | null;
+  contacts: SharedContact[] | null;
+}
+
+const EMPTY: ParsedMessageContent = {
+  content: null,
+  waMediaId: null,
+  mediaType: null,
+  fileName: null,
+  reply: null,
+  location: null,
+  contacts: null,
+};
+
+/**
+ * Extract the content of an inbound WhatsApp message into structured fields
+ */
+export function parseMessageContent(message: WhatsAppMessage): ParsedMessageContent {
+  switch (message.type) {
+    case 'text':
+      return { ...EMPTY, content: message.text?.body ?? null };
+
+    case 'image':
+      return {
+        ...EMPTY,
+        content: message.image?.caption ?? null,
+        waMediaId: message.image?.id ?? null,
+        mediaType: message.image?.mime_type ?? null,
+      };
+
+    case 'document':
+      return {
+        ...EMPTY,
+        content: message.document?.caption ?? null,
+        waMediaId: message.document?.id ?? null,
+        mediaType: message.document?.mime_type ?? null,
+        fileName: message.document?.filename ?? null,
+      };
+
+    case 'audio':
+      return {
+        ...EMPTY,
+        waMediaId: message.audio?.id ?? null,
+        mediaType: message.audio?.mime_type ?? null,
+      };
+
+    case 'video':
+      return {
+        ...EMPTY,
+        content: message.video?.caption ?? null,
+        waMediaId: message.video?.id ?? null,
+        mediaType: message.video?.mime_type ?? null,
+      };
+
+    case 'sticker':
+      return {
+        ...EMPTY,
+        waMediaId: message.sticker?.id ?? null,
+        mediaType: message.sticker?.mime_type ?? null,
+      };
+
+    case 'interactive':
+    case 'button': {
+      const reply = parseReply(message);
+      return { ...EMPTY, content: reply?.title ?? null, reply };
+    }
+
+    case 'location': {
+      if (!message.location) return EMPTY;
+
+      const location: InboundLocation = {
+        latitude: message.location.latitude,
+        longitude: message.location.longitude,
+        name: message.location.name ?? null,
+        address: message.location.address ?? null,
+      };
+      return { ...EMPTY, content: describeLocation(location), location };
+    }
+
+    case 'contacts': {
+      const contacts = (message.contacts ?? []).map(toSharedContact);
+      return { ...EMPTY, content: describeContacts(contacts), contacts };
+    }
+
+    default:
+      // Reactions, unsupported messages...
+      return EMPTY;
+  }
+}
+
+/**
+ * Flatten a WhatsApp contact card into the shape stored on messages
+ */
+export function toSharedContact(card: WhatsAppContactCard): SharedContact {
+  return {
+    name: card.name.formatted_name,
+    phones: (card.phones ?? []).map(p => p.wa_id ? `+${p.wa_id}` : p.phone).filter((p): p is string => !!p),
+    emails: (card.emails ?? []).map(e => e.email).filter((e): e is string => !!e),
+    organization: card.org?.company ?? null,
+  };
+}
+
+function parseReply(message: WhatsAppMessage): InboundReply | null {
+  if (message.type === 'button' && message.button) {
+    return { type: 'button', id: message.button.payload, title: message.button.text };
+  }
+
+  const interactive = message.interactive;
+  if (interactive?.type === 'button_reply' && interactive.button_reply) {
+    return { type: 'button_reply', ...interactive.button_reply };
+  }
+  if (interactive?.type === 'list_reply' && interactive.list_reply) {
+    return { type: 'list_reply', id: interactive.list_reply.id, title: interactive.list_reply.title };
+  }
+
+  return null;
+}
+
+/**
+ * Readable text for a location, used as message content
+ */
+export function describeLocation(location: InboundLocation): string {
+  const place = [location.name, location.address].filter(Boolean).join(', ');
+  const coordinates = `${location.latitude}, ${location.longitude}`;
+  return place ? `📍 ${place} (${coordinates})` : `📍 ${coordinates}`;
+}
+
+/**
+ * Readable text for shared contacts, used as message content
+ */
+export function describeContacts(contacts: SharedContact[]): string | null {
+  if (contacts.length === 0) return null;
+
+  return contacts
+    .map(c => `👤 ${c.name}${c.phones.length > 0 ? ` (${c.phones.join(', ')})` : ''}`)
+    .join('\n');
+}
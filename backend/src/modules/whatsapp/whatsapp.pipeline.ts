@@ -0,0 +1,296 @@
+import { prisma } from '../../config/database.js';
+import { createModuleLogger } from '../../shared/utils/logger.js';
+import { aiService } from '../ai/ai.service.js';
+import { autoReplyService, type AutoReplyMatch } from '../autoreply/autoreply.service.js';
+import { emitToTenant } from '../realtime/socket.handler.js';
+import { slaService } from '../sla/sla.service.js';
+import { routingService } from '../routing/routing.service.js';
+import { addWhatsAppSendJob } from '../../jobs/queue.js';
+import type { ProcessedInboundMessage } from './whatsapp.webhook.js';
+
+const logger = createModuleLogger('whatsapp-pipeline');
+
+export type PipelineStage = 'skipped' | 'autoreply' | 'ai';
+
+export interface PipelineResult {
+  stage: PipelineStage;
+  reason?: string;
+  outboundMessageId?: string;
+}
+
+export interface PipelinePreview {
+  stage: Exclude<PipelineStage, 'skipped'>;
+  response: string;
+  ruleId?: string;
+  intent?: string;
+  citedChunkIds?: string[];
+}
+
+/**
+ * Inbound message pipeline: auto-reply rules first, AI only when no rule matches.
+ * Runs in the AI worker; replies are saved as PENDING and sent through the WhatsApp queue.
+ */
+export class InboundMessagePipeline {
+  /**
+   * Run an inbound message through the pipeline and send the reply (if any)
+   */
+  async process(message: ProcessedInboundMessage): Promise<PipelineResult> {
+    // A retried job sends the reply it already saved instead of answering again
+    const saved = await prisma.message.findUnique({
+      where: { inReplyToId: message.messageId },
+      select: { id: true, content: true, waStatus: true, isAiGenerated: true },
+    });
+    if (saved) {
+      if (saved.waStatus === 'PENDING') await this.queueSend(message, saved.id, saved.content ?? '');
+      return { stage: saved.isAiGenerated ? 'ai' : 'autoreply', outboundMessageId: saved.id };
+    }
+
+    // Check if automation is enabled for this conversation
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: message.conversationId },
+      select: { isAiEnabled: true, aiTakenOver: true },
+    });
+
+    if (!conversation?.isAiEnabled || conversation.aiTakenOver) {
+      return this.skip(message, 'automation_disabled');
+    }
+
+    // Skip if no text content
+    if (!message.content) {
+      return this.skip(message, 'no_text_content');
+    }
+
+    // Stage 1: auto-reply rules (no AI quota used)
+    const match = await this.findAutoReply(message.tenantId, message.content, message.replyId);
+    if (match.matched && match.reply) {
+      return this.replyWithAutoReply(message, match);
+    }
+
+    // Stage 2: AI
+    return this.replyWithAI(message, message.content);
+  }
+
+  /**
+   * Run a message through the same stages without a conversation and without sending anything
+   */
+  async preview(
+    tenantId: string,
+    content: string,
+    options: { systemPrompt?: string } = {}
+  ): Promise<PipelinePreview> {
+    const match = await this.findAutoReply(tenantId, content, null, { dryRun: true });
+    if (match.matched && match.reply) {
+      return {
+        stage: 'autoreply',
+        response: match.reply,
+        ...(match.ruleId ? { ruleId: match.ruleId } : {}),
+      };
+    }
+
+    const aiResponse = await aiService.previewMessage(tenantId, content, options);
+    return {
+      stage: 'ai',
+      response: aiResponse.message,
+      intent: aiResponse.intent.type,
+      citedChunkIds: aiResponse.citedChunkIds,
+    };
+  }
+
+  /**
+   * Look up a matching auto-reply rule; a lookup failure falls through to the AI
+   */
+  private async findAutoReply(
+    tenantId: string,
+    content: string,
+    replyId: string | null = null,
+    options: { dryRun?: boolean } = {}
+  ): Promise<AutoReplyMatch> {
+    try {
+      return await autoReplyService.findMatch(tenantId, content, replyId, options);
+    } catch (error) {
+      logger.error({ error, tenantId }, 'Auto-reply lookup failed, falling back to AI');
+      return { matched: false };
+    }
+  }
+
+  /**
+   * Send the matched rule's response
+   */
+  private async replyWithAutoReply(
+    message: ProcessedInboundMessage,
+    match: AutoReplyMatch
+  ): Promise<PipelineResult> {
+    const reply = match.reply!;
+
+    const [outboundMessage] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          tenantId: message.tenantId,
+          conversationId: message.conversationId,
+          direction: 'OUTBOUND',
+          type: 'TEXT',
+          content: reply,
+          waStatus: 'PENDING',
+          isAiGenerated: false,
+          autoReplyId: match.ruleId ?? null,
+          inReplyToId: message.messageId,
+        },
+      }),
+      prisma.conversation.update({
+        where: { id: message.conversationId },
+        data: { lastMessageAt: new Date() },
+      }),
+    ]);
+
+    await this.queueSend(message, outboundMessage.id, reply);
+
+    emitToTenant(message.tenantId, 'new_message', {
+      conversationId: message.conversationId,
+      messageId: outboundMessage.id,
+      direction: 'OUTBOUND',
+      content: reply,
+      isAiGenerated: false,
+      autoReplyId: match.ruleId,
+    });
+
+    logger.info({
+      stage: 'autoreply',
+      tenantId: message.tenantId,
+      conversationId: message.conversationId,
+      inboundMessageId: message.messageId,
+      ruleId: match.ruleId,
+      ruleName: match.ruleName,
+    }, 'Inbound message answered by auto-reply');
+
+    return { stage: 'autoreply', outboundMessageId: outboundMessage.id };
+  }
+
+  /**
+   * Generate a response with the AI and send it
+   */
+  private async replyWithAI(
+    message: ProcessedInboundMessage,
+    content: string
+  ): Promise<PipelineResult> {
+    // Actions the AI proposes while answering can't be confirmed by this same message
+    const inbound = await prisma.message.findUnique({
+      where: { id: message.messageId },
+      select: { createdAt: true },
+    });
+
+    const aiResponse = await aiService.processMessage(
+      message.tenantId,
+      message.conversationId,
+      content,
+      message.replyId,
+      inbound?.createdAt ?? new Date()
+    );
+
+    const [outboundMessage] = await prisma.$transaction([
+      prisma.message.create({
+        data: {
+          tenantId: message.tenantId,
+          conversationId: message.conversationId,
+          direction: 'OUTBOUND',
+          type: 'TEXT',
+          content: aiResponse.message,
+          waStatus: 'PENDING',
+          isAiGenerated: true,
+          aiIntent: aiResponse.intent.type,
+          citedChunkIds: aiResponse.citedChunkIds,
+          inReplyToId: message.messageId,
+        },
+      }),
+      prisma.conversation.update({
+        where: { id: message.conversationId },
+        data: {
+          lastMessageAt: new Date(),
+          currentIntent: aiResponse.intent.type,
+          // If AI suggests handoff, mark it
+          ...(aiResponse.shouldHandoff ? { aiTakenOver: true } : {}),
+        },
+      }),
+    ]);
+
+    await this.queueSend(message, outboundMessage.id, aiResponse.message);
+
+    emitToTenant(message.tenantId, 'new_message', {
+      conversationId: message.conversationId,
+      messageId: outboundMessage.id,
+      direction: 'OUTBOUND',
+      content: aiResponse.message,
+      isAiGenerated: true,
+      intent: aiResponse.intent.type,
+    });
+
+    if (aiResponse.shouldHandoff) {
+      // The customer now waits for a human. The reply is already queued, so a
+      // failure here must not fail the job: a retry would send a second reply.
+      try {
+        await slaService.start(message.tenantId, message.conversationId);
+      } catch (error) {
+        logger.error({ error, conversationId: message.conversationId }, 'Failed to start SLA for handed-off conversation');
+      }
+
+      try {
+        await routingService.route(message.tenantId, message.conversationId, 'handoff');
+      } catch (error) {
+        // Agents can still pick the conversation up by hand
+        logger.error({ error, conversationId: message.conversationId }, 'Failed to route handed-off conversation');
+      }
+
+      emitToTenant(message.tenantId, 'handoff_requested', {
+        conversationId: message.conversationId,
+        contactId: message.contactId,
+        reason: 'AI confidence low or complex query',
+      });
+    }
+
+    logger.info({
+      stage: 'ai',
+      tenantId: message.tenantId,
+      conversationId: message.conversationId,
+      inboundMessageId: message.messageId,
+      intent: aiResponse.intent.type,
+      shouldHandoff: aiResponse.shouldHandoff,
+      toolCalls: aiResponse.toolCalls,
+    }, 'Inbound message answered by AI');
+
+    return { stage: 'ai', outboundMessageId: outboundMessage.id };
+  }
+
+  /**
+   * Hand the saved reply to the WhatsApp queue, once per inbound message
+   */
+  private async queueSend(
+    message: ProcessedInboundMessage,
+    outboundMessageId: string,
+    content: string
+  ): Promise<void> {
+    await addWhatsAppSendJob({
+      tenantId: message.tenantId,
+      to: message.from,
+      message: content,
+      conversationId: message.conversationId,
+      messageId: outboundMessageId,
+      channelId: message.channelId,
+    }, { jobId: `reply-${message.messageId}` });
+  }
+
+  /**
+   * Record that no automated reply was sent
+   */
+  private skip(message: ProcessedInboundMessage, reason: string): PipelineResult {
+    logger.info({
+      stage: 'skipped',
+      reason,
+      tenantId: message.tenantId,
+      conversationId: message.conversationId,
+      inboundMessageId: message.messageId,
+    }, 'Inbound message not answered automatically');
+
+    return { stage: 'skipped', reason };
+  }
+}
+
+export const inboundMessagePipeline = new InboundMessagePipeline();
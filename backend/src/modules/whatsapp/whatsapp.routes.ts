@@ -1,9 +1,18 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { whatsappController } from './whatsapp.controller.js';
 import { authMiddleware } from '../../shared/middleware/auth.middleware.js';
 
 export const whatsappRoutes = Router();
 
+// Media sent by agents, within WhatsApp's own limits (documents up to 100MB, video 16MB)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024,
+  },
+});
+
 // Webhook routes (no auth - called by Meta)
 whatsappRoutes.get('/webhook', (req, res) => whatsappController.verifyWebhook(req, res));
 whatsappRoutes.post('/webhook', (req, res, next) => whatsappController.receiveWebhook(req, res, next));
@@ -16,6 +25,10 @@ whatsappRoutes.post('/send/text', (req, res, next) => whatsappController.sendTex
 whatsappRoutes.post('/send/template', (req, res, next) => whatsappController.sendTemplateMessage(req, res, next));
 whatsappRoutes.post('/send/buttons', (req, res, next) => whatsappController.sendInteractiveButtons(req, res, next));
 whatsappRoutes.post('/send/list', (req, res, next) => whatsappController.sendInteractiveList(req, res, next));
+whatsappRoutes.post('/send/media', upload.single('file'), (req, res, next) => whatsappController.sendMedia(req, res, next));
+whatsappRoutes.post('/send/location', (req, res, next) => whatsappController.sendLocation(req, res, next));
+whatsappRoutes.post('/send/contacts', (req, res, next) => whatsappController.sendContacts(req, res, next));
+whatsappRoutes.post('/send/reaction', (req, res, next) => whatsappController.sendReaction(req, res, next));
 
 // Message actions
 whatsappRoutes.post('/mark-read/:messageId', (req, res, next) => whatsappController.markAsRead(req, res, next));
@@ -1,34 +1,52 @@
 import { z } from 'zod';
 import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import { AppError } from '../../shared/middleware/error.handler.js';
+import { AppError, NotFoundError, ServiceWindowClosedError, ValidationError } from '../../shared/middleware/error.handler.js';
+import { customerServiceWindow, type WindowFallback } from './whatsapp.window.js';
+import {
+  checkTemplateParameters,
+  type TemplateComponentDefinition,
+} from '../whatsapp-templates/whatsapp-templates.validation.js';
 
 const logger = createModuleLogger('whatsapp');
 
-const WHATSAPP_API_URL = 'https://graph.facebook.com/v18.0';
+const WHATSAPP_API_URL = env.WHATSAPP_API_URL.replace(/\/+$/, '');
+
+// An unknown template is looked up on Meta again at most this often
+const TEMPLATE_RESYNC_MS = 5 * 60 * 1000;
 
 // Validation schemas
 export const sendTextMessageSchema = z.object({
   to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
   message: z.string().min(1).max(4096),
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
 });
 
 export const sendTemplateMessageSchema = z.object({
   to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
   templateName: z.string().min(1),
   languageCode: z.string().default('es'),
   components: z.array(z.object({
     type: z.enum(['header', 'body', 'button']),
+    sub_type: z.enum(['url', 'quick_reply']).optional(), // Buttons only
+    index: z.number().int().min(0).max(9).optional(), // Buttons only
     parameters: z.array(z.object({
-      type: z.enum(['text', 'image', 'document', 'video']),
+      type: z.enum(['text', 'image', 'document', 'video', 'payload']),
       text: z.string().optional(),
+      payload: z.string().optional(),
       image: z.object({ link: z.string().url() }).optional(),
+      document: z.object({ link: z.string().url(), filename: z.string().optional() }).optional(),
+      video: z.object({ link: z.string().url() }).optional(),
     })),
   })).optional(),
 });
 
 export const sendInteractiveButtonsSchema = z.object({
   to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
   bodyText: z.string().min(1),
   buttons: z.array(z.object({
     id: z.string().min(1),
@@ -36,10 +54,12 @@ export const sendInteractiveButtonsSchema = z.object({
   })).min(1).max(3),
   headerText: z.string().optional(),
   footerText: z.string().optional(),
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
 });
 
 export const sendInteractiveListSchema = z.object({
   to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
   bodyText: z.string().min(1),
   buttonText: z.string().min(1).max(20),
   sections: z.array(z.object({
@@ -52,12 +72,72 @@ export const sendInteractiveListSchema = z.object({
   })).min(1).max(10),
   headerText: z.string().optional(),
   footerText: z.string().optional(),
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
+});
+
+export const sendMediaMessageSchema = z.object({
+  to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
+  type: z.enum(['image', 'document', 'video', 'audio']),
+  link: z.string().url().optional(), // Public URL, otherwise the file is uploaded
+  caption: z.string().max(1024).optional(), // Not supported for audio
+  fileName: z.string().max(240).optional(), // Documents only
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
+});
+
+export const sendLocationMessageSchema = z.object({
+  to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  name: z.string().max(100).optional(),
+  address: z.string().max(300).optional(),
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
+});
+
+export const sendContactsMessageSchema = z.object({
+  to: z.string().min(10),
+  channelId: z.string().nullable().optional(), // Number to send from (null: the tenant's own number, omitted: the default number)
+  contacts: z.array(z.object({
+    name: z.object({
+      formatted_name: z.string().min(1),
+      first_name: z.string().optional(),
+      last_name: z.string().optional(),
+    }),
+    phones: z.array(z.object({
+      phone: z.string().min(1),
+      type: z.string().optional(), // CELL, WORK...
+      wa_id: z.string().optional(),
+    })).optional(),
+    emails: z.array(z.object({ email: z.string().email(), type: z.string().optional() })).optional(),
+    org: z.object({
+      company: z.string().optional(),
+      department: z.string().optional(),
+      title: z.string().optional(),
+    }).optional(),
+  })).min(1).max(10),
+  replyToMessageId: z.string().optional(), // Message (our id) to quote
+});
+
+export const sendReactionSchema = z.object({
+  messageId: z.string().min(1), // Message (our id) to react to
+  emoji: z.string().max(16), // Empty string removes the reaction
 });
 
 export type SendTextMessageInput = z.infer<typeof sendTextMessageSchema>;
 export type SendTemplateMessageInput = z.infer<typeof sendTemplateMessageSchema>;
 export type SendInteractiveButtonsInput = z.infer<typeof sendInteractiveButtonsSchema>;
 export type SendInteractiveListInput = z.infer<typeof sendInteractiveListSchema>;
+export type SendMediaMessageInput = z.infer<typeof sendMediaMessageSchema>;
+export type SendLocationMessageInput = z.infer<typeof sendLocationMessageSchema>;
+export type SendContactsMessageInput = z.infer<typeof sendContactsMessageSchema>;
+export type SendReactionInput = z.infer<typeof sendReactionSchema>;
+
+export interface UploadedMedia {
+  data: Buffer;
+  mimeType: string;
+  fileName: string | null;
+}
 
 interface WhatsAppApiResponse {
   messaging_product: string;
@@ -67,13 +147,35 @@ interface WhatsAppApiResponse {
 
 export class WhatsAppService {
   /**
-   * Send a text message
+   * Send a text message. Outside the 24h customer service window the `fallback`
+   * template is sent instead if the tenant mapped one, otherwise the send is refused.
    */
   async sendTextMessage(
     tenantId: string,
-    input: SendTextMessageInput
-  ): Promise<{ messageId: string }> {
-    const tenant = await this.getTenantConfig(tenantId);
+    input: SendTextMessageInput,
+    options: { fallback?: WindowFallback } = {}
+  ): Promise<{ messageId: string; templateName?: string }> {
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+
+    const window = await customerServiceWindow.getWindow(tenantId, input.to, tenant.channelId);
+    if (!window.isOpen) {
+      const template = options.fallback
+        ? await customerServiceWindow.getFallbackTemplate(tenantId, options.fallback)
+        : null;
+
+      if (!template) {
+        throw new ServiceWindowClosedError(window.lastInboundAt);
+      }
+
+      logger.info({ tenantId, to: input.to, templateName: template.templateName }, 'Service window closed, sending fallback template');
+
+      const result = await this.sendTemplateMessage(tenantId, {
+        ...template,
+        to: input.to,
+        channelId: tenant.channelId,
+      });
+      return { ...result, templateName: template.templateName };
+    }
 
     const response = await this.callWhatsAppApi<WhatsAppApiResponse>(
       tenant.whatsappPhoneNumberId,
@@ -83,6 +185,7 @@ export class WhatsAppService {
         messaging_product: 'whatsapp',
         recipient_type: 'individual',
         to: input.to,
+        ...(await this.quoteContext(tenantId, input.replyToMessageId)),
         type: 'text',
         text: {
           preview_url: true,
@@ -108,7 +211,8 @@ export class WhatsAppService {
     tenantId: string,
     input: SendTemplateMessageInput
   ): Promise<{ messageId: string }> {
-    const tenant = await this.getTenantConfig(tenantId);
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertTemplateParameters(tenantId, input);
 
     const response = await this.callWhatsAppApi<WhatsAppApiResponse>(
       tenant.whatsappPhoneNumberId,
@@ -146,7 +250,8 @@ export class WhatsAppService {
     tenantId: string,
     input: SendInteractiveButtonsInput
   ): Promise<{ messageId: string }> {
-    const tenant = await this.getTenantConfig(tenantId);
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertWindowOpen(tenantId, input.to, tenant.channelId);
 
     const interactive: Record<string, unknown> = {
       type: 'button',
@@ -179,6 +284,7 @@ export class WhatsAppService {
         messaging_product: 'whatsapp',
         recipient_type: 'individual',
         to: input.to,
+        ...(await this.quoteContext(tenantId, input.replyToMessageId)),
         type: 'interactive',
         interactive,
       }
@@ -201,7 +307,8 @@ export class WhatsAppService {
     tenantId: string,
     input: SendInteractiveListInput
   ): Promise<{ messageId: string }> {
-    const tenant = await this.getTenantConfig(tenantId);
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertWindowOpen(tenantId, input.to, tenant.channelId);
 
     const interactive: Record<string, unknown> = {
       type: 'list',
@@ -229,6 +336,7 @@ export class WhatsAppService {
         messaging_product: 'whatsapp',
         recipient_type: 'individual',
         to: input.to,
+        ...(await this.quoteContext(tenantId, input.replyToMessageId)),
         type: 'interactive',
         interactive,
       }
@@ -244,11 +352,139 @@ export class WhatsAppService {
     return { messageId };
   }
 
+  /**
+   * Send an image, document, video or audio, from a public link or an uploaded file
+   */
+  async sendMediaMessage(
+    tenantId: string,
+    input: SendMediaMessageInput,
+    file?: UploadedMedia
+  ): Promise<{ messageId: string; waMediaId: string | null }> {
+    if (!file === !input.link) {
+      throw new ValidationError('Send either a file or a link');
+    }
+    if (input.type === 'audio' && input.caption) {
+      throw new ValidationError('Audio messages cannot have a caption');
+    }
+
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertWindowOpen(tenantId, input.to, tenant.channelId);
+
+    const waMediaId = file
+      ? await this.uploadMedia(tenant.whatsappPhoneNumberId, tenant.whatsappAccessToken, file)
+      : null;
+
+    const media: Record<string, unknown> = waMediaId ? { id: waMediaId } : { link: input.link };
+    if (input.caption) media.caption = input.caption;
+    if (input.type === 'document') {
+      const fileName = input.fileName ?? file?.fileName;
+      if (fileName) media.filename = fileName;
+    }
+
+    const messageId = await this.postMessage(tenant, input.to, {
+      ...(await this.quoteContext(tenantId, input.replyToMessageId)),
+      type: input.type,
+      [input.type]: media,
+    });
+
+    logger.info({ tenantId, to: input.to, type: input.type, messageId }, 'Media message sent');
+
+    return { messageId, waMediaId };
+  }
+
+  /**
+   * Send a location pin
+   */
+  async sendLocationMessage(
+    tenantId: string,
+    input: SendLocationMessageInput
+  ): Promise<{ messageId: string }> {
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertWindowOpen(tenantId, input.to, tenant.channelId);
+
+    const messageId = await this.postMessage(tenant, input.to, {
+      ...(await this.quoteContext(tenantId, input.replyToMessageId)),
+      type: 'location',
+      location: {
+        latitude: input.latitude,
+        longitude: input.longitude,
+        ...(input.name ? { name: input.name } : {}),
+        ...(input.address ? { address: input.address } : {}),
+      },
+    });
+
+    logger.info({ tenantId, to: input.to, messageId }, 'Location message sent');
+
+    return { messageId };
+  }
+
+  /**
+   * Send one or more contact cards
+   */
+  async sendContactsMessage(
+    tenantId: string,
+    input: SendContactsMessageInput
+  ): Promise<{ messageId: string }> {
+    const tenant = await this.getTenantConfig(tenantId, input.channelId);
+    await this.assertWindowOpen(tenantId, input.to, tenant.channelId);
+
+    const messageId = await this.postMessage(tenant, input.to, {
+      ...(await this.quoteContext(tenantId, input.replyToMessageId)),
+      type: 'contacts',
+      contacts: input.contacts,
+    });
+
+    logger.info({ tenantId, to: input.to, count: input.contacts.length, messageId }, 'Contacts message sent');
+
+    return { messageId };
+  }
+
+  /**
+   * React to a message of a conversation, from the number it was exchanged on
+   */
+  async sendReaction(
+    tenantId: string,
+    input: SendReactionInput
+  ): Promise<{ messageId: string; to: string; conversationId: string }> {
+    const target = await prisma.message.findFirst({
+      where: { id: input.messageId, tenantId },
+      select: {
+        waMessageId: true,
+        conversationId: true,
+        conversation: { select: { channelId: true, contact: { select: { phone: true } } } },
+      },
+    });
+
+    if (!target) throw new NotFoundError('Message');
+    if (!target.waMessageId) {
+      throw new AppError(400, 'MESSAGE_NOT_SENT', 'Message was not delivered through WhatsApp');
+    }
+
+    const to = target.conversation.contact.phone;
+    const channelId = target.conversation.channelId;
+    const tenant = await this.getTenantConfig(tenantId, channelId);
+    await this.assertWindowOpen(tenantId, to, tenant.channelId);
+
+    const messageId = await this.postMessage(tenant, to, {
+      type: 'reaction',
+      reaction: { message_id: target.waMessageId, emoji: input.emoji },
+    });
+
+    logger.info({ tenantId, to, reactedTo: input.messageId, messageId }, 'Reaction sent');
+
+    return { messageId, to, conversationId: target.conversationId };
+  }
+
   /**
    * Mark message as read
    */
   async markAsRead(tenantId: string, messageId: string): Promise<void> {
-    const tenant = await this.getTenantConfig(tenantId);
+    // Receipts must come from the number the message was sent to
+    const message = await prisma.message.findFirst({
+      where: { tenantId, waMessageId: messageId },
+      select: { conversation: { select: { channelId: true } } },
+    });
+    const tenant = await this.getTenantConfig(tenantId, message?.conversation.channelId);
 
     await this.callWhatsAppApi(
       tenant.whatsappPhoneNumberId,
@@ -265,30 +501,217 @@ export class WhatsAppService {
   }
 
   /**
-   * Download media from WhatsApp
+   * Download media from WhatsApp (the Graph URL is temporary and needs the
+   * token of the number the media was sent to)
+   */
+  async downloadMedia(
+    tenantId: string,
+    mediaId: string,
+    channelId?: string | null
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    const tenant = await this.getTenantConfig(tenantId, channelId);
+    const headers = { 'Authorization': `Bearer ${tenant.whatsappAccessToken}` };
+
+    // First, get the media URL (media ids are top-level Graph objects)
+    const infoResponse = await fetch(`${WHATSAPP_API_URL}/${mediaId}`, { headers });
+    if (!infoResponse.ok) {
+      logger.error({ mediaId, status: infoResponse.status }, 'WhatsApp media lookup failed');
+      throw new AppError(infoResponse.status, 'WHATSAPP_API_ERROR', `WhatsApp API error: ${infoResponse.statusText}`);
+    }
+    const mediaInfo = await infoResponse.json() as { url: string; mime_type: string };
+
+    // Then the binary itself
+    const mediaResponse = await fetch(mediaInfo.url, { headers });
+    if (!mediaResponse.ok) {
+      logger.error({ mediaId, status: mediaResponse.status }, 'WhatsApp media download failed');
+      throw new AppError(502, 'WHATSAPP_MEDIA_ERROR', `WhatsApp media download failed: ${mediaResponse.statusText}`);
+    }
+
+    return {
+      data: Buffer.from(await mediaResponse.arrayBuffer()),
+      mimeType: mediaInfo.mime_type,
+    };
+  }
+
+  /**
+   * Call a WhatsApp Business Account endpoint (templates, phone numbers...)
    */
-  async downloadMedia(tenantId: string, mediaId: string): Promise<{ url: string; mimeType: string }> {
+  async callBusinessApi<T>(
+    tenantId: string,
+    endpoint: string,
+    body?: unknown,
+    method: 'GET' | 'POST' | 'DELETE' = 'GET'
+  ): Promise<T> {
     const tenant = await this.getTenantConfig(tenantId);
 
-    // First, get the media URL
-    const mediaInfo = await this.callWhatsAppApi<{ url: string; mime_type: string }>(
+    if (!tenant.whatsappBusinessAccountId) {
+      throw new AppError(400, 'WHATSAPP_NOT_CONFIGURED', 'WhatsApp Business Account ID is not configured for this tenant');
+    }
+
+    return this.callWhatsAppApi<T>(
+      tenant.whatsappBusinessAccountId,
+      tenant.whatsappAccessToken,
+      endpoint,
+      body,
+      method
+    );
+  }
+
+  /**
+   * Only approved templates can be sent, with exactly the parameters their placeholders need.
+   * An unknown template triggers a sync first; tenants whose templates were never synced
+   * are let through unchecked so their sends keep working.
+   */
+  private async assertTemplateParameters(tenantId: string, input: SendTemplateMessageInput): Promise<void> {
+    const findTemplate = () => prisma.whatsAppTemplate.findUnique({
+      where: {
+        tenantId_name_language: { tenantId, name: input.templateName, language: input.languageCode },
+      },
+      select: { status: true, components: true },
+    });
+
+    let template = await findTemplate();
+
+    if (!template) {
+      const lastSync = await prisma.whatsAppTemplate.findFirst({
+        where: { tenantId, lastSyncedAt: { not: null } },
+        orderBy: { lastSyncedAt: 'desc' },
+        select: { lastSyncedAt: true },
+      });
+
+      if (!lastSync?.lastSyncedAt || Date.now() - lastSync.lastSyncedAt.getTime() > TEMPLATE_RESYNC_MS) {
+        try {
+          // Imported on use: the templates module depends on this one
+          const { whatsappTemplatesService } = await import('../whatsapp-templates/whatsapp-templates.service.js');
+          await whatsappTemplatesService.sync(tenantId);
+          template = await findTemplate();
+        } catch (error) {
+          logger.warn({ error, tenantId }, 'Template sync before send failed');
+        }
+      }
+
+      if (!template && !lastSync) {
+        const synced = await prisma.whatsAppTemplate.count({ where: { tenantId } });
+        if (synced === 0) {
+          logger.warn({ tenantId, templateName: input.templateName }, 'Templates never synced, sending without checking parameters');
+          return;
+        }
+      }
+    }
+
+    if (!template) {
+      throw new AppError(
+        404,
+        'TEMPLATE_NOT_FOUND',
+        `Template ${input.templateName} (${input.languageCode}) not found, sync templates from WhatsApp first`
+      );
+    }
+
+    if (template.status !== 'APPROVED') {
+      throw new AppError(400, 'TEMPLATE_NOT_APPROVED', `Template ${input.templateName} is ${template.status.toLowerCase()}`);
+    }
+
+    const errors = checkTemplateParameters(
+      template.components as unknown as TemplateComponentDefinition[],
+      input.components ?? []
+    );
+
+    if (errors.length > 0) {
+      throw new ValidationError('Template parameters do not match the template', errors);
+    }
+  }
+
+  /**
+   * `context` that makes WhatsApp show the message as a reply to one of ours
+   */
+  private async quoteContext(
+    tenantId: string,
+    replyToMessageId: string | undefined
+  ): Promise<{ context?: { message_id: string } }> {
+    if (!replyToMessageId) return {};
+
+    const quoted = await prisma.message.findFirst({
+      where: { id: replyToMessageId, tenantId },
+      select: { waMessageId: true },
+    });
+
+    if (!quoted) throw new NotFoundError('Quoted message');
+    if (!quoted.waMessageId) {
+      throw new AppError(400, 'MESSAGE_NOT_SENT', 'Quoted message was not delivered through WhatsApp');
+    }
+
+    return { context: { message_id: quoted.waMessageId } };
+  }
+
+  /**
+   * Post a message to /messages and return its WhatsApp id
+   */
+  private async postMessage(
+    tenant: { whatsappPhoneNumberId: string; whatsappAccessToken: string },
+    to: string,
+    message: Record<string, unknown>
+  ): Promise<string> {
+    const response = await this.callWhatsAppApi<WhatsAppApiResponse>(
       tenant.whatsappPhoneNumberId,
       tenant.whatsappAccessToken,
-      mediaId,
-      null,
-      'GET'
+      'messages',
+      {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        ...message,
+      }
     );
 
-    return {
-      url: mediaInfo.url,
-      mimeType: mediaInfo.mime_type,
-    };
+    const messageId = response.messages[0]?.id;
+    if (!messageId) {
+      throw new AppError(500, 'WHATSAPP_ERROR', 'Failed to get message ID from WhatsApp');
+    }
+
+    return messageId;
   }
 
   /**
-   * Get tenant WhatsApp configuration
+   * Upload a file to WhatsApp's media store, returns the media id to send
    */
-  private async getTenantConfig(tenantId: string) {
+  private async uploadMedia(phoneNumberId: string, accessToken: string, file: UploadedMedia): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', file.mimeType);
+    form.append('file', new Blob([file.data], { type: file.mimeType }), file.fileName ?? 'file');
+
+    const response = await fetch(`${WHATSAPP_API_URL}/${phoneNumberId}/media`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      logger.error({ phoneNumberId, status: response.status, error: errorData }, 'WhatsApp media upload failed');
+      throw new AppError(response.status, 'WHATSAPP_API_ERROR', `WhatsApp API error: ${response.statusText}`, errorData);
+    }
+
+    const { id } = await response.json() as { id: string };
+    return id;
+  }
+
+  /**
+   * Refuse free-form sends outside the 24h customer service window
+   */
+  private async assertWindowOpen(tenantId: string, to: string, channelId: string | null): Promise<void> {
+    const window = await customerServiceWindow.getWindow(tenantId, to, channelId);
+    if (!window.isOpen) {
+      throw new ServiceWindowClosedError(window.lastInboundAt);
+    }
+  }
+
+  /**
+   * Get tenant WhatsApp configuration, with the number of the given channel.
+   * `null` is the tenant's own number (conversations that came in on it); only
+   * sends without a conversation (`undefined`) go out from the default channel.
+   */
+  private async getTenantConfig(tenantId: string, channelId?: string | null) {
     const tenant = await prisma.tenant.findUnique({
       where: { id: tenantId },
       select: {
@@ -296,6 +719,11 @@ export class WhatsAppService {
         whatsappBusinessAccountId: true,
         whatsappAccessToken: true,
         status: true,
+        whatsappChannels: {
+          where: channelId ? { id: channelId, isActive: true } : { isDefault: true, isActive: true },
+          select: { id: true, phoneNumberId: true, accessToken: true },
+          take: channelId === null ? 0 : 1,
+        },
       },
     });
 
@@ -307,17 +735,27 @@ export class WhatsAppService {
       throw new AppError(403, 'TENANT_INACTIVE', 'Tenant is not active');
     }
 
-    if (!tenant.whatsappPhoneNumberId || !tenant.whatsappAccessToken) {
+    const channel = tenant.whatsappChannels[0];
+    if (channelId && !channel) {
+      throw new AppError(404, 'CHANNEL_NOT_FOUND', 'WhatsApp channel not found or inactive');
+    }
+
+    const phoneNumberId = channel?.phoneNumberId ?? tenant.whatsappPhoneNumberId;
+    const accessToken = channel?.accessToken ?? tenant.whatsappAccessToken;
+
+    if (!phoneNumberId || !accessToken) {
       throw new AppError(400, 'WHATSAPP_NOT_CONFIGURED', 'WhatsApp is not configured for this tenant');
     }
 
     return {
-      whatsappPhoneNumberId: tenant.whatsappPhoneNumberId,
+      channelId: channel?.id ?? null, // Number actually used, for the service window
+      whatsappPhoneNumberId: phoneNumberId,
       whatsappBusinessAccountId: tenant.whatsappBusinessAccountId,
-      whatsappAccessToken: tenant.whatsappAccessToken,
+      whatsappAccessToken: accessToken,
     };
   }
 
+
   /**
    * Call WhatsApp Cloud API
    */
@@ -326,7 +764,7 @@ export class WhatsAppService {
     accessToken: string,
     endpoint: string,
     body: unknown,
-    method: 'GET' | 'POST' = 'POST'
+    method: 'GET' | 'POST' | 'DELETE' = 'POST'
   ): Promise<T> {
     const url = `${WHATSAPP_API_URL}/${phoneNumberId}/${endpoint}`;
 
@@ -0,0 +1,78 @@
+import type { WaMessageStatus } from '@prisma/client';
+import type { WhatsAppStatusUpdate } from '../../shared/types/index.js';
+
+// Order in which a message moves forward; FAILED is handled apart
+const STATUS_RANK: Record<Exclude<WaMessageStatus, 'FAILED'>, number> = {
+  PENDING: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+};
+
+const ALL_STATUSES: WaMessageStatus[] = ['PENDING', 'SENT', 'DELIVERED', 'READ', 'FAILED'];
+
+export interface ParsedStatusUpdate {
+  status: WaMessageStatus;
+  occurredAt: Date;
+  errorCode: number | null;
+  errorTitle: string | null;
+  errorDetails: string | null;
+  pricingCategory: string | null; // Conversation billing category (marketing, utility, service...)
+  pricingModel: string | null;
+  billable: boolean | null;
+  waConversationId: string | null;
+  conversationExpiresAt: Date | null;
+}
+
+/**
+ * Whether a message in `current` status may move to `next`.
+ * Statuses only move forward (a late "delivered" never replaces "read"), and a
+ * failure is final but cannot undo a delivery.
+ */
+export function canTransition(current: WaMessageStatus, next: WaMessageStatus): boolean {
+  if (current === next || current === 'FAILED') return false;
+  if (next === 'FAILED') return current === 'PENDING' || current === 'SENT';
+  return STATUS_RANK[next] > STATUS_RANK[current];
+}
+
+/**
+ * Statuses a message may currently have for `next` to apply
+ */
+export function statusesAdvancingTo(next: WaMessageStatus): WaMessageStatus[] {
+  return ALL_STATUSES.filter(current => canTransition(current, next));
+}
+
+/**
+ * Normalize a status entry of a Meta webhook
+ */
+export function parseStatusUpdate(update: WhatsAppStatusUpdate): ParsedStatusUpdate {
+  const error = update.errors?.[0];
+
+  return {
+    status: mapStatus(update.status),
+    occurredAt: fromUnix(update.timestamp) ?? new Date(),
+    errorCode: error?.code ?? null,
+    errorTitle: error?.title ?? null,
+    errorDetails: error?.error_data?.details ?? error?.message ?? null,
+    pricingCategory: update.pricing?.category ?? update.conversation?.origin?.type ?? null,
+    pricingModel: update.pricing?.pricing_model ?? null,
+    billable: update.pricing?.billable ?? null,
+    waConversationId: update.conversation?.id ?? null,
+    conversationExpiresAt: fromUnix(update.conversation?.expiration_timestamp),
+  };
+}
+
+function mapStatus(status: WhatsAppStatusUpdate['status']): WaMessageStatus {
+  const statusMap: Record<WhatsAppStatusUpdate['status'], WaMessageStatus> = {
+    sent: 'SENT',
+    delivered: 'DELIVERED',
+    read: 'READ',
+    failed: 'FAILED',
+  };
+  return statusMap[status] ?? 'PENDING';
+}
+
+function fromUnix(timestamp: string | undefined): Date | null {
+  const seconds = Number(timestamp);
+  return timestamp && Number.isFinite(seconds) ? new Date(seconds * 1000) : null;
+}
@@ -1,22 +1,51 @@
+import crypto from 'crypto';
 import { prisma } from '../../config/database.js';
 import { env } from '../../config/env.js';
+import { redis } from '../../config/redis.js';
 import { createModuleLogger } from '../../shared/utils/logger.js';
-import type { WhatsAppWebhookPayload, WhatsAppMessage } from '../../shared/types/index.js';
+import type { WebhookEvent } from '@prisma/client';
+import type { WhatsAppWebhookPayload, WhatsAppMessage, WhatsAppStatusUpdate } from '../../shared/types/index.js';
+import { parseMessageContent } from './whatsapp.parser.js';
+import { parseStatusUpdate, statusesAdvancingTo, type ParsedStatusUpdate } from './whatsapp.status.js';
+import { emitMessageStatus } from '../realtime/socket.handler.js';
+import { webhooksService } from '../webhooks/webhooks.service.js';
+import { conversationLifecycleService } from '../conversations/conversations.lifecycle.js';
+import { slaService } from '../sla/sla.service.js';
+import { whatsappTemplatesService, type TemplateStatusUpdate } from '../whatsapp-templates/whatsapp-templates.service.js';
 
 const logger = createModuleLogger('whatsapp-webhook');
 
+// Meta keeps redelivering unacknowledged webhooks for up to 7 days
+const DEDUPE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type QuarantineReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'app_secret_not_configured'
+  | 'invalid_payload';
+
 export interface ProcessedInboundMessage {
   tenantId: string;
   contactId: string;
   conversationId: string;
+  channelId: string | null; // Number the customer wrote to, replies go out from it
   messageId: string;
   from: string;
   type: string;
   content: string | null;
-  mediaUrl: string | null;
+  waMediaId: string | null; // Meta media id, downloaded by the media worker
+  mediaType: string | null;
+  replyId: string | null; // Id of the tapped button/list row, for rules and the AI
   contactName: string | null;
 }
 
+// Tenant webhook events for delivery statuses
+const STATUS_WEBHOOK_EVENTS: Partial<Record<ParsedStatusUpdate['status'], WebhookEvent>> = {
+  DELIVERED: 'MESSAGE_DELIVERED',
+  READ: 'MESSAGE_READ',
+  FAILED: 'MESSAGE_FAILED',
+};
+
 export class WhatsAppWebhookHandler {
   /**
    * Verify webhook (GET request from Meta)
@@ -30,6 +59,54 @@ export class WhatsAppWebhookHandler {
     return null;
   }
 
+  /**
+   * Check the X-Hub-Signature-256 header (HMAC-SHA256 of the raw body with the app secret).
+   * Returns null if the payload can be trusted, otherwise why it was rejected.
+   */
+  checkSignature(rawBody: Buffer | undefined, signature: string | undefined): QuarantineReason | null {
+    if (!env.WHATSAPP_APP_SECRET) {
+      if (env.NODE_ENV === 'production') return 'app_secret_not_configured';
+
+      logger.warn('WHATSAPP_APP_SECRET not set, accepting unsigned webhook');
+      return null;
+    }
+
+    if (!signature || !rawBody) return 'missing_signature';
+
+    const expected = `sha256=${crypto.createHmac('sha256', env.WHATSAPP_APP_SECRET).update(rawBody).digest('hex')}`;
+
+    const valid = signature.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    return valid ? null : 'invalid_signature';
+  }
+
+  /**
+   * Keep a rejected payload for later inspection
+   */
+  async quarantine(
+    reason: QuarantineReason,
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    ip: string | undefined
+  ): Promise<void> {
+    logger.warn({ reason, ip }, 'Webhook payload quarantined');
+
+    try {
+      await prisma.webhookQuarantine.create({
+        data: {
+          source: 'whatsapp',
+          reason,
+          signature: signature ?? null,
+          payload: rawBody?.toString('utf8') ?? '',
+          ip: ip ?? null,
+        },
+      });
+    } catch (error) {
+      logger.error({ error, reason }, 'Failed to quarantine webhook payload');
+    }
+  }
+
   /**
    * Process incoming webhook payload
    */
@@ -43,13 +120,28 @@ export class WhatsAppWebhookHandler {
 
     for (const entry of payload.entry) {
       for (const change of entry.changes) {
+        if (change.field === 'message_template_status_update') {
+          await this.processTemplateStatusUpdate(entry.id, change.value as unknown as TemplateStatusUpdate);
+          continue;
+        }
+
         if (change.field !== 'messages') continue;
 
         const value = change.value;
         const phoneNumberId = value.metadata.phone_number_id;
 
-        // Find tenant by phone number ID
-        const tenant = await prisma.tenant.findFirst({
+        // Find the tenant by the receiving number: one of its channels, or its legacy single number
+        const channel = await prisma.whatsAppChannel.findUnique({
+          where: { phoneNumberId },
+          select: { id: true, isActive: true, tenant: { select: { id: true, status: true } } },
+        });
+
+        if (channel && !channel.isActive) {
+          logger.warn({ phoneNumberId, channelId: channel.id }, 'Channel is disabled');
+          continue;
+        }
+
+        const tenant = channel?.tenant ?? await prisma.tenant.findFirst({
           where: { whatsappPhoneNumberId: phoneNumberId },
           select: { id: true, status: true },
         });
@@ -70,6 +162,7 @@ export class WhatsAppWebhookHandler {
             const contactInfo = value.contacts?.find(c => c.wa_id === message.from);
             const processed = await this.processInboundMessage(
               tenant.id,
+              channel?.id ?? null,
               message,
               contactInfo?.profile.name ?? null
             );
@@ -96,10 +189,28 @@ export class WhatsAppWebhookHandler {
    */
   private async processInboundMessage(
     tenantId: string,
+    channelId: string | null,
     message: WhatsAppMessage,
     contactName: string | null
   ): Promise<ProcessedInboundMessage | null> {
+    // Redeliveries must not count the message twice or trigger a second reply
+    if (!(await this.claimEvent('message', message.id))) {
+      logger.debug({ tenantId, waMessageId: message.id }, 'Duplicate message ignored');
+      return null;
+    }
+
     try {
+      // Older than the dedupe window, or claimed before a Redis flush
+      const existing = await prisma.message.findUnique({
+        where: { waMessageId: message.id },
+        select: { id: true },
+      });
+
+      if (existing) {
+        logger.debug({ tenantId, waMessageId: message.id }, 'Duplicate message ignored');
+        return null;
+      }
+
       // Get or create contact
       const contact = await prisma.contact.upsert({
         where: {
@@ -123,28 +234,19 @@ export class WhatsAppWebhookHandler {
         },
       });
 
-      // Get or create conversation
-      let conversation = await prisma.conversation.findFirst({
-        where: {
-          tenantId,
-          contactId: contact.id,
-          status: 'OPEN',
-        },
-      });
-
-      if (!conversation) {
-        conversation = await prisma.conversation.create({
-          data: {
-            tenantId,
-            contactId: contact.id,
-            status: 'OPEN',
-            isAiEnabled: true,
-          },
-        });
-      }
+      // Open, reopen or start the conversation (each number keeps its own thread with the contact)
+      const conversation = await conversationLifecycleService.resolveInbound(tenantId, contact.id, channelId);
 
       // Extract message content
-      const { content, mediaUrl, mediaType, fileName } = this.extractMessageContent(message);
+      const { content, waMediaId, mediaType, fileName, reply, location, contacts } = parseMessageContent(message);
+
+      // The customer may be replying to one of the messages of the thread
+      const quoted = message.context?.id
+        ? await prisma.message.findFirst({
+          where: { tenantId, waMessageId: message.context.id },
+          select: { id: true },
+        })
+        : null;
 
       // Create message record
       const dbMessage = await prisma.message.create({
@@ -154,9 +256,17 @@ export class WhatsAppWebhookHandler {
           direction: 'INBOUND',
           type: this.mapMessageType(message.type),
           content,
-          mediaUrl,
+          waMediaId,
           mediaType,
           fileName,
+          replyType: reply?.type ?? null,
+          replyId: reply?.id ?? null,
+          latitude: location?.latitude ?? null,
+          longitude: location?.longitude ?? null,
+          locationName: location?.name ?? null,
+          locationAddress: location?.address ?? null,
+          ...(contacts ? { sharedContacts: contacts } : {}),
+          quotedMessageId: quoted?.id ?? null,
           waMessageId: message.id,
           waStatus: 'DELIVERED',
           waTimestamp: new Date(parseInt(message.timestamp) * 1000),
@@ -166,8 +276,9 @@ export class WhatsAppWebhookHandler {
       // Update conversation last message time
       await prisma.conversation.update({
         where: { id: conversation.id },
-        data: { lastMessageAt: new Date() },
+        data: { lastMessageAt: new Date(), lastInboundAt: dbMessage.createdAt },
       });
+      await slaService.onCustomerMessage(tenantId, conversation.id, dbMessage.createdAt);
 
       // Track usage
       await this.trackUsage(tenantId, 'INBOUND_MESSAGES');
@@ -184,86 +295,148 @@ export class WhatsAppWebhookHandler {
         tenantId,
         contactId: contact.id,
         conversationId: conversation.id,
+        channelId,
         messageId: dbMessage.id,
         from: message.from,
         type: message.type,
         content,
-        mediaUrl,
+        waMediaId,
+        mediaType,
+        replyId: reply?.id ?? null,
         contactName,
       };
     } catch (error) {
       logger.error({ error, tenantId, messageId: message.id }, 'Failed to process inbound message');
+      // Let a redelivery try again
+      await this.releaseEvent('message', message.id);
       return null;
     }
   }
 
   /**
-   * Process message status update
+   * Process a template approval/rejection (entry id is the WhatsApp Business Account id)
    */
-  private async processStatusUpdate(
-    tenantId: string,
-    status: { id: string; status: string; timestamp: string; recipient_id: string }
-  ): Promise<void> {
+  private async processTemplateStatusUpdate(businessAccountId: string, update: TemplateStatusUpdate): Promise<void> {
     try {
-      const waStatus = this.mapWaStatus(status.status);
+      const tenant = await prisma.tenant.findFirst({
+        where: { whatsappBusinessAccountId: businessAccountId },
+        select: { id: true },
+      });
 
-      await prisma.message.updateMany({
-        where: {
-          tenantId,
-          waMessageId: status.id,
-        },
+      if (!tenant) {
+        logger.warn({ businessAccountId }, 'No tenant found for business account');
+        return;
+      }
+
+      await whatsappTemplatesService.applyStatusUpdate(tenant.id, update);
+    } catch (error) {
+      logger.error({ error, businessAccountId }, 'Failed to update template status');
+    }
+  }
+
+  /**
+   * Record a delivery status of an outbound message. Every status is kept in the
+   * message's history, but the message itself only moves forward.
+   */
+  private async processStatusUpdate(tenantId: string, status: WhatsAppStatusUpdate): Promise<void> {
+    const eventId = `${status.id}:${status.status}`;
+    if (!(await this.claimEvent('status', eventId))) {
+      logger.debug({ tenantId, statusId: status.id, status: status.status }, 'Duplicate status ignored');
+      return;
+    }
+
+    try {
+      const message = await prisma.message.findFirst({
+        where: { tenantId, waMessageId: status.id },
+        select: { id: true, conversationId: true },
+      });
+
+      if (!message) {
+        logger.debug({ tenantId, statusId: status.id }, 'Status for unknown message ignored');
+        return;
+      }
+
+      const update = parseStatusUpdate(status);
+
+      // Conditional, so statuses arriving out of order or concurrently never move the message back
+      const { count } = await prisma.message.updateMany({
+        where: { id: message.id, waStatus: { in: statusesAdvancingTo(update.status) } },
         data: {
-          waStatus,
+          waStatus: update.status,
+          ...(update.status === 'DELIVERED' ? { deliveredAt: update.occurredAt } : {}),
+          ...(update.status === 'READ' ? { readAt: update.occurredAt } : {}),
+          ...(update.status === 'FAILED' ? { waErrorCode: update.errorCode, waErrorTitle: update.errorTitle } : {}),
+          ...(update.pricingCategory ? { pricingCategory: update.pricingCategory } : {}),
         },
       });
+      const applied = count > 0;
 
-      logger.debug({ tenantId, messageId: status.id, status: waStatus }, 'Message status updated');
+      await prisma.messageStatusEvent.create({
+        data: { ...update, tenantId, messageId: message.id, applied },
+      });
+
+      logger.debug({ tenantId, messageId: message.id, status: update.status, applied }, 'Message status recorded');
+
+      if (applied) {
+        await this.notifyStatus(tenantId, message.id, message.conversationId, status.id, update);
+      }
     } catch (error) {
       logger.error({ error, tenantId, statusId: status.id }, 'Failed to update message status');
+      await this.releaseEvent('status', eventId);
     }
   }
 
   /**
-   * Extract content from WhatsApp message
+   * Tell the inbox and the tenant's webhooks that a message moved to a new status
    */
-  private extractMessageContent(message: WhatsAppMessage): {
-    content: string | null;
-    mediaUrl: string | null;
-    mediaType: string | null;
-    fileName: string | null;
-  } {
-    switch (message.type) {
-      case 'text':
-        return {
-          content: message.text?.body ?? null,
-          mediaUrl: null,
-          mediaType: null,
-          fileName: null,
-        };
-      case 'image':
-        return {
-          content: null,
-          mediaUrl: message.image?.id ?? null,
-          mediaType: message.image?.mime_type ?? null,
-          fileName: null,
-        };
-      case 'document':
-        return {
-          content: null,
-          mediaUrl: message.document?.id ?? null,
-          mediaType: message.document?.mime_type ?? null,
-          fileName: message.document?.filename ?? null,
-        };
-      default:
-        return {
-          content: JSON.stringify(message),
-          mediaUrl: null,
-          mediaType: null,
-          fileName: null,
-        };
+  private async notifyStatus(
+    tenantId: string,
+    messageId: string,
+    conversationId: string,
+    waMessageId: string,
+    update: ParsedStatusUpdate
+  ): Promise<void> {
+    const error = update.errorCode !== null
+      ? { code: update.errorCode, title: update.errorTitle, details: update.errorDetails }
+      : null;
+
+    emitMessageStatus(conversationId, messageId, update.status, {
+      at: update.occurredAt.toISOString(),
+      error,
+    });
+
+    const event = STATUS_WEBHOOK_EVENTS[update.status];
+    if (!event) return;
+
+    try {
+      await webhooksService.dispatchEvent(tenantId, event, {
+        messageId,
+        conversationId,
+        waMessageId,
+        status: update.status,
+        timestamp: update.occurredAt.toISOString(),
+        pricingCategory: update.pricingCategory,
+        error,
+      });
+    } catch (dispatchError) {
+      // The status is recorded; a lost notification must not make Meta redeliver it
+      logger.warn({ error: dispatchError, tenantId, messageId, event }, 'Failed to dispatch status webhook');
     }
   }
 
+
+  /**
+   * Claim a webhook event so it is handled once; false if it was already claimed
+   */
+  private async claimEvent(kind: 'message' | 'status', id: string): Promise<boolean> {
+    const result = await redis.set(`wa-webhook:${kind}:${id}`, '1', 'EX', DEDUPE_TTL_SECONDS, 'NX');
+    return result === 'OK';
+  }
+
+  private async releaseEvent(kind: 'message' | 'status', id: string): Promise<void> {
+    await redis.del(`wa-webhook:${kind}:${id}`).catch(() => undefined);
+  }
+
   /**
    * Map WhatsApp message type to our enum
    */
@@ -274,26 +447,15 @@ export class WhatsAppWebhookHandler {
       document: 'DOCUMENT',
       audio: 'AUDIO',
       video: 'VIDEO',
+      sticker: 'IMAGE',
       location: 'LOCATION',
       contacts: 'CONTACT',
       interactive: 'INTERACTIVE',
+      button: 'INTERACTIVE',
     };
     return typeMap[type] ?? 'TEXT';
   }
 
-  /**
-   * Map WhatsApp status to our enum
-   */
-  private mapWaStatus(status: string): 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED' {
-    const statusMap: Record<string, 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED'> = {
-      sent: 'SENT',
-      delivered: 'DELIVERED',
-      read: 'READ',
-      failed: 'FAILED',
-    };
-    return statusMap[status] ?? 'PENDING';
-  }
-
   /**
    * Track usage for rate limiting
    */
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import type { SendTemplateMessageInput } from './whatsapp.service.js';
+
+// Free-form messages are only allowed this long after the customer's last message
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Sends that can fall back to an approved template when the window is closed
+export const TEMPLATE_FALLBACK_PURPOSES = ['appointment_reminder'] as const;
+export type TemplateFallbackPurpose = typeof TEMPLATE_FALLBACK_PURPOSES[number];
+
+export const templateFallbacksSchema = z.record(
+  z.enum(TEMPLATE_FALLBACK_PURPOSES),
+  z.object({
+    templateName: z.string().min(1),
+    languageCode: z.string().default('es'),
+    // Variables passed as the body parameters {{1}}, {{2}}... in this order
+    parameters: z.array(z.string().min(1)).max(10).default([]),
+  })
+);
+
+export type TemplateFallbacks = z.infer<typeof templateFallbacksSchema>;
+
+export interface WindowFallback {
+  purpose: TemplateFallbackPurpose;
+  variables: Record<string, string>;
+}
+
+export interface ServiceWindow {
+  isOpen: boolean;
+  lastInboundAt: Date | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * Tracks WhatsApp's 24-hour customer service window per contact, from their last inbound message
+ */
+export class CustomerServiceWindow {
+  /**
+   * Window state for the contact with this phone number on one of the tenant's numbers
+   * (null: the tenant's own number), or on any of them when no number is given
+   */
+  async getWindow(tenantId: string, phone: string, channelId?: string | null): Promise<ServiceWindow> {
+    const digits = phone.replace(/\D/g, '');
+
+    const lastInbound = await prisma.message.findFirst({
+      where: {
+        tenantId,
+        direction: 'INBOUND',
+        conversation: {
+          contact: { phone: { in: [phone, digits, `+${digits}`] } },
+          ...(channelId !== undefined ? { channelId } : {}),
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    if (!lastInbound) {
+      return { isOpen: false, lastInboundAt: null, expiresAt: null };
+    }
+
+    const expiresAt = new Date(lastInbound.createdAt.getTime() + SERVICE_WINDOW_MS);
+    return { isOpen: expiresAt > new Date(), lastInboundAt: lastInbound.createdAt, expiresAt };
+  }
+
+  /**
+   * The approved template the tenant mapped to this kind of message, filled with its variables
+   */
+  async getFallbackTemplate(
+    tenantId: string,
+    fallback: WindowFallback
+  ): Promise<Omit<SendTemplateMessageInput, 'to'> | null> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { templateFallbacks: true },
+    });
+
+    const parsed = templateFallbacksSchema.safeParse(tenant?.templateFallbacks ?? {});
+    const mapping = parsed.success ? parsed.data[fallback.purpose] : undefined;
+    if (!mapping) return null;
+
+    return {
+      templateName: mapping.templateName,
+      languageCode: mapping.languageCode,
+      ...(mapping.parameters.length > 0
+        ? {
+          components: [{
+            type: 'body' as const,
+            parameters: mapping.parameters.map(name => ({
+              type: 'text' as const,
+              text: fallback.variables[name] || '-', // Meta rejects empty parameters
+            })),
+          }],
+        }
+        : {}),
+    };
+  }
+}
+
+export const customerServiceWindow = new CustomerServiceWindow();
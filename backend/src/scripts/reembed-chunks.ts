@@ -0,0 +1,29 @@
+/**
+ * Backfill - re-embeds DocumentChunk rows with the configured embedding provider.
+ * Run after changing EMBEDDING_PROVIDER, EMBEDDING_MODEL or EMBEDDING_DIMENSIONS.
+ */
+import { prisma, disconnectDatabase } from '../config/database.js';
+import { ragService } from '../modules/rag/rag.service.js';
+import { getEmbeddingProvider } from '../modules/rag/embedding.provider.js';
+import { createModuleLogger } from '../shared/utils/logger.js';
+
+const logger = createModuleLogger('reembed');
+
+async function main() {
+  const { modelId, dimensions } = getEmbeddingProvider();
+  logger.info({ modelId, dimensions }, 'Re-embedding document chunks...');
+
+  // Drop the fixed vector size from older schemas so old and new vectors can coexist during the backfill
+  await prisma.$executeRaw`ALTER TABLE "DocumentChunk" ALTER COLUMN embedding TYPE vector`;
+
+  const { updated } = await ragService.reembedStaleChunks();
+
+  logger.info({ updated, modelId }, 'Re-embedding complete');
+}
+
+main()
+  .catch((error) => {
+    logger.error({ error }, 'Re-embedding failed');
+    process.exitCode = 1;
+  })
+  .finally(() => disconnectDatabase());
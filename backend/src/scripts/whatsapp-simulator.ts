@@ -0,0 +1,41 @@
+/**
+ * Local WhatsApp Cloud API - serves the Graph endpoints and posts webhooks to the app.
+ * Point the app at it with WHATSAPP_API_URL=<printed url> and write from a virtual phone with:
+ *   curl -X POST localhost:4010/_simulator/phones/5215512345678/messages -H 'Content-Type: application/json' -d '{"text":"Hola"}'
+ */
+import { WhatsAppCloudSimulator } from '../modules/whatsapp-simulator/whatsapp-simulator.js';
+
+const simulator = new WhatsAppCloudSimulator({
+  port: Number(process.env.SIMULATOR_PORT ?? 4010),
+  host: process.env.SIMULATOR_HOST ?? '127.0.0.1',
+  webhookUrl: process.env.SIMULATOR_WEBHOOK_URL ?? `http://localhost:${process.env.PORT ?? 4000}/api/whatsapp/webhook`,
+  appSecret: process.env.WHATSAPP_APP_SECRET ?? null,
+  ...(process.env.WHATSAPP_BUSINESS_ACCOUNT_ID ? { businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID } : {}),
+  // Comma-separated phone_number_id list, the tenant's or its channels'
+  numbers: (process.env.SIMULATOR_PHONE_NUMBER_IDS ?? process.env.WHATSAPP_PHONE_NUMBER_ID ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .map((id, i) => ({ id, displayPhoneNumber: `1555000${String(i + 1).padStart(4, '0')}` })),
+  statusDelayMs: Number(process.env.SIMULATOR_STATUS_DELAY_MS ?? 500),
+  autoRead: process.env.SIMULATOR_AUTO_READ !== 'false',
+});
+
+async function main() {
+  const apiUrl = await simulator.start();
+  console.log(`WhatsApp Cloud API simulator listening, set WHATSAPP_API_URL=${apiUrl}`);
+  console.log(`Business numbers: ${simulator.numbers.map(n => n.id).join(', ')}`);
+}
+
+async function shutdown() {
+  await simulator.stop();
+  process.exit(0);
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
+main().catch((error) => {
+  console.error('Simulator failed to start', error);
+  process.exitCode = 1;
+});
@@ -51,6 +51,18 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class ServiceWindowClosedError extends AppError {
+  constructor(lastInboundAt: Date | null) {
+    super(
+      422,
+      'SERVICE_WINDOW_CLOSED',
+      'The customer has not written in the last 24 hours; only approved templates can be sent',
+      { lastInboundAt }
+    );
+    this.name = 'ServiceWindowClosedError';
+  }
+}
+
 export class TenantSuspendedError extends AppError {
   constructor() {
     super(403, 'TENANT_SUSPENDED', 'Service temporarily suspended. Please contact support.');
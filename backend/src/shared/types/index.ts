@@ -27,6 +27,13 @@ export interface ApiResponse<T = unknown> {
     message: string;
     details?: unknown;
   };
+  pagination?: {
+    limit: number;
+    nextCursor?: string | null; // Cursor-paginated lists
+    page?: number;
+    total?: number;
+    totalPages?: number;
+  };
 }
 
 export interface JwtPayload {
@@ -49,15 +56,43 @@ export interface RequestContext {
   };
 }
 
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // Unparsed JSON body
+    }
+  }
+}
+
 // WhatsApp types
 export interface WhatsAppMessage {
   id: string;
   from: string;
   timestamp: string;
-  type: 'text' | 'image' | 'document' | 'audio' | 'video' | 'location' | 'contacts' | 'interactive';
+  type: 'text' | 'image' | 'document' | 'audio' | 'video' | 'sticker' | 'location' | 'contacts' | 'interactive' | 'button';
   text?: { body: string };
-  image?: { id: string; mime_type: string; sha256: string };
-  document?: { id: string; mime_type: string; sha256: string; filename: string };
+  image?: { id: string; mime_type: string; sha256: string; caption?: string };
+  document?: { id: string; mime_type: string; sha256: string; filename: string; caption?: string };
+  audio?: { id: string; mime_type: string; sha256?: string; voice?: boolean };
+  video?: { id: string; mime_type: string; sha256?: string; caption?: string };
+  sticker?: { id: string; mime_type: string; sha256?: string; animated?: boolean };
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+  button?: { payload: string; text: string }; // Template quick-reply button
+  location?: { latitude: number; longitude: number; name?: string; address?: string; url?: string };
+  contacts?: WhatsAppContactCard[];
+  context?: { from: string; id: string }; // Message being replied to
+}
+
+export interface WhatsAppContactCard {
+  name: { formatted_name: string; first_name?: string; last_name?: string };
+  phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+  emails?: Array<{ email?: string; type?: string }>;
+  org?: { company?: string; department?: string; title?: string };
 }
 
 export interface WhatsAppWebhookPayload {
@@ -70,18 +105,23 @@ export interface WhatsAppWebhookPayload {
         metadata: { display_phone_number: string; phone_number_id: string };
         contacts?: Array<{ profile: { name: string }; wa_id: string }>;
         messages?: WhatsAppMessage[];
-        statuses?: Array<{
-          id: string;
-          status: 'sent' | 'delivered' | 'read' | 'failed';
-          timestamp: string;
-          recipient_id: string;
-        }>;
+        statuses?: WhatsAppStatusUpdate[];
       };
       field: string;
     }>;
   }>;
 }
 
+export interface WhatsAppStatusUpdate {
+  id: string; // wamid of our message
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  conversation?: { id: string; expiration_timestamp?: string; origin?: { type: string } };
+  pricing?: { billable?: boolean; pricing_model?: string; category?: string };
+  errors?: Array<{ code: number; title: string; message?: string; error_data?: { details?: string } }>; // Failed deliveries only
+}
+
 // AI types
 export interface AIIntent {
   type: 'schedule' | 'reschedule' | 'cancel' | 'query_availability' | 'query_price' | 'query_info' | 'greeting' | 'other';
@@ -109,6 +149,7 @@ export interface ConversationContext {
     workingHours: string;
     timezone: string;
   };
+  aiConfigVersion?: number; // AI config version pinned by the conversation's WhatsApp channel
 }
 
 // RAG types
@@ -0,0 +1,22 @@
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replace {{variable}} placeholders; unknown variables are left untouched
+ */
+export function renderTemplate(template: string, variables: Record<string, string | undefined>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = variables[name];
+    return value === undefined ? placeholder : value;
+  });
+}
+
+/**
+ * Names of the {{variable}} placeholders of a template, in order of appearance
+ */
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    if (match[1]) names.add(match[1]);
+  }
+  return [...names];
+}
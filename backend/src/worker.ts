@@ -32,6 +32,7 @@ async function main() {
       workers.rag.close(),
       workers.reminder.close(),
       workers.whatsapp.close(),
+      workers.media.close(),
     ]);
 
     // Close queues
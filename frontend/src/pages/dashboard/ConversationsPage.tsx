@@ -12,10 +12,12 @@ import {
   Clock,
   Phone,
   Video,
-  Info
+  Info,
+  Mic
 } from 'lucide-react';
 import { Avatar, Badge, Button } from '../../components/ui';
 import { cn, formatRelativeTime, formatTime } from '../../lib/utils';
+import api from '../../lib/api';
 import type { Conversation, Message } from '../../types';
 
 // Mock data
@@ -50,11 +52,11 @@ const mockConversations: Conversation[] = [
 ];
 
 const mockMessages: Message[] = [
-  { id: '1', direction: 'INBOUND', type: 'TEXT', content: 'Hola, ¿cuánto cuesta el servicio de consulta?', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 300000).toISOString() },
-  { id: '2', direction: 'OUTBOUND', type: 'TEXT', content: '¡Hola María! 👋 El servicio de consulta tiene un costo de $500 MXN. Incluye evaluación completa y plan de tratamiento personalizado. ¿Te gustaría agendar una cita?', waStatus: 'READ', isAiGenerated: true, aiIntent: 'pricing', createdAt: new Date(Date.now() - 240000).toISOString() },
-  { id: '3', direction: 'INBOUND', type: 'TEXT', content: 'Sí, me interesa. ¿Qué horarios tienen disponibles?', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 180000).toISOString() },
-  { id: '4', direction: 'OUTBOUND', type: 'TEXT', content: 'Tenemos disponibilidad mañana a las 10:00 AM, 2:00 PM y 5:00 PM. También el jueves a las 9:00 AM y 3:00 PM. ¿Cuál te funciona mejor?', waStatus: 'DELIVERED', isAiGenerated: true, aiIntent: 'appointment', createdAt: new Date(Date.now() - 120000).toISOString() },
-  { id: '5', direction: 'INBOUND', type: 'TEXT', content: 'Mañana a las 2:00 PM está perfecto', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 60000).toISOString() },
+  { id: '1', conversationId: '1', direction: 'INBOUND', type: 'TEXT', content: 'Hola, ¿cuánto cuesta el servicio de consulta?', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 300000).toISOString() },
+  { id: '2', conversationId: '1', direction: 'OUTBOUND', type: 'TEXT', content: '¡Hola María! 👋 El servicio de consulta tiene un costo de $500 MXN. Incluye evaluación completa y plan de tratamiento personalizado. ¿Te gustaría agendar una cita?', waStatus: 'READ', isAiGenerated: true, aiIntent: 'pricing', createdAt: new Date(Date.now() - 240000).toISOString() },
+  { id: '3', conversationId: '1', direction: 'INBOUND', type: 'TEXT', content: 'Sí, me interesa. ¿Qué horarios tienen disponibles?', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 180000).toISOString() },
+  { id: '4', conversationId: '1', direction: 'OUTBOUND', type: 'TEXT', content: 'Tenemos disponibilidad mañana a las 10:00 AM, 2:00 PM y 5:00 PM. También el jueves a las 9:00 AM y 3:00 PM. ¿Cuál te funciona mejor?', waStatus: 'DELIVERED', isAiGenerated: true, aiIntent: 'appointment', createdAt: new Date(Date.now() - 120000).toISOString() },
+  { id: '5', conversationId: '1', direction: 'INBOUND', type: 'TEXT', content: 'Mañana a las 2:00 PM está perfecto', waStatus: 'READ', isAiGenerated: false, createdAt: new Date(Date.now() - 60000).toISOString() },
 ];
 
 function MessageStatus({ status }: { status: Message['waStatus'] }) {
@@ -72,6 +74,47 @@ function MessageStatus({ status }: { status: Message['waStatus'] }) {
   }
 }
 
+// Media is served by an authenticated endpoint, so it is fetched with the API client
+function VoiceNote({ message }: { message: Message }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message.mediaUrl) return;
+
+    let objectUrl: string | null = null;
+    api.get<Blob>(`/media/messages/${message.id}`, { responseType: 'blob' })
+      .then((response) => {
+        objectUrl = URL.createObjectURL(response.data);
+        setSrc(objectUrl);
+      })
+      .catch(() => setSrc(null));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [message.id, message.mediaUrl]);
+
+  return (
+    <div className="space-y-1">
+      {src ? (
+        <audio controls src={src} className="max-w-full" />
+      ) : (
+        <div className="flex items-center gap-2 text-sm opacity-70">
+          <Mic className="w-4 h-4" />
+          <span>Nota de voz</span>
+        </div>
+      )}
+      {message.transcript ? (
+        <p className="text-sm italic whitespace-pre-wrap opacity-80">{message.transcript}</p>
+      ) : (
+        <p className="text-xs opacity-60">
+          {message.transcript === '' ? 'Sin transcripción' : 'Transcribiendo...'}
+        </p>
+      )}
+    </div>
+  );
+}
+
 export function ConversationsPage() {
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(mockConversations[0] ?? null);
   const [messages, setMessages] = useState<Message[]>(mockMessages);
@@ -88,6 +131,7 @@ export function ConversationsPage() {
     
     const message: Message = {
       id: Date.now().toString(),
+      conversationId: selectedConversation?.id ?? '',
       direction: 'OUTBOUND',
       type: 'TEXT',
       content: newMessage,
@@ -216,7 +260,11 @@ export function ConversationsPage() {
                       <span>IA</span>
                     </div>
                   )}
-                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  {msg.type === 'AUDIO' ? (
+                    <VoiceNote message={msg} />
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  )}
                   <div className={cn(
                     'flex items-center justify-end gap-1 mt-1',
                     msg.direction === 'OUTBOUND' ? 'text-primary-200' : 'text-gray-400'
@@ -106,10 +106,23 @@ export function ReportsPage() {
   const handleExportConversations = async () => {
     setIsExporting(true);
     try {
-      const res = await api.get<{ success: boolean; data: { conversations: Record<string, unknown>[] } }>(
-        '/conversations?limit=1000'
-      );
-      const conversations = res.data.data.conversations.map((c) => ({
+      // The list is paginated (100 per page) and hides snoozed conversations unless asked for
+      const rows: Record<string, unknown>[] = [];
+      for (const snoozed of ['false', 'true']) {
+        let cursor: string | null = null;
+        do {
+          const params: Record<string, string> = { limit: '100', snoozed, ...(cursor ? { cursor } : {}) };
+          const res = await api.get<{
+            success: boolean;
+            data: Record<string, unknown>[];
+            pagination: { nextCursor: string | null };
+          }>('/conversations', { params });
+          rows.push(...res.data.data);
+          cursor = res.data.pagination.nextCursor;
+        } while (cursor);
+      }
+
+      const conversations = rows.map((c) => ({
         id: c.id,
         contacto: (c.contact as Record<string, unknown>)?.name || (c.contact as Record<string, unknown>)?.phone || '',
         estado: c.status,
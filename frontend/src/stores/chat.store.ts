@@ -1,12 +1,20 @@
 import { create } from 'zustand';
-import type { Conversation, Message } from '../types';
+import type { Conversation, ConversationNote, Message, TimelineItem } from '../types';
 import api from '../lib/api';
 import { getSocket, joinConversation, leaveConversation } from '../lib/socket';
 
+interface MessageStatusEvent {
+  messageId: string;
+  status: string;
+  at?: string;
+  error?: { code: number; title: string | null; details: string | null } | null;
+}
+
 interface ChatStore {
   conversations: Conversation[];
   activeConversation: Conversation | null;
   messages: Message[];
+  notes: ConversationNote[];
   isLoadingConversations: boolean;
   isLoadingMessages: boolean;
   isSending: boolean;
@@ -20,7 +28,9 @@ interface ChatStore {
   
   // Socket handlers
   handleNewMessage: (message: Message) => void;
-  handleMessageStatus: (data: { messageId: string; status: string }) => void;
+  handleMessageStatus: (data: MessageStatusEvent) => void;
+  handleMediaReady: (data: { messageId: string; mediaUrl: string; mediaType: string }) => void;
+  handleMessageTranscribed: (data: { messageId: string; transcript: string }) => void;
   handleTyping: (data: { userId: string; conversationId: string }, isTyping: boolean) => void;
 }
 
@@ -28,6 +38,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   conversations: [],
   activeConversation: null,
   messages: [],
+  notes: [],
   isLoadingConversations: false,
   isLoadingMessages: false,
   isSending: false,
@@ -53,17 +64,21 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       leaveConversation(activeConversation.id);
     }
     
-    set({ activeConversation: conversation, isLoadingMessages: true, messages: [] });
+    set({ activeConversation: conversation, isLoadingMessages: true, messages: [], notes: [] });
     
     // Join new conversation room
     joinConversation(conversation.id);
     
     try {
-      const response = await api.get<{ success: boolean; data: Message[] }>(
+      const response = await api.get<{ success: boolean; data: TimelineItem[] }>(
         `/conversations/${conversation.id}/messages`
       );
       if (response.data.success && response.data.data) {
-        set({ messages: response.data.data });
+        const timeline = response.data.data;
+        set({
+          messages: timeline.filter((item): item is Message & { kind: 'message' } => item.kind === 'message'),
+          notes: timeline.filter((item): item is ConversationNote & { kind: 'note' } => item.kind === 'note'),
+        });
       }
     } finally {
       set({ isLoadingMessages: false });
@@ -82,8 +97,11 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       );
       
       if (response.data.success && response.data.data) {
+        const message = response.data.data;
         set((state) => ({
-          messages: [...state.messages, response.data.data!],
+          messages: state.messages.some((m) => m.id === message.id)
+            ? state.messages
+            : [...state.messages, message],
         }));
       }
     } finally {
@@ -127,14 +145,15 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     const { activeConversation } = get();
     
     set((state) => {
-      // Add to messages if in active conversation
-      const newMessages = activeConversation?.id === message.id
+      // Add to messages if in active conversation (our own replies are already there)
+      const isKnown = state.messages.some((m) => m.id === message.id);
+      const newMessages = activeConversation?.id === message.conversationId && !isKnown
         ? [...state.messages, message]
         : state.messages;
 
       // Update conversation list
       const newConversations = state.conversations.map((c) => {
-        if (c.id === activeConversation?.id) {
+        if (c.id === message.conversationId) {
           return {
             ...c,
             lastMessage: message,
@@ -148,10 +167,32 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     });
   },
 
-  handleMessageStatus: (data: { messageId: string; status: string }) => {
+  handleMessageStatus: (data: MessageStatusEvent) => {
+    set((state) => ({
+      messages: state.messages.map((m) =>
+        m.id === data.messageId
+          ? {
+            ...m,
+            waStatus: data.status as Message['waStatus'],
+            ...(data.error?.title ? { waErrorTitle: data.error.title } : {}),
+          }
+          : m
+      ),
+    }));
+  },
+
+  handleMediaReady: (data: { messageId: string; mediaUrl: string; mediaType: string }) => {
+    set((state) => ({
+      messages: state.messages.map((m) =>
+        m.id === data.messageId ? { ...m, mediaUrl: data.mediaUrl, mediaType: data.mediaType } : m
+      ),
+    }));
+  },
+
+  handleMessageTranscribed: (data: { messageId: string; transcript: string }) => {
     set((state) => ({
       messages: state.messages.map((m) =>
-        m.id === data.messageId ? { ...m, waStatus: data.status as Message['waStatus'] } : m
+        m.id === data.messageId ? { ...m, transcript: data.transcript } : m
       ),
     }));
   },
@@ -178,6 +219,8 @@ export function setupChatSocketListeners() {
 
   socket.on('message:new', store.handleNewMessage);
   socket.on('message:status', store.handleMessageStatus);
+  socket.on('media_ready', store.handleMediaReady);
+  socket.on('message_transcribed', store.handleMessageTranscribed);
   socket.on('typing:start', (data) => store.handleTyping(data, true));
   socket.on('typing:stop', (data) => store.handleTyping(data, false));
 }
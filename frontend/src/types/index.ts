@@ -64,23 +64,51 @@ export interface Conversation {
   contact: Contact;
   lastMessage?: Message;
   lastMessageAt: string;
-  unreadCount?: number;
+  snoozedUntil?: string | null; // Hidden from the inbox until then
+  closedAt?: string | null;
+  previousConversationId?: string | null; // Earlier conversation with the same customer
+  unreadCount?: number; // Customer messages the current agent has not read
+  lastReadAt?: string | null;
+  seenBy?: ConversationReadState[]; // How far each agent has read
+}
+
+export interface ConversationReadState {
+  lastReadAt: string;
+  lastReadMessageId: string | null;
+  user: { id: string; name: string };
 }
 
 export interface Message {
   id: string;
+  conversationId: string;
   direction: 'INBOUND' | 'OUTBOUND';
-  type: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO' | 'VIDEO' | 'LOCATION' | 'INTERACTIVE' | 'TEMPLATE';
+  type: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO' | 'VIDEO' | 'LOCATION' | 'CONTACT' | 'INTERACTIVE' | 'TEMPLATE' | 'REACTION';
   content?: string;
   mediaUrl?: string;
   mediaType?: string;
   fileName?: string;
+  transcript?: string; // Voice notes
+  quotedMessageId?: string; // Quoted message, or the one a reaction is for
   waStatus: 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  waErrorTitle?: string; // Why WhatsApp could not deliver it
   isAiGenerated: boolean;
   aiIntent?: string;
   createdAt: string;
 }
 
+// Internal note between agents, shown in the timeline but never sent to the customer
+export interface ConversationNote {
+  id: string;
+  conversationId: string;
+  content: string;
+  mentionedUserIds: string[];
+  author: { id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TimelineItem = (Message & { kind: 'message' }) | (ConversationNote & { kind: 'note' });
+
 // Calendar
 export interface Appointment {
   id: string;